@@ -0,0 +1,13 @@
+-- Index of every entity fetched from the KRS API
+-- Used to resolve NIP/REGON to a KRS number without a network call
+CREATE TABLE IF NOT EXISTS krs_companies (
+  krs TEXT PRIMARY KEY,
+  registry TEXT NOT NULL,
+  name TEXT NOT NULL,
+  nip TEXT,
+  regon TEXT,
+  fetched_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_krs_companies_nip ON krs_companies(nip);
+CREATE INDEX IF NOT EXISTS idx_krs_companies_regon ON krs_companies(regon);
@@ -0,0 +1,23 @@
+-- Searchable company index
+-- krs_companies keeps display values; krs_companies_fts holds the same data
+-- folded (lower case, diacritics removed, "ł" -> "l") so that name search
+-- and filters are diacritics-insensitive. PKD codes are stored without dots
+-- ("62.01.Z" -> "6201z") so they can be prefix-matched.
+ALTER TABLE krs_companies ADD COLUMN previous_names TEXT NOT NULL DEFAULT '';
+ALTER TABLE krs_companies ADD COLUMN city TEXT NOT NULL DEFAULT '';
+ALTER TABLE krs_companies ADD COLUMN voivodeship TEXT NOT NULL DEFAULT '';
+ALTER TABLE krs_companies ADD COLUMN legal_form TEXT NOT NULL DEFAULT '';
+ALTER TABLE krs_companies ADD COLUMN pkd_codes TEXT NOT NULL DEFAULT '';
+
+CREATE VIRTUAL TABLE IF NOT EXISTS krs_companies_fts USING fts5(
+  krs UNINDEXED,
+  name,
+  previous_names,
+  city,
+  nip,
+  regon,
+  pkd_codes,
+  voivodeship,
+  legal_form,
+  tokenize = "unicode61 remove_diacritics 2"
+);
@@ -0,0 +1,32 @@
+-- Per-user company watchlists
+-- watchlist_entries keeps the baseline each company is compared against:
+-- the last registry entry number seen and the comparable fields
+-- (JSON, see src/helpers/company-diff.ts). The daily scheduled check
+-- records every detected change in watchlist_events.
+CREATE TABLE IF NOT EXISTS watchlist_entries (
+  user_id TEXT NOT NULL,
+  krs TEXT NOT NULL,
+  name TEXT NOT NULL,
+  label TEXT,
+  added_at INTEGER NOT NULL,
+  last_entry_number INTEGER,
+  fields TEXT NOT NULL,
+  checked_at INTEGER,
+  PRIMARY KEY (user_id, krs)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_entries_krs ON watchlist_entries(krs);
+CREATE INDEX IF NOT EXISTS idx_watchlist_entries_checked ON watchlist_entries(checked_at);
+
+CREATE TABLE IF NOT EXISTS watchlist_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  krs TEXT NOT NULL,
+  name TEXT NOT NULL,
+  detected_at INTEGER NOT NULL,
+  entry_number_before INTEGER,
+  entry_number_after INTEGER,
+  changes TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_events_user ON watchlist_events(user_id, detected_at);
@@ -0,0 +1,16 @@
+-- Per-user snapshots of viewed companies
+-- A new row is stored when a company is viewed in a state the user has not
+-- seen before (new registry entry or changed data); otherwise only seen_at
+-- of the latest row moves forward. data holds CompanyData as JSON without
+-- change history. Older snapshots are pruned per user and company.
+CREATE TABLE IF NOT EXISTS company_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  krs TEXT NOT NULL,
+  taken_at INTEGER NOT NULL,
+  seen_at INTEGER NOT NULL,
+  last_entry_number INTEGER,
+  data TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_snapshots_user_krs ON company_snapshots(user_id, krs, taken_at);
@@ -0,0 +1,28 @@
+-- People in fetched companies
+-- One row per role a person holds or held: board member, supervisory board
+-- member, proxy or shareholder. name_key is the folded name with its words
+-- sorted and padded with spaces (" adam jan kowalski "), so that a query can
+-- match each word regardless of order. birth_date is decoded from PESEL and
+-- is usually null, as public extracts mask it. Rows from a full extract
+-- (source 'pelny') carry role start and end dates; rows from a current
+-- extract only list present roles.
+CREATE TABLE IF NOT EXISTS krs_person_roles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  birth_date TEXT,
+  krs TEXT NOT NULL,
+  company_name TEXT NOT NULL,
+  role TEXT NOT NULL,
+  function TEXT,
+  organ TEXT,
+  since TEXT,
+  until TEXT,
+  current INTEGER NOT NULL,
+  source TEXT NOT NULL,
+  entry_number INTEGER,
+  fetched_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_krs_person_roles_name ON krs_person_roles(name_key);
+CREATE INDEX IF NOT EXISTS idx_krs_person_roles_krs ON krs_person_roles(krs);
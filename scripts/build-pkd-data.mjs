@@ -0,0 +1,232 @@
+#!/usr/bin/env node
+/**
+ * Build PKD Data
+ *
+ * Generates the bundled PKD dictionaries (src/data/*.json) from the official
+ * GUS tables, exported as CSV from the classification portal:
+ *
+ *   --pkd2007 <file>         PKD 2007, all levels (sections to subclasses)
+ *   --pkd2025 <file>         PKD 2025, all levels
+ *   --correspondence <file>  Correspondence table PKD 2007 -> PKD 2025
+ *
+ * Any subset of the inputs may be given; only the matching JSON files are
+ * rewritten. CSV files may use ";", "," or tabs and quoted fields.
+ *
+ * Dictionary rows: the most specific code in the row is the entry; the
+ * column headed "Nazwa" (else the first other non-empty cell) is the Polish
+ * name and a column whose header mentions English ("ang", "english",
+ * "name") the English name.
+ *
+ * Correspondence rows: columns whose header mentions 2007 and 2025 hold the
+ * codes. An empty PKD 2007 cell continues the previous row (merged cells).
+ * PKD 2025 codes are stored at class level, as the dictionary is.
+ *
+ * Usage: npm run build:pkd-data -- --pkd2007 pkd2007.csv --correspondence klucz.csv
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const DATA_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "src", "data");
+
+const args = parseArgs(process.argv.slice(2));
+if (!args.pkd2007 && !args.pkd2025 && !args.correspondence) {
+  console.error(
+    "Usage: build-pkd-data.mjs [--pkd2007 <csv>] [--pkd2025 <csv>] [--correspondence <csv>]"
+  );
+  process.exit(1);
+}
+
+const pkd2007 = args.pkd2007
+  ? buildDictionary(readCsv(args.pkd2007))
+  : readJson("pkd-2007.json");
+
+if (args.pkd2007) {
+  writeRows("pkd-2007.json", pkd2007);
+}
+if (args.pkd2025) {
+  writeRows("pkd-2025.json", buildDictionary(readCsv(args.pkd2025)));
+}
+if (args.correspondence) {
+  const names = new Map(pkd2007.map(([code, name]) => [code, name]));
+  writeRows("pkd-2007-2025.json", buildCorrespondence(readCsv(args.correspondence), names));
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+/**
+ * [code, Polish name, English name] rows, in classification order
+ */
+function buildDictionary(table) {
+  const [header, ...rows] = table;
+  const englishColumn = header.findIndex((h) => /ang|english|\bname\b/i.test(h));
+  const nameColumn = header.findIndex((h, i) => i !== englishColumn && /nazwa/i.test(h));
+  const entries = new Map();
+
+  for (const row of rows) {
+    const codes = row
+      .map((cell, index) => ({ index, code: normalizeCode(cell) }))
+      .filter((c) => c.code !== null);
+    if (codes.length === 0) continue;
+    const { index, code } = codes.reduce((a, b) => (specificity(b.code) > specificity(a.code) ? b : a));
+
+    const name =
+      nameColumn >= 0
+        ? row[nameColumn]
+        : row.find(
+            (cell, i) =>
+              i !== index && i !== englishColumn && cell.trim() && normalizeCode(cell) === null
+          );
+    if (!name?.trim()) continue;
+    const english = englishColumn >= 0 ? (row[englishColumn] ?? "").trim() : "";
+    if (!entries.has(code)) entries.set(code, [code, name.trim(), english]);
+  }
+
+  return [...entries.values()];
+}
+
+/**
+ * [PKD 2007 subclass, its Polish name, PKD 2025 class] rows
+ */
+function buildCorrespondence(table, names) {
+  const [header, ...rows] = table;
+  const fromColumns = header.flatMap((h, i) => (/2007/.test(h) ? [i] : []));
+  const toColumns = header.flatMap((h, i) => (/2025/.test(h) ? [i] : []));
+  if (fromColumns.length === 0 || toColumns.length === 0) {
+    throw new Error("Correspondence table needs columns with 2007 and 2025 in the header");
+  }
+
+  const pairs = new Map();
+  let from = null;
+  for (const row of rows) {
+    const source = firstCode(row, fromColumns);
+    if (source) from = source;
+    const target = firstCode(row, toColumns);
+    if (!from || !target || specificity(from) < 4 || specificity(target) < 4) continue;
+
+    const cls = target.slice(0, 5);
+    const key = `${from} ${cls}`;
+    if (!pairs.has(key)) pairs.set(key, [from, names.get(from) ?? nameIn(row, fromColumns), cls]);
+  }
+
+  return [...pairs.values()];
+}
+
+function firstCode(row, columns) {
+  for (const column of columns) {
+    const code = normalizeCode(row[column] ?? "");
+    if (code) return code;
+  }
+  return null;
+}
+
+/**
+ * Polish name next to the PKD 2007 code when the dictionary lacks it
+ */
+function nameIn(row, columns) {
+  for (const column of columns) {
+    const cell = (row[column + 1] ?? "").trim();
+    if (cell && normalizeCode(cell) === null) return cell;
+  }
+  return "";
+}
+
+// ============================================================================
+// Codes (same rules as normalizePkdCode in src/helpers/pkd.ts)
+// ============================================================================
+
+function normalizeCode(value) {
+  const compact = value.trim().toUpperCase().replace(/^SEKCJA\s+/, "").replace(/[\s.]/g, "");
+  if (/^[A-V]$/.test(compact)) return compact;
+  const match = /^(\d{2})(\d)?(\d)?([A-Z])?$/.exec(compact);
+  if (!match) return null;
+  const [, division, group, cls, subclass] = match;
+  if (subclass && !cls) return null;
+  if (!group) return division;
+  if (!cls) return `${division}.${group}`;
+  return subclass ? `${division}.${group}${cls}.${subclass}` : `${division}.${group}${cls}`;
+}
+
+/** 0 section, 1 division, 2 group, 3 class, 4 subclass */
+function specificity(code) {
+  if (/^[A-Z]$/.test(code)) return 0;
+  return Math.min(code.replace(/\./g, "").length - 1, 4);
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+function parseArgs(argv) {
+  const result = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, "");
+    if (!["pkd2007", "pkd2025", "correspondence"].includes(key) || !argv[i + 1]) {
+      console.error(`Unknown or incomplete option: ${argv[i]}`);
+      process.exit(1);
+    }
+    result[key] = argv[i + 1];
+  }
+  return result;
+}
+
+/**
+ * Parse a CSV file into rows of cells (delimiter detected from the header)
+ */
+function readCsv(path) {
+  const text = readFileSync(path, "utf8").replace(/^﻿/, "");
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = ["\t", ";", ","].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows = [];
+  let row = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      if (row.some((c) => c.trim())) rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  if (row.some((c) => c.trim())) rows.push(row);
+  return rows;
+}
+
+function readJson(file) {
+  return JSON.parse(readFileSync(join(DATA_DIR, file), "utf8"));
+}
+
+/**
+ * Write rows one per line, like the hand-maintained files
+ */
+function writeRows(file, rows) {
+  const body = rows.map((row) => `  ${JSON.stringify(row).replace(/","/g, '", "')}`).join(",\n");
+  writeFileSync(join(DATA_DIR, file), `[\n${body}\n]\n`);
+  console.log(`✅ ${file}: ${rows.length} rows`);
+}
@@ -0,0 +1,187 @@
+/**
+ * Batch Company Lookup
+ *
+ * Looks up many KRS numbers in one call (e.g. onboarding a vendor list)
+ * instead of one view_company round-trip each. Companies are fetched
+ * through KrsClient with bounded concurrency, so cached extracts are reused
+ * and the KRS API is not flooded. Every number gets its own result: a
+ * company summary or a typed error.
+ */
+
+import type { CompanyData, CompanyStatusCode, Env } from "./types.js";
+import {
+  KrsClient,
+  STATUS_LABELS,
+  classifyLookupError,
+  type KrsLookupErrorCode,
+} from "./krs-client.js";
+import { mapWithConcurrency } from "./helpers/concurrency.js";
+
+/** Hard ceiling on KRS numbers per batch (KRS_BATCH_MAX_SIZE cannot exceed it) */
+export const MAX_BATCH_SIZE = 100;
+
+/** Batch size limit when KRS_BATCH_MAX_SIZE is not set */
+export const DEFAULT_BATCH_SIZE = 50;
+
+/** Companies fetched at the same time */
+const BATCH_CONCURRENCY = 4;
+
+/**
+ * Compact company summary for list display
+ */
+export interface BatchCompany {
+  name: string;
+  legalForm: string;
+  status: CompanyStatusCode;
+  city: string;
+  nip: string | null;
+  regon: string | null;
+  registrationDate: string;
+  capital: string | null;
+  lastEntryNumber: number | null;
+}
+
+/**
+ * Result for one requested KRS number
+ */
+export type BatchItem =
+  | { krs: string; ok: true; company: BatchCompany }
+  | { krs: string; ok: false; error: { code: KrsLookupErrorCode; message: string } };
+
+/**
+ * Result of a batch lookup
+ */
+export interface CompanyBatch {
+  requested: number;
+  succeeded: number;
+  failed: number;
+  /** Duplicates removed; in the order given */
+  results: BatchItem[];
+}
+
+/**
+ * Batch size limit configured for this deployment
+ */
+export function batchSizeLimit(env: Env): number {
+  const configured = Number.parseInt(env.KRS_BATCH_MAX_SIZE ?? "", 10);
+  if (Number.isNaN(configured) || configured < 1) return DEFAULT_BATCH_SIZE;
+  return Math.min(MAX_BATCH_SIZE, configured);
+}
+
+/**
+ * Look up many companies at once
+ *
+ * Numbers may omit leading zeros ("821672"); duplicates are looked up once.
+ *
+ * @param client - KRS client (results are cached like single lookups)
+ * @param numbers - KRS numbers to look up
+ * @param maxSize - Batch size limit (see batchSizeLimit)
+ * @throws Error if more distinct numbers are given than maxSize
+ */
+export async function viewCompaniesBatch(
+  client: KrsClient,
+  numbers: string[],
+  maxSize: number
+): Promise<CompanyBatch> {
+  const requested = [...new Set(numbers.map(normalizeKrs))];
+  if (requested.length > maxSize) {
+    throw new Error(
+      `Too many KRS numbers: ${requested.length} (at most ${maxSize} per call) - split the list`
+    );
+  }
+
+  const results = await mapWithConcurrency(
+    requested,
+    BATCH_CONCURRENCY,
+    async (krs): Promise<BatchItem> => {
+      if (!/^\d{10}$/.test(krs)) {
+        return {
+          krs,
+          ok: false,
+          error: { code: "invalid_krs", message: `Invalid KRS number format: ${krs}` },
+        };
+      }
+      try {
+        return { krs, ok: true, company: summarize(await client.getCompany(krs)) };
+      } catch (error) {
+        return {
+          krs,
+          ok: false,
+          error: {
+            code: classifyLookupError(error),
+            message: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+    }
+  );
+
+  const succeeded = results.filter((r) => r.ok).length;
+  return {
+    requested: requested.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+}
+
+/**
+ * Pad a KRS number written without leading zeros ("821672" -> "0000821672")
+ */
+function normalizeKrs(value: string): string {
+  const trimmed = value.trim();
+  return /^\d{1,10}$/.test(trimmed) ? trimmed.padStart(10, "0") : trimmed;
+}
+
+function summarize(data: CompanyData): BatchCompany {
+  return {
+    name: data.name,
+    legalForm: data.legalForm,
+    status: data.status.code,
+    city: data.address.city,
+    nip: data.nip,
+    regon: data.regon,
+    registrationDate: data.registrationDate,
+    capital: data.capital?.display ?? null,
+    lastEntryNumber: data.lastEntryNumber,
+  };
+}
+
+const ERROR_LABELS: Record<KrsLookupErrorCode, string> = {
+  invalid_krs: "nieprawidłowy numer",
+  not_found: "nie znaleziono",
+  timeout: "przekroczony czas",
+  unavailable: "API niedostępne",
+  api_error: "błąd API",
+};
+
+/**
+ * Format a batch lookup as a text table for non-UI hosts
+ */
+export function formatCompanyBatchAsText(batch: CompanyBatch): string {
+  const lines: string[] = [];
+  const cell = (value: string | null) => (value ?? "—").replace(/\|/g, "/");
+
+  lines.push(
+    `📋 Sprawdzono ${batch.requested} numerów KRS: ${batch.succeeded} znaleziono` +
+      (batch.failed > 0 ? `, ${batch.failed} z błędem` : "")
+  );
+  lines.push("");
+  lines.push("| KRS | Nazwa | Forma prawna | Status | Miejscowość | NIP |");
+  lines.push("|---|---|---|---|---|---|");
+
+  for (const item of batch.results) {
+    if (item.ok) {
+      const c = item.company;
+      lines.push(
+        `| ${item.krs} | ${cell(c.name)} | ${cell(c.legalForm)} | ${STATUS_LABELS[c.status]} | ${cell(c.city)} | ${cell(c.nip)} |`
+      );
+    } else {
+      lines.push(
+        `| ${cell(item.krs)} | ❌ ${ERROR_LABELS[item.error.code]}: ${cell(item.error.message)} | | | | |`
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
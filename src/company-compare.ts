@@ -0,0 +1,232 @@
+/**
+ * Company Comparison
+ *
+ * Lines up two to five companies side by side: legal form, status, seat,
+ * age, capital, organ sizes and PKD codes. Every row carries one value per
+ * company (in the order requested) and whether the values differ, so that
+ * tables can be rendered and differences highlighted without further work.
+ */
+
+import type { CompanyData } from "./types.js";
+import { KrsClient, STATUS_LABELS } from "./krs-client.js";
+import { mapWithConcurrency } from "./helpers/concurrency.js";
+
+/** Companies compared in one call */
+export const MIN_COMPARED_COMPANIES = 2;
+export const MAX_COMPARED_COMPANIES = 5;
+
+/**
+ * One compared attribute, one value per company
+ */
+export interface ComparisonRow {
+  field: string;
+  label: string;
+  /** Display values (null when unknown) */
+  values: (string | null)[];
+  /** Numeric values for ordering and charts (numeric rows only) */
+  numbers: (number | null)[] | null;
+  /** True when not all companies have the same value */
+  differs: boolean;
+}
+
+/**
+ * PKD code and the companies that have it
+ */
+export interface PkdComparisonRow {
+  code: string;
+  description: string;
+  /** One flag per company */
+  present: boolean[];
+  /** Main (przeważająca) activity of the company, per company */
+  main: boolean[];
+}
+
+/**
+ * Aligned comparison of several companies
+ */
+export interface CompanyComparison {
+  companies: { krs: string; name: string }[];
+  rows: ComparisonRow[];
+  /** Codes of all companies, the most widely shared first */
+  pkd: PkdComparisonRow[];
+  /** Number of PKD codes every company has */
+  pkdSharedByAll: number;
+}
+
+/**
+ * Fetch and compare companies
+ *
+ * @param client - KRS client (lookups are cached like single lookups)
+ * @param numbers - 10-digit KRS numbers, in display order
+ * @throws Error on fewer than 2 or more than 5 distinct companies, or if
+ *         any of them cannot be fetched
+ */
+export async function compareCompanies(
+  client: KrsClient,
+  numbers: string[]
+): Promise<CompanyComparison> {
+  const krsList = [...new Set(numbers)];
+  if (krsList.length < MIN_COMPARED_COMPANIES || krsList.length > MAX_COMPARED_COMPANIES) {
+    throw new Error(
+      `Compare ${MIN_COMPARED_COMPANIES} to ${MAX_COMPARED_COMPANIES} different companies (got ${krsList.length})`
+    );
+  }
+
+  const companies = await mapWithConcurrency(krsList, MAX_COMPARED_COMPANIES, async (krs) => {
+    try {
+      return await client.getCompany(krs);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`KRS ${krs}: ${message}`);
+    }
+  });
+
+  return buildComparison(companies, new Date());
+}
+
+/**
+ * Build the comparison of fetched companies
+ *
+ * @param today - Reference date for company age
+ */
+function buildComparison(companies: CompanyData[], today: Date): CompanyComparison {
+  const row = (
+    field: string,
+    label: string,
+    value: (c: CompanyData) => string | null,
+    number?: (c: CompanyData) => number | null
+  ): ComparisonRow => {
+    const values = companies.map(value);
+    const numbers = number ? companies.map(number) : null;
+    const compared = numbers ?? values;
+    return {
+      field,
+      label,
+      values,
+      numbers,
+      differs: compared.some((v) => v !== compared[0]),
+    };
+  };
+
+  const boardSize = (c: CompanyData) =>
+    (c.representationOrgans ?? [c.representation]).reduce((n, o) => n + o.members.length, 0);
+  const age = (c: CompanyData) => yearsBetween(c.registrationDate, today);
+
+  const rows: ComparisonRow[] = [
+    row("legalForm", "Forma prawna", (c) => c.legalForm),
+    row("status", "Status", (c) => STATUS_LABELS[c.status.code]),
+    row("city", "Siedziba", (c) => c.address.city || null),
+    row("voivodeship", "Województwo", (c) => c.address.voivodeship || null),
+    row("registrationDate", "Data rejestracji", (c) => c.registrationDate),
+    row(
+      "age",
+      "Wiek (lata)",
+      (c) => age(c)?.toFixed(1) ?? null,
+      (c) => age(c)
+    ),
+    row(
+      "capital",
+      "Kapitał",
+      (c) => c.capital?.display ?? null,
+      (c) => (c.capital?.minorUnits != null ? c.capital.minorUnits / 100 : null)
+    ),
+    row(
+      "boardSize",
+      "Członkowie zarządu",
+      (c) => String(boardSize(c)),
+      boardSize
+    ),
+    row(
+      "supervisoryBoardSize",
+      "Członkowie organu nadzoru",
+      (c) => String(c.supervisoryBoard?.members.length ?? 0),
+      (c) => c.supervisoryBoard?.members.length ?? 0
+    ),
+    row(
+      "proxies",
+      "Prokurenci",
+      (c) => String(c.proxies.length),
+      (c) => c.proxies.length
+    ),
+    row(
+      "shareholders",
+      "Wspólnicy",
+      (c) => String(c.shareholders.length),
+      (c) => c.shareholders.length
+    ),
+    row("mainActivity", "PKD przeważające", (c) => c.mainActivity.map((a) => a.code).join(", ") || null),
+    row(
+      "lastStatementYear",
+      "Ostatnie sprawozdanie",
+      (c) => c.filingStatus?.lastStatementYear?.toString() ?? null,
+      (c) => c.filingStatus?.lastStatementYear ?? null
+    ),
+  ];
+
+  const descriptions = new Map<string, string>();
+  for (const c of companies) {
+    for (const a of [...c.mainActivity, ...c.otherActivities]) {
+      if (!descriptions.has(a.code)) descriptions.set(a.code, a.description);
+    }
+  }
+  const pkd = [...descriptions].map(([code, description]) => ({
+    code,
+    description,
+    present: companies.map((c) =>
+      [...c.mainActivity, ...c.otherActivities].some((a) => a.code === code)
+    ),
+    main: companies.map((c) => c.mainActivity.some((a) => a.code === code)),
+  }));
+  const shared = (r: PkdComparisonRow) => r.present.filter(Boolean).length;
+  pkd.sort((a, b) => shared(b) - shared(a) || a.code.localeCompare(b.code));
+
+  return {
+    companies: companies.map((c) => ({ krs: c.krs, name: c.name })),
+    rows,
+    pkd,
+    pkdSharedByAll: pkd.filter((r) => r.present.every(Boolean)).length,
+  };
+}
+
+/**
+ * Years between an ISO date and a reference date, to one decimal place
+ */
+function yearsBetween(isoDate: string, today: Date): number | null {
+  const start = Date.parse(isoDate);
+  if (Number.isNaN(start)) return null;
+  const years = (today.getTime() - start) / (365.25 * 24 * 3600 * 1000);
+  return Math.round(years * 10) / 10;
+}
+
+/**
+ * Format a comparison as a text table for non-UI hosts
+ */
+export function formatComparisonAsText(comparison: CompanyComparison): string {
+  const lines: string[] = [];
+  const cell = (value: string | null) => (value ?? "—").replace(/\|/g, "/");
+  const columns = comparison.companies.map((c) => `${cell(c.name)} (${c.krs})`);
+
+  lines.push(`⚖️ Porównanie ${comparison.companies.length} firm (* = różnice)`);
+  lines.push("");
+  lines.push(`| | ${columns.join(" | ")} |`);
+  lines.push(`|---|${columns.map(() => "---").join("|")}|`);
+  for (const row of comparison.rows) {
+    lines.push(
+      `| ${row.differs ? "*" : ""}${row.label} | ${row.values.map(cell).join(" | ")} |`
+    );
+  }
+
+  lines.push("");
+  lines.push(
+    `PKD: ${comparison.pkdSharedByAll} wspólnych dla wszystkich, ${comparison.pkd.length} łącznie`
+  );
+  for (const row of comparison.pkd.filter((r) => r.present.filter(Boolean).length > 1)) {
+    const holders = comparison.companies
+      .filter((_, i) => row.present[i])
+      .map((c) => c.krs)
+      .join(", ");
+    lines.push(`   • ${row.code} ${row.description} - ${holders}`);
+  }
+
+  return lines.join("\n");
+}
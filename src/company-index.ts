@@ -0,0 +1,406 @@
+/**
+ * Company Index (D1)
+ *
+ * Keeps a row for every entity the server has fetched from the KRS API.
+ * Used to:
+ * - Resolve NIP and REGON numbers to a KRS number locally
+ * - Search companies by name (including previous names), city, identifiers
+ *   and PKD codes - the KRS API itself has no name search
+ *
+ * Schema: migrations/0001_krs_companies.sql, migrations/0002_krs_companies_search.sql
+ */
+
+import type { CompanyData, KrsRegistry } from "./types.js";
+import type { IdentifierKind } from "./helpers/identifiers.js";
+import type { KrsLookupSource } from "./identifier-resolver.js";
+import { foldText } from "./helpers/krs-fields.js";
+
+/** Maximum page size for search results */
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+/**
+ * Company search criteria (at least one must be set)
+ */
+export interface CompanySearchQuery {
+  /** Name fragment, NIP, REGON or city */
+  query?: string;
+  voivodeship?: string;
+  /** Legal form phrase, e.g. "spółka akcyjna" */
+  legalForm?: string;
+  /** PKD code or prefix, e.g. "62.01" */
+  pkd?: string;
+  /** 1-based page number */
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Single search hit
+ */
+export interface CompanySearchHit {
+  krs: string;
+  registry: KrsRegistry;
+  name: string;
+  previousNames: string[];
+  city: string;
+  voivodeship: string;
+  legalForm: string;
+  nip: string | null;
+  regon: string | null;
+}
+
+/**
+ * Page of search results
+ */
+export interface CompanySearchResult {
+  total: number;
+  page: number;
+  pageSize: number;
+  /** True when no exact match existed and any-word or typo-tolerant matching was used */
+  fuzzy: boolean;
+  results: CompanySearchHit[];
+}
+
+/** Leading letters a misspelt word must share with the name to be a candidate */
+const TYPO_PREFIX_LENGTH = 3;
+
+/** Candidates re-ranked by edit distance when nothing else matched */
+const TYPO_CANDIDATES = 200;
+
+/**
+ * Legal form words ignored in name queries ("Acme sp. z o.o." -> "acme")
+ */
+const NAME_STOPWORDS = new Set([
+  "sp", "z", "o", "oo", "s", "a", "sa", "spolka", "spolki", "ograniczona",
+  "ograniczonej", "odpowiedzialnoscia", "akcyjna", "komandytowa", "jawna",
+  "partnerska", "prosta", "psa", "sk", "ska", "spj", "spk",
+]);
+
+export class CompanyIndex implements KrsLookupSource {
+  readonly name = "index";
+
+  constructor(private db: D1Database) {}
+
+  /**
+   * Insert or refresh the index row for a fetched company
+   *
+   * Previous names are accumulated: names from the full extract history and
+   * any name the entity had when it was last indexed.
+   */
+  async record(data: CompanyData): Promise<void> {
+    const existing = await this.db
+      .prepare(`SELECT name, previous_names FROM krs_companies WHERE krs = ?`)
+      .bind(data.krs)
+      .first<{ name: string; previous_names: string }>();
+
+    const previousNames = new Set(
+      (existing?.previous_names || "").split("\n").filter(Boolean)
+    );
+    if (existing && existing.name !== data.name) {
+      previousNames.add(existing.name);
+    }
+    for (const entry of data.history?.names ?? []) {
+      previousNames.add(entry.value);
+    }
+    previousNames.delete(data.name);
+
+    const previous = [...previousNames].join("\n");
+    const pkdCodes = [...data.mainActivity, ...data.otherActivities].map((a) => a.code);
+
+    await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO krs_companies
+             (krs, registry, name, nip, regon, fetched_at,
+              previous_names, city, voivodeship, legal_form, pkd_codes)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(krs) DO UPDATE SET
+             registry = excluded.registry,
+             name = excluded.name,
+             nip = excluded.nip,
+             regon = excluded.regon,
+             fetched_at = excluded.fetched_at,
+             previous_names = excluded.previous_names,
+             city = excluded.city,
+             voivodeship = excluded.voivodeship,
+             legal_form = excluded.legal_form,
+             pkd_codes = excluded.pkd_codes`
+        )
+        .bind(
+          data.krs,
+          data.registry,
+          data.name,
+          data.nip,
+          data.regon,
+          Date.now(),
+          previous,
+          data.address.city,
+          data.address.voivodeship,
+          data.legalForm,
+          pkdCodes.join(" ")
+        ),
+      this.db.prepare(`DELETE FROM krs_companies_fts WHERE krs = ?`).bind(data.krs),
+      this.db
+        .prepare(
+          `INSERT INTO krs_companies_fts
+             (krs, name, previous_names, city, nip, regon, pkd_codes, voivodeship, legal_form)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          data.krs,
+          foldText(data.name),
+          foldText(previous),
+          foldText(data.address.city),
+          data.nip ?? "",
+          data.regon ?? "",
+          pkdCodes.map(foldPkd).join(" "),
+          foldText(data.address.voivodeship),
+          foldText(data.legalForm)
+        ),
+    ]);
+  }
+
+  /**
+   * Find the KRS number of an already fetched entity
+   *
+   * A 9-digit REGON also matches the 14-digit REGON of the same entity and
+   * the other way round (the first nine digits identify the entity).
+   */
+  async findKrs(kind: IdentifierKind, value: string): Promise<string | null> {
+    const row =
+      kind === "nip"
+        ? await this.db
+            .prepare(`SELECT krs FROM krs_companies WHERE nip = ? LIMIT 1`)
+            .bind(value)
+            .first<{ krs: string }>()
+        : await this.db
+            .prepare(
+              `SELECT krs FROM krs_companies
+               WHERE regon = ? OR substr(regon, 1, 9) = ?
+               ORDER BY regon = ? DESC
+               LIMIT 1`
+            )
+            .bind(value, value.slice(0, 9), value)
+            .first<{ krs: string }>();
+
+    return row?.krs ?? null;
+  }
+
+  /**
+   * Search indexed companies
+   *
+   * Name words are prefix-matched and diacritics-insensitive. When no company
+   * matches all words, the search is repeated matching any word (ranked by
+   * relevance); when that finds nothing either, names are matched allowing
+   * typos ("logisytka" finds "Logistyka"). Both fallbacks mark the result
+   * as fuzzy.
+   *
+   * @throws Error if no search criteria are given
+   */
+  async search(criteria: CompanySearchQuery): Promise<CompanySearchResult> {
+    const page = Math.max(1, criteria.page ?? 1);
+    const pageSize = Math.min(
+      MAX_SEARCH_PAGE_SIZE,
+      Math.max(1, criteria.pageSize ?? 10)
+    );
+
+    // Identifiers written with separators ("526-025-02-74") are searched as one number
+    const query = /^[\d\s-]+$/.test(criteria.query ?? "")
+      ? (criteria.query ?? "").replace(/\D/g, "")
+      : criteria.query ?? "";
+    const words = foldWords(query).filter((w) => !NAME_STOPWORDS.has(w));
+
+    const filters: string[] = [];
+    const voivodeship = foldWords(criteria.voivodeship ?? "");
+    if (voivodeship.length > 0) {
+      filters.push(`voivodeship : "${voivodeship.join(" ")}"`);
+    }
+    const legalForm = foldWords(criteria.legalForm ?? "");
+    if (legalForm.length > 0) {
+      filters.push(`legal_form : "${legalForm.join(" ")}"`);
+    }
+    const pkd = foldPkd(criteria.pkd ?? "");
+    if (pkd) {
+      filters.push(`pkd_codes : "${pkd}" *`);
+    }
+
+    if (words.length === 0 && filters.length === 0) {
+      throw new Error("Provide a search query or at least one filter");
+    }
+
+    const build = (joiner: string) => {
+      const parts = [...filters];
+      if (words.length > 0) {
+        const terms = words.map((w) => `"${w}" *`).join(joiner);
+        parts.unshift(`{name previous_names city nip regon} : (${terms})`);
+      }
+      return parts.join(" AND ");
+    };
+
+    let result = await this.runSearch(build(" "), page, pageSize);
+    let fuzzy = false;
+    if (result.total === 0 && words.length > 1) {
+      result = await this.runSearch(build(" OR "), page, pageSize);
+      fuzzy = true;
+    }
+    if (result.total === 0 && words.length > 0) {
+      result = await this.searchWithTypos(words, filters, page, pageSize);
+      fuzzy = true;
+    }
+
+    return { ...result, page, pageSize, fuzzy };
+  }
+
+  /**
+   * Match names allowing a few typos per word
+   *
+   * Candidates share the first letters of a query word; they are kept when
+   * every query word is within its edit distance of some name word, and
+   * ranked by the total distance.
+   */
+  private async searchWithTypos(
+    words: string[],
+    filters: string[],
+    page: number,
+    pageSize: number
+  ): Promise<{ total: number; results: CompanySearchHit[] }> {
+    const terms = words.map((w) => `"${w.slice(0, TYPO_PREFIX_LENGTH)}" *`).join(" OR ");
+    const match = [`{name previous_names city} : (${terms})`, ...filters].join(" AND ");
+    const { results: candidates } = await this.runSearch(match, 1, TYPO_CANDIDATES);
+
+    const scored = candidates.flatMap((hit) => {
+      const nameWords = foldWords([hit.name, ...hit.previousNames, hit.city].join(" "));
+      let score = 0;
+      for (const word of words) {
+        const best = Math.min(...nameWords.map((n) => editDistance(word, n)));
+        if (best > allowedTypos(word)) return [];
+        score += best;
+      }
+      return [{ hit, score }];
+    });
+    scored.sort((a, b) => a.score - b.score);
+
+    return {
+      total: scored.length,
+      results: scored.slice((page - 1) * pageSize, page * pageSize).map((s) => s.hit),
+    };
+  }
+
+  private async runSearch(
+    match: string,
+    page: number,
+    pageSize: number
+  ): Promise<{ total: number; results: CompanySearchHit[] }> {
+    const count = await this.db
+      .prepare(
+        `SELECT COUNT(*) AS total FROM krs_companies_fts WHERE krs_companies_fts MATCH ?`
+      )
+      .bind(match)
+      .first<{ total: number }>();
+
+    const rows = await this.db
+      .prepare(
+        `SELECT c.krs, c.registry, c.name, c.previous_names, c.city,
+                c.voivodeship, c.legal_form, c.nip, c.regon
+         FROM krs_companies_fts f
+         JOIN krs_companies c ON c.krs = f.krs
+         WHERE krs_companies_fts MATCH ?
+         ORDER BY bm25(krs_companies_fts, 0, 10.0, 5.0, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0)
+         LIMIT ? OFFSET ?`
+      )
+      .bind(match, pageSize, (page - 1) * pageSize)
+      .all<{
+        krs: string;
+        registry: KrsRegistry;
+        name: string;
+        previous_names: string;
+        city: string;
+        voivodeship: string;
+        legal_form: string;
+        nip: string | null;
+        regon: string | null;
+      }>();
+
+    return {
+      total: count?.total ?? 0,
+      results: rows.results.map((row) => ({
+        krs: row.krs,
+        registry: row.registry,
+        name: row.name,
+        previousNames: row.previous_names.split("\n").filter(Boolean),
+        city: row.city,
+        voivodeship: row.voivodeship,
+        legalForm: row.legal_form,
+        nip: row.nip,
+        regon: row.regon,
+      })),
+    };
+  }
+}
+
+/**
+ * Format search results as text for non-UI hosts
+ */
+export function formatSearchResultsAsText(result: CompanySearchResult): string {
+  const lines: string[] = [];
+  const pages = Math.max(1, Math.ceil(result.total / result.pageSize));
+
+  lines.push(
+    `🔎 Znaleziono: ${result.total} (strona ${result.page}/${pages})` +
+      (result.fuzzy ? " - dopasowanie przybliżone" : "")
+  );
+  lines.push("");
+
+  for (const hit of result.results) {
+    lines.push(`• ${hit.name} - KRS ${hit.krs}`);
+    const details = [hit.legalForm, hit.city, hit.nip ? `NIP ${hit.nip}` : ""]
+      .filter(Boolean)
+      .join(", ");
+    if (details) lines.push(`   ${details}`);
+    if (hit.previousNames.length > 0) {
+      lines.push(`   Dawniej: ${hit.previousNames.join("; ")}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Split text into folded words safe to embed in an FTS5 query
+ */
+function foldWords(value: string): string[] {
+  return foldText(value).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Typos tolerated in a query word (none in short words)
+ */
+function allowedTypos(word: string): number {
+  return word.length <= 4 ? 0 : word.length <= 8 ? 1 : 2;
+}
+
+/**
+ * Edit distance counting a swap of neighbouring letters as one edit
+ */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * PKD code in FTS form ("62.01.Z" -> "6201z")
+ */
+function foldPkd(code: string): string {
+  return foldText(code).replace(/[^a-z0-9]/g, "");
+}
@@ -0,0 +1,324 @@
+/**
+ * Company Snapshots (D1)
+ *
+ * Keeps, per user, the states of a company the user has seen. Used to answer
+ * "what changed since I last looked?": view_company compares each current
+ * extract with the user's previous snapshot, and diff_company compares it
+ * with any stored snapshot or with the registry state on a chosen date.
+ *
+ * Schema: migrations/0004_company_snapshots.sql
+ */
+
+import type { CompanyData, CompanyDiff, DiffSide } from "./types.js";
+import {
+  companyFields,
+  diffCompanies,
+  diffFields,
+  formatFieldChanges,
+} from "./helpers/company-diff.js";
+import { KrsClient } from "./krs-client.js";
+import { companyAsOf } from "./krs-history.js";
+import { logger } from "./shared/logger.js";
+
+/** Snapshots kept per user and company (oldest are pruned) */
+export const MAX_SNAPSHOTS_PER_COMPANY = 20;
+
+/**
+ * Stored state of a company
+ */
+export interface CompanySnapshot {
+  id: number;
+  krs: string;
+  /** ISO 8601 timestamps: first and last time the user saw this state */
+  takenAt: string;
+  seenAt: string;
+  lastEntryNumber: number | null;
+  data: CompanyData;
+}
+
+/**
+ * Snapshot listing entry (without the stored data)
+ */
+export type SnapshotInfo = Omit<CompanySnapshot, "data">;
+
+interface SnapshotRow {
+  id: number;
+  krs: string;
+  taken_at: number;
+  seen_at: number;
+  last_entry_number: number | null;
+  data: string;
+}
+
+export class CompanySnapshots {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Record that a user has seen the current state of a company
+   *
+   * Stores a new snapshot only when the state differs from the latest one
+   * (new registry entry or changed fields).
+   *
+   * @param data - Current extract (point-in-time reconstructions are not stored)
+   * @returns The user's previous latest snapshot, or null on the first view
+   */
+  async record(userId: string, data: CompanyData): Promise<CompanySnapshot | null> {
+    const previous = await this.latest(userId, data.krs);
+    const now = Date.now();
+
+    const unchanged =
+      previous !== null &&
+      previous.lastEntryNumber === data.lastEntryNumber &&
+      diffFields(companyFields(previous.data), companyFields(data)).length === 0;
+
+    if (unchanged) {
+      await this.db
+        .prepare(`UPDATE company_snapshots SET seen_at = ? WHERE id = ?`)
+        .bind(now, previous.id)
+        .run();
+      return previous;
+    }
+
+    const { history: _history, asOf: _asOf, diff: _diff, ...state } = data;
+    await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO company_snapshots
+             (user_id, krs, taken_at, seen_at, last_entry_number, data)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .bind(userId, data.krs, now, now, data.lastEntryNumber, JSON.stringify(state)),
+      this.db
+        .prepare(
+          `DELETE FROM company_snapshots
+           WHERE user_id = ? AND krs = ? AND id NOT IN (
+             SELECT id FROM company_snapshots
+             WHERE user_id = ? AND krs = ?
+             ORDER BY taken_at DESC, id DESC
+             LIMIT ?
+           )`
+        )
+        .bind(userId, data.krs, userId, data.krs, MAX_SNAPSHOTS_PER_COMPANY),
+    ]);
+
+    return previous;
+  }
+
+  /**
+   * The user's most recent snapshot of a company
+   */
+  async latest(userId: string, krs: string): Promise<CompanySnapshot | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT id, krs, taken_at, seen_at, last_entry_number, data
+         FROM company_snapshots
+         WHERE user_id = ? AND krs = ?
+         ORDER BY taken_at DESC, id DESC
+         LIMIT 1`
+      )
+      .bind(userId, krs)
+      .first<SnapshotRow>();
+    return row ? toSnapshot(row) : null;
+  }
+
+  /**
+   * The user's snapshots of a company, newest first
+   */
+  async list(userId: string, krs: string): Promise<SnapshotInfo[]> {
+    const rows = await this.db
+      .prepare(
+        `SELECT id, krs, taken_at, seen_at, last_entry_number
+         FROM company_snapshots
+         WHERE user_id = ? AND krs = ?
+         ORDER BY taken_at DESC, id DESC`
+      )
+      .bind(userId, krs)
+      .all<Omit<SnapshotRow, "data">>();
+    return rows.results.map((row) => ({
+      id: row.id,
+      krs: row.krs,
+      takenAt: new Date(row.taken_at).toISOString(),
+      seenAt: new Date(row.seen_at).toISOString(),
+      lastEntryNumber: row.last_entry_number,
+    }));
+  }
+
+  /**
+   * One of the user's snapshots of a company
+   */
+  async get(userId: string, krs: string, id: number): Promise<CompanySnapshot | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT id, krs, taken_at, seen_at, last_entry_number, data
+         FROM company_snapshots
+         WHERE user_id = ? AND krs = ? AND id = ?`
+      )
+      .bind(userId, krs, id)
+      .first<SnapshotRow>();
+    return row ? toSnapshot(row) : null;
+  }
+}
+
+/**
+ * Describe a snapshot as one side of a comparison
+ */
+export function snapshotSide(snapshot: CompanySnapshot): DiffSide {
+  return {
+    source: "snapshot",
+    date: snapshot.seenAt,
+    entryNumber: snapshot.lastEntryNumber,
+    snapshotId: snapshot.id,
+  };
+}
+
+/**
+ * Describe fetched company data as one side of a comparison
+ */
+export function extractSide(data: CompanyData): DiffSide {
+  if (data.asOf) {
+    return {
+      source: "registry",
+      date: data.asOf.date,
+      entryNumber: data.asOf.entryNumber,
+      snapshotId: null,
+    };
+  }
+  return {
+    source: "current",
+    date: data.dataTimestamp,
+    entryNumber: data.lastEntryNumber,
+    snapshotId: null,
+  };
+}
+
+/**
+ * Record a view and compare it with the user's previous view
+ *
+ * Storage failures are logged but never fail the lookup itself.
+ *
+ * @returns Changes since the previous view, or null if none or first view
+ */
+export async function changesSinceLastView(
+  snapshots: CompanySnapshots,
+  userId: string,
+  data: CompanyData
+): Promise<CompanyDiff | null> {
+  try {
+    const previous = await snapshots.record(userId, data);
+    if (!previous) return null;
+    const diff = diffCompanies(previous.data, data, snapshotSide(previous), extractSide(data));
+    return diff.changes.length > 0 ? diff : null;
+  } catch (error) {
+    logger.warn({
+      event: "storage_error",
+      operation: "company_snapshot_record",
+      key: data.krs,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Compare the current extract of a company with an earlier state
+ *
+ * The earlier state is the registry state on `since` when given, otherwise
+ * the chosen snapshot or the user's latest one. The current extract is then
+ * recorded as the user's latest view.
+ *
+ * A registry state is rebuilt from the full extract, which reads all
+ * representation organs as one; it is therefore compared with the latest
+ * state rebuilt the same way rather than with the current extract.
+ *
+ * @returns Current data with `diff` attached, and the user's snapshots
+ * @throws Error if there is nothing to compare with
+ */
+export async function compareCompany(
+  client: KrsClient,
+  snapshots: CompanySnapshots,
+  userId: string,
+  krs: string,
+  options: { since?: string; snapshotId?: number } = {}
+): Promise<{ company: CompanyData; diff: CompanyDiff; snapshots: SnapshotInfo[] }> {
+  const current = await client.getCompany(krs);
+
+  let diff: CompanyDiff;
+  if (options.since) {
+    const full = await client.getCompany(krs, "pelny");
+    const before = companyAsOf(full, options.since);
+    const after = companyAsOf(full, new Date().toISOString().slice(0, 10));
+    diff = diffCompanies(before, after, extractSide(before), extractSide(full));
+  } else {
+    const snapshot =
+      options.snapshotId !== undefined
+        ? await snapshots.get(userId, krs, options.snapshotId)
+        : await snapshots.latest(userId, krs);
+    if (!snapshot) {
+      throw new Error(
+        options.snapshotId !== undefined
+          ? `Snapshot ${options.snapshotId} of KRS ${krs} not found`
+          : `No earlier view of KRS ${krs} to compare with - pass since (YYYY-MM-DD) to compare with the registry state on a date`
+      );
+    }
+    diff = diffCompanies(snapshot.data, current, snapshotSide(snapshot), extractSide(current));
+  }
+
+  await changesSinceLastView(snapshots, userId, current);
+
+  return {
+    company: { ...current, diff },
+    diff,
+    snapshots: await snapshots.list(userId, krs),
+  };
+}
+
+const SIDE_LABELS: Record<DiffSide["source"], string> = {
+  snapshot: "ostatnio oglądany stan",
+  registry: "stan w rejestrze",
+  current: "stan obecny",
+};
+
+/**
+ * Format a company diff as text for non-UI hosts
+ */
+export function formatCompanyDiffAsText(diff: CompanyDiff): string {
+  const lines: string[] = [];
+  const side = (s: DiffSide) =>
+    `${SIDE_LABELS[s.source]} z ${s.date.slice(0, 10)}` +
+    (s.entryNumber !== null ? ` (wpis ${s.entryNumber})` : "");
+
+  lines.push(`🔀 Zmiany: ${side(diff.from)} → ${side(diff.to)}`);
+  if (diff.changes.length === 0) {
+    lines.push("   Brak zmian w porównywanych polach.");
+  } else {
+    lines.push(...formatFieldChanges(diff.changes));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a snapshot list as text for non-UI hosts
+ */
+export function formatSnapshotsAsText(snapshots: SnapshotInfo[]): string {
+  if (snapshots.length === 0) return "";
+  return [
+    `🗂️ Zapisane stany (${snapshots.length}):`,
+    ...snapshots.map(
+      (s) =>
+        `   • #${s.id}: ${s.takenAt.slice(0, 10)} - ${s.seenAt.slice(0, 10)}` +
+        (s.lastEntryNumber !== null ? ` (wpis ${s.lastEntryNumber})` : "")
+    ),
+  ].join("\n");
+}
+
+function toSnapshot(row: SnapshotRow): CompanySnapshot {
+  return {
+    id: row.id,
+    krs: row.krs,
+    takenAt: new Date(row.taken_at).toISOString(),
+    seenAt: new Date(row.seen_at).toISOString(),
+    lastEntryNumber: row.last_entry_number,
+    data: JSON.parse(row.data) as CompanyData,
+  };
+}
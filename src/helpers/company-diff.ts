@@ -0,0 +1,164 @@
+/**
+ * Company Field Diff
+ *
+ * Reduces company data to a flat set of comparable fields and lists what
+ * changed between two such sets. Watchlists store only these fields as
+ * their baseline, so baselines stay small and remain comparable when
+ * CompanyData gains new fields; diff_company compares whole snapshots.
+ */
+
+import type {
+  CompanyAddress,
+  CompanyData,
+  CompanyDiff,
+  DiffSide,
+  FieldChange,
+} from "../types.js";
+
+/**
+ * Comparable fields: scalar values and unordered lists
+ */
+export type CompanyFields = Record<string, string | null | string[]>;
+
+/**
+ * List fields whose items read "key - details": an item whose key appears
+ * on both sides is reported as changed rather than removed and added
+ */
+const KEYED_FIELDS = new Set(["shareholders", "board", "supervisoryBoard", "proxies"]);
+
+/** Field labels, in the order changes are reported */
+export const FIELD_LABELS: Record<string, string> = {
+  name: "Nazwa",
+  legalForm: "Forma prawna",
+  status: "Status",
+  address: "Adres",
+  email: "E-mail",
+  website: "Strona WWW",
+  branches: "Oddziały",
+  capital: "Kapitał",
+  shareholders: "Wspólnicy",
+  representationMethod: "Sposób reprezentacji",
+  board: "Skład organu",
+  supervisoryBoard: "Organ nadzoru",
+  proxies: "Prokura",
+  mainActivity: "PKD przeważające",
+  otherActivities: "PKD pozostałe",
+  proceedings: "Postępowania",
+  debts: "Dział 4",
+  lastStatementYear: "Ostatnie sprawozdanie",
+};
+
+/**
+ * Extract the comparable fields of a company
+ */
+export function companyFields(data: CompanyData): CompanyFields {
+  const organs = data.representationOrgans ?? [data.representation];
+
+  return {
+    name: data.name,
+    legalForm: data.legalForm,
+    status: data.status?.code ?? null,
+    address: formatAddressLine(data.address),
+    email: data.contact?.email ?? null,
+    website: data.contact?.website ?? null,
+    branches: (data.branches ?? []).map((b) => `${b.name} (${b.address.city})`),
+    capital: data.capital?.display ?? null,
+    shareholders: data.shareholders.map((s) => `${s.name} - ${s.shares}`),
+    representationMethod: organs.map((o) => o.method).filter(Boolean).join(" | ") || null,
+    board: organs.flatMap((o) => o.members.map((m) => `${m.name} - ${m.function}`)),
+    supervisoryBoard: (data.supervisoryBoard?.members ?? []).map(
+      (m) => `${m.name} - ${m.function}`
+    ),
+    proxies: data.proxies.map((p) => `${p.name} - ${p.type}`),
+    mainActivity: data.mainActivity.map((a) => a.code),
+    otherActivities: data.otherActivities.map((a) => a.code),
+    proceedings: (data.status?.proceedings ?? []).map(
+      (p) =>
+        `${p.kind}${p.caseSignature ? ` (sygn. ${p.caseSignature})` : ""}${p.endDate ? ` - zakończone ${p.endDate}` : ""}`
+    ),
+    debts: (data.status?.debts ?? []).map((d) =>
+      [d.kind, d.description, d.amount].filter(Boolean).join(": ")
+    ),
+    lastStatementYear: data.filingStatus?.lastStatementYear?.toString() ?? null,
+  };
+}
+
+/**
+ * List fields that differ between two field sets
+ *
+ * Fields missing from either side (e.g. a baseline stored before the field
+ * existed) are skipped rather than reported as added.
+ */
+export function diffFields(before: CompanyFields, after: CompanyFields): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const [field, label] of Object.entries(FIELD_LABELS)) {
+    if (!(field in before) || !(field in after)) continue;
+    const a = before[field];
+    const b = after[field];
+
+    if (Array.isArray(a) || Array.isArray(b)) {
+      const oldItems = new Set(Array.isArray(a) ? a : []);
+      const newItems = new Set(Array.isArray(b) ? b : []);
+      let added = [...newItems].filter((item) => !oldItems.has(item));
+      let removed = [...oldItems].filter((item) => !newItems.has(item));
+      const changed: { before: string; after: string }[] = [];
+      if (KEYED_FIELDS.has(field)) {
+        for (const item of removed) {
+          const match = added.find((candidate) => itemKey(candidate) === itemKey(item));
+          if (match === undefined) continue;
+          changed.push({ before: item, after: match });
+          added = added.filter((candidate) => candidate !== match);
+        }
+        removed = removed.filter((item) => !changed.some((c) => c.before === item));
+      }
+      if (added.length > 0 || removed.length > 0 || changed.length > 0) {
+        changes.push({ field, label, kind: "list", added, removed, changed });
+      }
+    } else if (a !== b) {
+      changes.push({ field, label, kind: "value", before: a, after: b });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two states of the same company
+ */
+export function diffCompanies(
+  before: CompanyData,
+  after: CompanyData,
+  from: DiffSide,
+  to: DiffSide
+): CompanyDiff {
+  return { from, to, changes: diffFields(companyFields(before), companyFields(after)) };
+}
+
+/**
+ * Format field changes as indented text lines
+ */
+export function formatFieldChanges(changes: FieldChange[], indent = "   "): string[] {
+  const lines: string[] = [];
+  for (const change of changes) {
+    if (change.kind === "value") {
+      lines.push(`${indent}${change.label}: ${change.before ?? "—"} → ${change.after ?? "—"}`);
+      continue;
+    }
+    lines.push(`${indent}${change.label}:`);
+    for (const item of change.added) lines.push(`${indent}  + ${item}`);
+    for (const item of change.removed) lines.push(`${indent}  - ${item}`);
+    for (const item of change.changed) lines.push(`${indent}  ~ ${item.before} → ${item.after}`);
+  }
+  return lines;
+}
+
+function itemKey(item: string): string {
+  return item.split(" - ")[0];
+}
+
+function formatAddressLine(address: CompanyAddress): string {
+  const street = [address.street, address.building].filter(Boolean).join(" ");
+  const unit = address.unit ? `/${address.unit}` : "";
+  return `${street}${unit}, ${address.postalCode} ${address.city}`.trim();
+}
@@ -0,0 +1,32 @@
+/**
+ * Bounded Concurrency
+ *
+ * Runs async work over a list with a cap on how many calls are in flight,
+ * so fan-out lookups do not flood the KRS API.
+ */
+
+/**
+ * Map items with at most `limit` calls running at once
+ *
+ * Results keep the order of the input. A rejected call rejects the whole
+ * map, so callers that need per-item errors catch them inside `fn`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.min(items.length, Math.max(1, limit));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,96 @@
+/**
+ * Polish Business Identifier Validation
+ *
+ * Checksum validation for NIP (tax ID) and REGON (statistical number) so
+ * that typos are rejected before any lookup or network call, and birth date
+ * decoding from PESEL (personal number).
+ */
+
+export type IdentifierKind = "nip" | "regon";
+
+const NIP_WEIGHTS = [6, 5, 7, 2, 3, 4, 5, 6, 7];
+const REGON9_WEIGHTS = [8, 9, 2, 3, 4, 5, 6, 7];
+const REGON14_WEIGHTS = [2, 4, 8, 5, 0, 9, 7, 3, 6, 1, 2, 4, 8];
+
+/**
+ * Strip separators and the "PL" VAT prefix (e.g. "PL 123-456-32-18" -> "1234563218")
+ */
+export function normalizeIdentifier(value: string): string {
+  return value.replace(/^PL/i, "").replace(/[\s-]/g, "");
+}
+
+/**
+ * Validate a 10-digit NIP
+ */
+export function isValidNip(value: string): boolean {
+  if (!/^\d{10}$/.test(value)) return false;
+  const checksum = weightedSum(value, NIP_WEIGHTS) % 11;
+  return checksum !== 10 && checksum === Number(value[9]);
+}
+
+/**
+ * Validate a 9-digit or 14-digit (local unit) REGON
+ */
+export function isValidRegon(value: string): boolean {
+  if (/^\d{9}$/.test(value)) {
+    return checkDigit(value, REGON9_WEIGHTS) === Number(value[8]);
+  }
+  if (/^\d{14}$/.test(value)) {
+    return (
+      isValidRegon(value.slice(0, 9)) &&
+      checkDigit(value, REGON14_WEIGHTS) === Number(value[13])
+    );
+  }
+  return false;
+}
+
+/**
+ * Normalize and validate an identifier
+ *
+ * @returns Normalized identifier (digits only)
+ * @throws Error if the format or checksum is invalid
+ */
+export function validateIdentifier(kind: IdentifierKind, value: string): string {
+  const normalized = normalizeIdentifier(value);
+  const valid = kind === "nip" ? isValidNip(normalized) : isValidRegon(normalized);
+  if (!valid) {
+    throw new Error(
+      `Invalid ${kind.toUpperCase()} ${value}: wrong format or checksum`
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Birth date encoded in a PESEL
+ *
+ * The registry usually masks PESEL numbers in public extracts; a date is
+ * returned only when the first six digits are present and form a valid date.
+ *
+ * @returns ISO 8601 date, or null if the PESEL is missing, masked or invalid
+ */
+export function birthDateFromPesel(pesel: string | null | undefined): string | null {
+  const match = /^(\d{2})(\d{2})(\d{2})/.exec(pesel?.trim() ?? "");
+  if (!match) return null;
+  const [, yy, mm, dd] = match;
+
+  // Months are offset by 20 per century: 1900s +0, 2000s +20, ..., 1800s +80
+  const monthCode = Number(mm);
+  const offset = Math.floor(monthCode / 20) * 20;
+  const century = { 0: 1900, 20: 2000, 40: 2100, 60: 2200, 80: 1800 }[offset];
+  if (century === undefined) return null;
+
+  const month = String(monthCode - offset).padStart(2, "0");
+  const iso = `${century + Number(yy)}-${month}-${dd}`;
+  const date = new Date(`${iso}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === iso ? iso : null;
+}
+
+function weightedSum(value: string, weights: number[]): number {
+  return weights.reduce((sum, weight, i) => sum + weight * Number(value[i]), 0);
+}
+
+function checkDigit(value: string, weights: number[]): number {
+  const mod = weightedSum(value, weights) % 11;
+  return mod === 10 ? 0 : mod;
+}
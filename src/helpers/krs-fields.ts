@@ -0,0 +1,434 @@
+/**
+ * KRS Field Helpers
+ *
+ * Small formatting helpers shared by the current ("Aktualny") and full
+ * ("Pelny") extract transformers.
+ */
+
+import type {
+  CompanyAddress,
+  CompanySeat,
+  CompanyStatus,
+  CompanyStatusCode,
+  CompanyStreetAddress,
+  DebtEntry,
+  Filing,
+  FilingKind,
+  FilingStatus,
+  KrsDebtItem,
+  KrsFilingItem,
+  KrsFilingSections,
+  KrsLineageItem,
+  KrsPkdItem,
+  KrsProceedingItem,
+  KrsSeat,
+  KrsSection4,
+  KrsSection6,
+  KrsStreetAddress,
+  LineageEvent,
+  LineageLink,
+  Proceeding,
+  ShareholderRole,
+} from "../types.js";
+
+/**
+ * Version of the CompanyData structure, bumped on breaking changes
+ * (also part of the cache key so stale shapes are never served)
+ */
+export const COMPANY_DATA_SCHEMA_VERSION = 4;
+
+/**
+ * Sections of dzial1 listing shareholders or partners, with the role they
+ * imply (null: partner role depends on legal form and liability cap)
+ */
+export const SHAREHOLDER_SECTIONS = [
+  ["wspolnicySpzoo", "shareholder"],
+  ["wspolnicy", null],
+  ["komplementariusze", "general_partner"],
+  ["jedynyAkcjonariusz", "sole_shareholder"],
+] as const satisfies ReadonlyArray<readonly [string, ShareholderRole | null]>;
+
+/**
+ * Role of a partner listed in the generic "wspolnicy" section
+ *
+ * @param legalForm - Raw legal form of the company
+ * @param hasLiabilityCap - Partner has a suma komandytowa (limited partner)
+ */
+export function partnerRole(legalForm: string, hasLiabilityCap: boolean): ShareholderRole {
+  if (hasLiabilityCap) return "limited_partner";
+  return /KOMANDYTOW/i.test(legalForm) ? "general_partner" : "partner";
+}
+
+/**
+ * Build a dotted PKD code (e.g. "62.01.Z") from its registry parts
+ */
+export function buildPkdCode(item: KrsPkdItem): string {
+  return `${item.kodDzial}.${item.kodKlasa}.${item.kodPodklasa}`;
+}
+
+/**
+ * Join first name and surname into a display name
+ */
+export function buildPersonName(firstName: string, surname: string): string {
+  return `${firstName} ${surname}`;
+}
+
+/**
+ * Parse a registry entry number ("12" -> 12, unparseable -> 0)
+ */
+export function parseEntryNumber(value: string | number | undefined): number {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Convert a registry date ("dd.mm.yyyy") to ISO 8601 ("yyyy-mm-dd")
+ *
+ * Values already in ISO format are passed through.
+ *
+ * @returns ISO date or null if the value is not a recognisable date
+ */
+export function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const pl = /^(\d{1,2})\.(\d{1,2})\.(\d{4})/.exec(trimmed);
+  if (pl) return `${pl[3]}-${pl[2].padStart(2, "0")}-${pl[1].padStart(2, "0")}`;
+  return null;
+}
+
+/**
+ * Convert a registry timestamp ("dd.mm.yyyy hh:mm:ss") to ISO 8601
+ * ("yyyy-mm-ddThh:mm:ss", local time)
+ *
+ * Values already in ISO format are passed through.
+ *
+ * @returns ISO timestamp or null if the value is not a recognisable date
+ */
+export function toIsoDateTime(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) return trimmed;
+  const date = toIsoDate(trimmed);
+  if (!date) return null;
+  const time = /\s(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(trimmed);
+  if (!time) return date;
+  return `${date}T${time[1].padStart(2, "0")}:${time[2]}:${time[3] ?? "00"}`;
+}
+
+/**
+ * Fold text for diacritics-insensitive matching
+ * ("Łódź Spółka" -> "lodz spolka")
+ */
+export function foldText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ł/g, "l")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Sections of dzial6 with the kind of proceeding they record
+ */
+export const PROCEEDING_SECTIONS = [
+  ["likwidacja", "liquidation"],
+  ["rozwiazanieUniewaznienie", "dissolution"],
+  ["postepowanieUpadlosciowe", "bankruptcy"],
+  ["postepowanieRestrukturyzacyjne", "restructuring"],
+  ["zarzadPrzymusowy", "receivership"],
+] as const satisfies ReadonlyArray<readonly [keyof KrsSection6<unknown>, Proceeding["kind"]]>;
+
+/**
+ * Sections of dzial4 with the kind of debt entry they record
+ */
+export const DEBT_SECTIONS = [
+  ["zaleglosci", "arrears"],
+  ["wierzytelnosci", "unsatisfied_claim"],
+  ["oddalenieWnioskuOUpadlosc", "bankruptcy_petition_dismissed"],
+] as const satisfies ReadonlyArray<readonly [keyof KrsSection4<unknown>, DebtEntry["kind"]]>;
+
+/**
+ * Map a raw section 6 entry to a proceeding
+ */
+export function buildProceeding(item: KrsProceedingItem, kind: Proceeding["kind"]): Proceeding {
+  return {
+    kind,
+    startDate: toIsoDate(item.dataRozpoczecia),
+    startDateRaw: item.dataRozpoczecia || null,
+    endDate: toIsoDate(item.dataZakonczenia),
+    endDateRaw: item.dataZakonczenia || null,
+    court: item.oznaczenieSadu || null,
+    caseSignature: item.sygnaturaAkt || null,
+    description: item.opis || null,
+  };
+}
+
+/**
+ * Map a raw section 4 entry to a debt entry
+ */
+export function buildDebtEntry(item: KrsDebtItem, kind: DebtEntry["kind"]): DebtEntry {
+  return {
+    kind,
+    description: item.opis || null,
+    amount: item.kwota || null,
+    date: toIsoDate(item.data),
+    dateRaw: item.data || null,
+    authority: item.oznaczenieOrganu || null,
+  };
+}
+
+/**
+ * Status implied by each kind of ongoing proceeding, most severe first
+ * (receivership is reported together with restructuring)
+ */
+const STATUS_PRECEDENCE: ReadonlyArray<readonly [Proceeding["kind"], CompanyStatusCode]> = [
+  ["bankruptcy", "bankrupt"],
+  ["liquidation", "in_liquidation"],
+  ["dissolution", "in_liquidation"],
+  ["restructuring", "in_restructuring"],
+  ["receivership", "in_restructuring"],
+];
+
+/**
+ * Derive the overall legal status from sections 4 and 6
+ *
+ * A proceeding without an end date is treated as ongoing. Deregistration
+ * takes precedence over any proceeding.
+ *
+ * @param deregisteredOn - Registry date the entity was struck off, if any
+ */
+export function deriveStatus(
+  proceedings: Proceeding[],
+  debts: DebtEntry[],
+  deregisteredOn: string | null
+): CompanyStatus {
+  if (deregisteredOn) {
+    return {
+      code: "deregistered",
+      since: toIsoDate(deregisteredOn),
+      sinceRaw: deregisteredOn,
+      proceedings,
+      debts,
+    };
+  }
+
+  const ongoing = proceedings.filter((p) => !p.endDate);
+  for (const [kind, code] of STATUS_PRECEDENCE) {
+    const proceeding = ongoing.find((p) => p.kind === kind);
+    if (proceeding) {
+      return {
+        code,
+        since: proceeding.startDate,
+        sinceRaw: proceeding.startDateRaw,
+        proceedings,
+        debts,
+      };
+    }
+  }
+
+  return { code: "active", since: null, sinceRaw: null, proceedings, debts };
+}
+
+/**
+ * Sections of section 3 filing mentions with the document kind they record
+ */
+export const FILING_SECTIONS = [
+  ["wzmiankaOZlozeniuRocznegoSprawozdaniaFinansowego", "financial_statement"],
+  ["wzmiankaOZlozeniuOpiniiBieglegoRewidentaSprawozdaniaZBadania", "audit_report"],
+  [
+    "wzmiankaOZlozeniuUchwalyPostanowieniaOZatwierdzeniuRocznegoSprawozdaniaFinansowego",
+    "approval_resolution",
+  ],
+  ["wzmiankaOZlozeniuSprawozdaniaZDzialalnosci", "management_report"],
+] as const satisfies ReadonlyArray<readonly [keyof KrsFilingSections<unknown>, FilingKind]>;
+
+/**
+ * Map a raw filing mention to a filing ("01.01.2023 - 31.12.2023" period)
+ */
+export function buildFiling(item: KrsFilingItem, kind: FilingKind): Filing {
+  const [periodFrom, periodTo] = (item.zaOkresOdDo ?? "")
+    .split(/\s+-\s+/)
+    .map((part) => part.trim() || null);
+  const periodEnd = toIsoDate(periodTo);
+  return {
+    kind,
+    periodFrom: toIsoDate(periodFrom),
+    periodFromRaw: periodFrom ?? null,
+    periodTo: periodEnd,
+    periodToRaw: periodTo ?? null,
+    year: periodEnd ? Number(periodEnd.slice(0, 4)) : null,
+    filedOn: toIsoDate(item.dataZlozenia),
+    filedOnRaw: item.dataZlozenia || null,
+  };
+}
+
+/**
+ * Filing deadline for a calendar financial year, as month-day of the
+ * following year: approval within 6 months, filing within 15 days after
+ */
+const FILING_DEADLINE = "07-15";
+
+/**
+ * Derive financial statement filing flags
+ *
+ * @param filings - Filed documents
+ * @param registrationDate - Registration date of the entity (no filing is
+ *                           expected for years that ended before it)
+ * @param referenceDate - ISO date the flags are computed for (usually today)
+ * @param filingRequired - Legal form must file with KRS (see LEGAL_FORMS);
+ *                         otherwise no statement is reported as missing
+ */
+export function summarizeFilings(
+  filings: Filing[],
+  registrationDate: string,
+  referenceDate: string,
+  filingRequired: boolean
+): FilingStatus {
+  const statements = filings
+    .filter((f) => f.kind === "financial_statement" && f.year !== null)
+    .sort((a, b) => (a.year as number) - (b.year as number));
+  const last = statements[statements.length - 1];
+
+  const referenceYear = Number(referenceDate.slice(0, 4));
+  const expectedYear =
+    referenceDate.slice(5, 10) >= FILING_DEADLINE ? referenceYear - 1 : referenceYear - 2;
+  const registeredOn = toIsoDate(registrationDate);
+  const existedInExpectedYear = !registeredOn || registeredOn <= `${expectedYear}-12-31`;
+
+  return {
+    lastStatementYear: last?.year ?? null,
+    lastStatementFiledOn: last?.filedOn ?? null,
+    expectedYear,
+    missingPreviousYear: filingRequired
+      ? existedInExpectedYear && (last?.year ?? 0) < expectedYear
+      : null,
+  };
+}
+
+/**
+ * Seat part of an address
+ */
+export function buildSeat(seat: Partial<KrsSeat> | undefined): CompanySeat {
+  return {
+    city: seat?.miejscowosc || "",
+    voivodeship: seat?.wojewodztwo || "",
+    county: seat?.powiat || null,
+    municipality: seat?.gmina || null,
+    country: seat?.kraj || "POLSKA",
+  };
+}
+
+/**
+ * Street part of an address
+ */
+export function buildStreetAddress(
+  address: Partial<KrsStreetAddress> | undefined
+): CompanyStreetAddress {
+  return {
+    street: address?.ulica || "",
+    building: address?.nrDomu || "",
+    unit: address?.nrLokalu || null,
+    postalCode: address?.kodPocztowy || "",
+    postOffice: address?.poczta || null,
+  };
+}
+
+/**
+ * Full address from its seat and street parts
+ */
+export function buildAddress(
+  seat: Partial<KrsSeat> | undefined,
+  address: Partial<KrsStreetAddress> | undefined
+): CompanyAddress {
+  return { ...buildSeat(seat), ...buildStreetAddress(address) };
+}
+
+/**
+ * Classify a merger / division / conversion description
+ */
+export function lineageEvent(text: string): LineageEvent {
+  const folded = foldText(text);
+  if (folded.includes("polacz")) return "merger";
+  if (folded.includes("podzial")) return "division";
+  if (folded.includes("przekszta")) return "transformation";
+  return "other";
+}
+
+/**
+ * Direction of the entities named in a dzial6 event, from the kind of event
+ *
+ * - division (including wydzielenie, where this entity continues) and
+ *   conversion: the named entities took over assets or the business, so
+ *   they are successors - unless the named entity is the one being divided
+ *   ("dzielona"), i.e. this entity is a recipient
+ * - merger by forming a new company: the named company is the new one
+ * - merger by acquisition: the named entity is described as acquiring
+ *   ("przejmująca") or acquired ("przejmowana")
+ *
+ * @param fallback - Direction when the wording names no role (mergers only)
+ */
+export function lineageDirection(
+  text: string,
+  fallback: LineageLink["direction"]
+): LineageLink["direction"] {
+  const folded = foldText(text);
+  const acquiring = folded.includes("przejmujac");
+  const acquired = folded.includes("przejmowan");
+
+  if (lineageEvent(text) === "division" || folded.includes("wydziel")) {
+    return /\bdzielon/.test(folded) && !acquiring ? "predecessor" : "successor";
+  }
+  if (lineageEvent(text) === "transformation") return "successor";
+  if (/zawiazani\w* nowej/.test(folded)) return "successor";
+  if (acquiring && !acquired) return "successor";
+  if (acquired && !acquiring) return "predecessor";
+  return fallback;
+}
+
+/**
+ * Build lineage links from the origin record (dzial1) and the merger,
+ * division and conversion events (dzial6)
+ *
+ * Entities named in the origin record are predecessors. For entities named
+ * in dzial6 the kind of event decides (see lineageDirection); if the
+ * wording is inconclusive they are successors when the entity itself has
+ * been struck off, otherwise predecessors (entities it absorbed).
+ *
+ * @param deregistered - The entity has been struck off the register
+ */
+export function buildLineage(
+  origin: KrsLineageItem | undefined,
+  events: KrsLineageItem[],
+  deregistered: boolean
+): LineageLink[] {
+  const describe = (item: KrsLineageItem) =>
+    item.okolicznosciPowstania || item.okreslenieOkolicznosci || item.opis || null;
+  const text = (item: KrsLineageItem) =>
+    [describe(item), item.opis].filter(Boolean).join(" ");
+
+  const links = (
+    item: KrsLineageItem,
+    direction: LineageLink["direction"]
+  ): LineageLink[] => {
+    const description = describe(item);
+    const event = lineageEvent(text(item));
+    return (item.podmioty || []).map((p) => ({
+      direction,
+      event,
+      krs: p.numerKRS || null,
+      name: p.nazwa || null,
+      date: toIsoDate(item.data),
+      dateRaw: item.data || null,
+      description,
+    }));
+  };
+
+  return [
+    ...(origin ? links(origin, "predecessor") : []),
+    ...events.flatMap((e) =>
+      links(e, lineageDirection(text(e), deregistered ? "successor" : "predecessor"))
+    ),
+  ];
+}
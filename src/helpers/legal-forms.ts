@@ -0,0 +1,169 @@
+/**
+ * Legal Form Classification
+ *
+ * Maps the raw legal form written in the registry ("SPÓŁKA Z OGRANICZONĄ
+ * ODPOWIEDZIALNOŚCIĄ") to a typed code with the metadata that decides how
+ * a company is presented: share capital, statutory minimum capital,
+ * personal liability of partners and the duty to file financial statements.
+ */
+
+import type { CompanyCapital, LegalFormCode, LegalFormInfo } from "../types.js";
+import { foldText } from "./krs-fields.js";
+
+/**
+ * Metadata of each legal form (minimum capital per the Commercial
+ * Companies Code and the SE regulation; filing duty per the Accounting Act:
+ * general and professional partnerships file only above the bookkeeping
+ * threshold, associations and foundations without business activity file
+ * with the tax office, foreign branches file the parent's statements)
+ */
+export const LEGAL_FORMS = {
+  limited_liability_company: {
+    abbreviation: "sp. z o.o.",
+    hasShareCapital: true,
+    minimumCapital: { amount: 5_000, currency: "PLN" },
+    personalLiability: false,
+    filesFinancialStatements: true,
+  },
+  joint_stock_company: {
+    abbreviation: "S.A.",
+    hasShareCapital: true,
+    minimumCapital: { amount: 100_000, currency: "PLN" },
+    personalLiability: false,
+    filesFinancialStatements: true,
+  },
+  simple_joint_stock_company: {
+    abbreviation: "P.S.A.",
+    hasShareCapital: true,
+    minimumCapital: { amount: 1, currency: "PLN" },
+    personalLiability: false,
+    filesFinancialStatements: true,
+  },
+  european_company: {
+    abbreviation: "SE",
+    hasShareCapital: true,
+    minimumCapital: { amount: 120_000, currency: "EUR" },
+    personalLiability: false,
+    filesFinancialStatements: true,
+  },
+  limited_joint_stock_partnership: {
+    abbreviation: "S.K.A.",
+    hasShareCapital: true,
+    minimumCapital: { amount: 50_000, currency: "PLN" },
+    personalLiability: true,
+    filesFinancialStatements: true,
+  },
+  general_partnership: {
+    abbreviation: "sp.j.",
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: true,
+    filesFinancialStatements: false,
+  },
+  professional_partnership: {
+    abbreviation: "sp.p.",
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: true,
+    filesFinancialStatements: false,
+  },
+  limited_partnership: {
+    abbreviation: "sp.k.",
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: true,
+    filesFinancialStatements: true,
+  },
+  cooperative: {
+    abbreviation: "spółdz.",
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: false,
+    filesFinancialStatements: true,
+  },
+  mutual_insurance_society: {
+    abbreviation: "TUW",
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: false,
+    filesFinancialStatements: true,
+  },
+  state_enterprise: {
+    abbreviation: "P.P.",
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: false,
+    filesFinancialStatements: true,
+  },
+  foreign_branch: {
+    abbreviation: null,
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: false,
+    filesFinancialStatements: false,
+  },
+  association: {
+    abbreviation: null,
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: false,
+    filesFinancialStatements: false,
+  },
+  foundation: {
+    abbreviation: null,
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: false,
+    filesFinancialStatements: false,
+  },
+  other: {
+    abbreviation: null,
+    hasShareCapital: false,
+    minimumCapital: null,
+    personalLiability: false,
+    filesFinancialStatements: false,
+  },
+} as const satisfies Record<LegalFormCode, Omit<LegalFormInfo, "code">>;
+
+/**
+ * Folded name patterns, most specific first ("prosta spolka akcyjna" and
+ * "spolka komandytowo-akcyjna" before "spolka akcyjna")
+ */
+const LEGAL_FORM_PATTERNS: ReadonlyArray<readonly [RegExp, LegalFormCode]> = [
+  [/z ograniczona odpowiedzialnoscia/, "limited_liability_company"],
+  [/prosta spolka akcyjna/, "simple_joint_stock_company"],
+  [/komandytowo-? ?akcyjna/, "limited_joint_stock_partnership"],
+  [/spolka europejska/, "european_company"],
+  [/spolka akcyjna/, "joint_stock_company"],
+  [/spolka jawna/, "general_partnership"],
+  [/spolka partnerska/, "professional_partnership"],
+  [/spolka komandytowa/, "limited_partnership"],
+  [/spoldzielni/, "cooperative"],
+  [/towarzystwo ubezpieczen wzajemnych/, "mutual_insurance_society"],
+  [/przedsiebiorstwo panstwowe/, "state_enterprise"],
+  [/oddzial zagranicznego/, "foreign_branch"],
+  [/stowarzyszeni/, "association"],
+  [/fundacj/, "foundation"],
+];
+
+/**
+ * Classify a raw legal form
+ */
+export function classifyLegalForm(legalForm: string): LegalFormInfo {
+  const folded = foldText(legalForm);
+  const code =
+    LEGAL_FORM_PATTERNS.find(([pattern]) => pattern.test(folded))?.[1] ?? "other";
+  return { code, ...LEGAL_FORMS[code] };
+}
+
+/**
+ * Registered capital is below the statutory minimum of the legal form
+ * (false when either amount is unknown or the currencies differ)
+ */
+export function isBelowMinimumCapital(capital: CompanyCapital, form: LegalFormInfo): boolean {
+  const minimum = form.minimumCapital;
+  if (!minimum || capital.minorUnits === null || capital.currency !== minimum.currency) {
+    return false;
+  }
+  return capital.minorUnits < minimum.amount * 100;
+}
@@ -0,0 +1,227 @@
+/**
+ * PKD Dictionary
+ *
+ * Offline dictionary of the Polish classification of activities in both
+ * editions, used to enrich registry activities and to explain codes.
+ *
+ * - PKD 2025 follows NACE Rev. 2.1 down to class level; sections,
+ *   divisions, groups and classes are bundled with Polish and English names.
+ * - PKD 2007 (NACE Rev. 2) is bundled at section and division level only,
+ *   plus the subclasses listed in the correspondence table; other groups,
+ *   classes and subclasses are unknown.
+ * - The correspondence table covers a selection of frequently registered
+ *   PKD 2007 subclasses (about 60 of some 650), each linked to its PKD 2025
+ *   classes. Codes outside it get no equivalent; equivalents are never
+ *   guessed from matching numbers, because several codes (e.g. 63.91,
+ *   61.20) changed meaning between the editions.
+ *
+ * `npm run build:pkd-data` (scripts/build-pkd-data.mjs) regenerates the
+ * JSON files in src/data from the GUS CSV exports, which completes both
+ * PKD 2007 tables; the files bundled now are not yet generated that way.
+ */
+
+import type { Activity, PkdEquivalent, PkdVersion } from "../types.js";
+import { foldText } from "./krs-fields.js";
+import PKD_2007_ROWS from "../data/pkd-2007.json";
+import PKD_2025_ROWS from "../data/pkd-2025.json";
+import CORRESPONDENCE_ROWS from "../data/pkd-2007-2025.json";
+
+export type PkdLevel = "section" | "division" | "group" | "class" | "subclass";
+
+/**
+ * Dictionary entry
+ */
+export interface PkdEntry {
+  version: PkdVersion;
+  code: string;
+  level: PkdLevel;
+  name: string;
+  nameEn: string | null;
+  /** Section letter the entry belongs to */
+  section: string | null;
+}
+
+/**
+ * Code explained against one edition
+ */
+export interface PkdExplanation {
+  version: PkdVersion;
+  code: string;
+  level: PkdLevel;
+  /** Known entries from the section down to the code itself */
+  hierarchy: PkdEntry[];
+  /** The code itself is in the dictionary (otherwise only its parents are) */
+  known: boolean;
+  equivalents: PkdEquivalent[];
+}
+
+/** [code, Polish name, English name] */
+type DictionaryRow = [string, string, string];
+
+/** [PKD 2007 subclass, its Polish name, PKD 2025 class] */
+type CorrespondenceRow = [string, string, string];
+
+const LEVELS: PkdLevel[] = ["section", "division", "group", "class", "subclass"];
+
+const DICTIONARIES: Record<PkdVersion, Map<string, PkdEntry>> = {
+  "2007": buildDictionary(PKD_2007_ROWS as DictionaryRow[], "2007"),
+  "2025": buildDictionary(PKD_2025_ROWS as DictionaryRow[], "2025"),
+};
+
+/** PKD 2007 subclass -> PKD 2025 classes */
+const FORWARD = new Map<string, string[]>();
+/** PKD 2025 class -> PKD 2007 subclasses */
+const BACKWARD = new Map<string, string[]>();
+
+for (const [from, name, to] of CORRESPONDENCE_ROWS as CorrespondenceRow[]) {
+  FORWARD.set(from, [...(FORWARD.get(from) ?? []), to]);
+  BACKWARD.set(to, [...(BACKWARD.get(to) ?? []), from]);
+  DICTIONARIES["2007"].set(from, {
+    version: "2007",
+    code: from,
+    level: "subclass",
+    name,
+    nameEn: null,
+    section: DICTIONARIES["2007"].get(from.slice(0, 2))?.section ?? null,
+  });
+}
+
+/**
+ * Normalize a PKD code ("6201Z", "62.01.z", "j") to its dotted form
+ *
+ * @returns Dotted code ("62.01.Z", "J") or null if it is not a PKD code
+ */
+export function normalizePkdCode(value: string): string | null {
+  const compact = value.trim().toUpperCase().replace(/[\s.]/g, "");
+  if (/^[A-V]$/.test(compact)) return compact;
+  const match = /^(\d{2})(\d)?(\d)?([A-Z])?$/.exec(compact);
+  if (!match) return null;
+  const [, division, group, cls, subclass] = match;
+  if (subclass && !cls) return null;
+  if (!group) return division;
+  if (!cls) return `${division}.${group}`;
+  return subclass ? `${division}.${group}${cls}.${subclass}` : `${division}.${group}${cls}`;
+}
+
+/**
+ * Level of a normalized code
+ */
+export function pkdLevel(code: string): PkdLevel {
+  if (/^[A-Z]$/.test(code)) return "section";
+  return LEVELS[Math.min(code.split(".").join("").length - 1, 4)];
+}
+
+/**
+ * Explain a code against one edition
+ *
+ * @returns Explanation, or null if not even the division is known
+ */
+export function explainPkd(code: string, version: PkdVersion): PkdExplanation | null {
+  const dictionary = DICTIONARIES[version];
+  const hierarchy = ancestors(code, version)
+    .map((c) => dictionary.get(c))
+    .filter((e): e is PkdEntry => e !== undefined);
+  if (hierarchy.length === 0) return null;
+
+  return {
+    version,
+    code,
+    level: pkdLevel(code),
+    hierarchy,
+    known: hierarchy[hierarchy.length - 1].code === code,
+    equivalents: pkdEquivalents(code, version),
+  };
+}
+
+/**
+ * Find entries whose Polish or English name contains every word of the query
+ *
+ * Classes and subclasses are listed first.
+ */
+export function searchPkd(query: string, version?: PkdVersion, limit = 20): PkdEntry[] {
+  const words = foldText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const versions: PkdVersion[] = version ? [version] : ["2025", "2007"];
+  const matches = versions.flatMap((v) =>
+    [...DICTIONARIES[v].values()].filter((entry) => {
+      const text = foldText(`${entry.name} ${entry.nameEn ?? ""}`);
+      return words.every((word) => text.includes(word));
+    })
+  );
+
+  return matches
+    .sort((a, b) => LEVELS.indexOf(b.level) - LEVELS.indexOf(a.level))
+    .slice(0, limit);
+}
+
+/**
+ * Codes corresponding to a code in the other edition
+ *
+ * Classes and groups of PKD 2007 collect the equivalents of their subclasses.
+ */
+export function pkdEquivalents(code: string, version: PkdVersion): PkdEquivalent[] {
+  if (version === "2007") {
+    const targets = new Set(
+      [...FORWARD.entries()]
+        .filter(([from]) => from.startsWith(code))
+        .flatMap(([, to]) => to)
+    );
+    return [...targets].map((to) => equivalent(to, "2025"));
+  }
+
+  const cls = code.slice(0, 5);
+  if (pkdLevel(cls) !== "class") return [];
+  return (BACKWARD.get(cls) ?? []).map((from) => equivalent(from, "2007"));
+}
+
+/**
+ * Build an activity with its edition, section and equivalents
+ *
+ * The registry does not say which edition a code belongs to. Codes are read
+ * as PKD 2007, the edition of almost all entries, unless they are missing
+ * from the correspondence table and their description is the name of the
+ * PKD 2025 class.
+ */
+export function buildActivity(code: string, description: string): Activity {
+  const cls = DICTIONARIES["2025"].get(code.slice(0, 5));
+  const version: PkdVersion =
+    !FORWARD.has(code) && cls && foldText(cls.name) === foldText(description) ? "2025" : "2007";
+
+  return {
+    code,
+    description,
+    version,
+    section: DICTIONARIES[version].get(code.slice(0, 2))?.section ?? null,
+    equivalents: pkdEquivalents(code, version),
+  };
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function buildDictionary(rows: DictionaryRow[], version: PkdVersion): Map<string, PkdEntry> {
+  const entries = new Map<string, PkdEntry>();
+  let section: string | null = null;
+  // Rows are ordered: each section is followed by its divisions, groups and classes
+  for (const [code, name, nameEn] of rows) {
+    if (/^[A-Z]$/.test(code)) section = code;
+    entries.set(code, { version, code, level: pkdLevel(code), name, nameEn, section });
+  }
+  return entries;
+}
+
+/**
+ * The code and its parents, section first ("62.01.Z" -> J, 62, 62.0, 62.01, 62.01.Z)
+ */
+function ancestors(code: string, version: PkdVersion): string[] {
+  if (pkdLevel(code) === "section") return [code];
+  const section = DICTIONARIES[version].get(code.slice(0, 2))?.section;
+  const parents = [code.slice(0, 2), code.slice(0, 4), code.slice(0, 5), code];
+  return [...new Set([...(section ? [section] : []), ...parents.filter((p) => p.length <= code.length)])];
+}
+
+function equivalent(code: string, version: PkdVersion): PkdEquivalent {
+  return { version, code, name: DICTIONARIES[version].get(code)?.name ?? "" };
+}
@@ -0,0 +1,184 @@
+/**
+ * Shareholding Parser
+ *
+ * Parses the free-text shares description of the registry
+ * ("100 UDZIAŁÓW O ŁĄCZNEJ WARTOŚCI 5.000,00 ZŁ") into a share count and
+ * nominal value, parses the share capital amount and computes ownership
+ * percentages against it. Amounts are handled in minor units (grosze) to
+ * avoid rounding errors.
+ */
+
+import type { CompanyCapital, KrsCapital, ShareHolding, Shareholder } from "../types.js";
+
+/** Amount followed by a currency, e.g. "5.000,00 ZŁ", "2 500 PLN", "50 EUR" */
+const AMOUNT = String.raw`(\d{1,3}(?:[ .\u00a0]\d{3})+|\d+)(?:,(\d{1,2}))?\s*(ZŁOTYCH|ZŁ|ZL|PLN|EUR|USD|GBP|CHF)(?!\p{L})`;
+
+const TOTAL_VALUE = new RegExp(String.raw`ŁĄCZN\S*\s+WARTO\S*\s+` + AMOUNT, "iu");
+const PER_SHARE_VALUE = new RegExp(String.raw`\bPO\s+` + AMOUNT, "iu");
+const ANY_VALUE = new RegExp(AMOUNT, "iu");
+const SHARE_COUNT = /^\s*(\d{1,3}(?:[ .\u00a0]\d{3})+|\d+)\s+(?:UDZIA|AKCJ|OG[ÓO]LN)/iu;
+
+/** Pledge, seizure, usufruct and similar encumbrances */
+const ENCUMBRANCE = /ZASTAW|ZAJ[ĘE]CI|U[ŻZ]YTKOWANI|OBCI[ĄA][ŻZ]/iu;
+
+/**
+ * Parse a shares description
+ *
+ * @returns Parsed holding, or null if neither a count nor a value was found
+ */
+export function parseShares(text: string): ShareHolding | null {
+  const countMatch = SHARE_COUNT.exec(text);
+  const count = countMatch ? Number(countMatch[1].replace(/\D/g, "")) : null;
+
+  let value: { minor: bigint; currency: string } | null = null;
+  const total = TOTAL_VALUE.exec(text);
+  const perShare = PER_SHARE_VALUE.exec(text);
+  if (total) {
+    value = toMinorUnits(total);
+  } else if (perShare && count !== null) {
+    const each = toMinorUnits(perShare);
+    value = { minor: each.minor * BigInt(count), currency: each.currency };
+  } else {
+    const any = ANY_VALUE.exec(text);
+    if (any) value = toMinorUnits(any);
+  }
+
+  if (count === null && value === null) return null;
+  return {
+    count,
+    nominalValue: value ? formatMinorUnits(value.minor) : null,
+    currency: value?.currency ?? null,
+  };
+}
+
+/**
+ * Detect pledged, seized or otherwise encumbered shares
+ */
+export function isEncumbered(text: string): boolean {
+  return ENCUMBRANCE.test(text);
+}
+
+/**
+ * Parse the registry capital amount ("1.234.567,00") into an exact decimal
+ *
+ * Unparseable amounts keep the raw value and have null minor units.
+ */
+export function buildCapital(capital: KrsCapital): CompanyCapital {
+  const minor = parseAmount(capital.wartosc);
+  return {
+    value: minor !== null ? formatMinorUnits(minor) : capital.wartosc,
+    minorUnits: minor !== null ? Number(minor) : null,
+    currency: capital.waluta,
+    display:
+      minor !== null
+        ? `${groupThousands(minor / 100n)},${formatMinorUnits(minor).slice(-2)} ${capital.waluta}`
+        : `${capital.wartosc} ${capital.waluta}`,
+    raw: capital.wartosc,
+  };
+}
+
+/**
+ * Parsed fields of a shareholder (percentage is computed later against
+ * the capital, see withOwnership)
+ */
+export function shareFields(
+  shares: string
+): Pick<Shareholder, "holding" | "percentage" | "encumbered"> {
+  return {
+    holding: parseShares(shares),
+    percentage: null,
+    encumbered: isEncumbered(shares),
+  };
+}
+
+/**
+ * Compute ownership percentages
+ *
+ * Uses nominal value against the share capital when both are known and in
+ * the same currency; otherwise share counts against the total of all
+ * holders when every holder has a count. A sole shareholder holds 100%.
+ * Percentages are rounded to two decimal places.
+ */
+export function withOwnership(
+  shareholders: Shareholder[],
+  capital: CompanyCapital | null
+): Shareholder[] {
+  const capitalMinor = capital?.minorUnits != null ? BigInt(capital.minorUnits) : null;
+  const capitalCurrency = capital ? normalizeCurrency(capital.currency) : null;
+
+  const counts = shareholders.map((s) => s.holding?.count ?? null);
+  const totalCount = counts.every((c) => c !== null)
+    ? counts.reduce<number>((sum, c) => sum + (c as number), 0)
+    : 0;
+
+  return shareholders.map((holder) => {
+    let percentage: number | null = null;
+    const nominal = holder.holding?.nominalValue
+      ? parseAmount(holder.holding.nominalValue)
+      : null;
+
+    if (
+      nominal !== null &&
+      capitalMinor !== null &&
+      capitalMinor > 0n &&
+      holder.holding?.currency === capitalCurrency
+    ) {
+      percentage = toPercent(nominal, capitalMinor);
+    } else if (totalCount > 0 && holder.holding?.count != null) {
+      percentage = toPercent(BigInt(holder.holding.count), BigInt(totalCount));
+    } else if (holder.soleShareholder) {
+      percentage = 100;
+    }
+
+    return { ...holder, percentage };
+  });
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function toMinorUnits(match: RegExpExecArray): { minor: bigint; currency: string } {
+  const whole = BigInt(match[1].replace(/\D/g, ""));
+  const fraction = BigInt((match[2] ?? "0").padEnd(2, "0"));
+  return { minor: whole * 100n + fraction, currency: normalizeCurrency(match[3]) };
+}
+
+function formatMinorUnits(minor: bigint): string {
+  const digits = minor.toString().padStart(3, "0");
+  return `${digits.slice(0, -2)}.${digits.slice(-2)}`;
+}
+
+/**
+ * Parse an amount into minor units
+ *
+ * A comma is the decimal separator and dots or spaces group thousands
+ * ("1.234.567,00", "2 500,5"); a dot followed by one or two digits is a
+ * decimal point ("5000.00").
+ */
+function parseAmount(value: string): bigint | null {
+  const compact = value.replace(/[\s\u00a0]/g, "");
+  const polish = /^(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d{1,2}))?$/.exec(compact);
+  const match = polish ?? /^(\d+)\.(\d{1,2})$/.exec(compact);
+  if (!match) return null;
+  return BigInt(match[1].replace(/\./g, "")) * 100n + BigInt((match[2] ?? "0").padEnd(2, "0"));
+}
+
+/**
+ * Group the digits of a whole amount by thousands ("1234567" -> "1 234 567")
+ */
+function groupThousands(whole: bigint): string {
+  return whole.toString().replace(/\B(?=(\d{3})+$)/g, " ");
+}
+
+function normalizeCurrency(currency: string): string {
+  return /^Z[ŁL]/iu.test(currency) ? "PLN" : currency.toUpperCase();
+}
+
+/**
+ * part / whole in percent, rounded half up to two decimal places
+ */
+function toPercent(part: bigint, whole: bigint): number {
+  const hundredths = (part * 10_000n + whole / 2n) / whole;
+  return Number(hundredths) / 100;
+}
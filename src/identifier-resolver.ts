@@ -0,0 +1,109 @@
+/**
+ * NIP / REGON to KRS Resolver
+ *
+ * Resolves tax (NIP) and statistical (REGON) identifiers to a KRS number.
+ * Identifiers are checksum-validated first, then looked up in order:
+ * 1. Local D1 index of already fetched entities (CompanyIndex)
+ * 2. Pluggable fallback sources (default: Ministry of Finance VAT white list)
+ */
+
+import {
+  validateIdentifier,
+  type IdentifierKind,
+} from "./helpers/identifiers.js";
+
+/**
+ * A source that can map a NIP or REGON to a KRS number
+ */
+export interface KrsLookupSource {
+  /** Short source name reported back to the caller */
+  readonly name: string;
+
+  /**
+   * @param kind - Identifier type
+   * @param value - Normalized, checksum-valid identifier
+   * @returns 10-digit KRS number or null if unknown to this source
+   */
+  findKrs(kind: IdentifierKind, value: string): Promise<string | null>;
+}
+
+/**
+ * Result of a successful resolution
+ */
+export interface ResolvedIdentifier {
+  krs: string;
+  /** Name of the source that answered */
+  source: string;
+}
+
+const WHITE_LIST_API_BASE = "https://wl-api.mf.gov.pl/api/search";
+
+/**
+ * Ministry of Finance VAT taxpayer white list ("Biała lista")
+ *
+ * Public API that returns the KRS number for registered VAT taxpayers.
+ * Entities not registered for VAT are not covered.
+ */
+export class WhiteListLookupSource implements KrsLookupSource {
+  readonly name = "white_list";
+
+  async findKrs(kind: IdentifierKind, value: string): Promise<string | null> {
+    const date = new Date().toISOString().slice(0, 10);
+    const url = `${WHITE_LIST_API_BASE}/${kind}/${value}?date=${date}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          Accept: "application/json",
+          "User-Agent": "KRS-Viewer-MCP/1.0",
+        },
+        signal: AbortSignal.timeout(10000),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new Error("VAT white list API timeout - please try again");
+      }
+      throw new Error("VAT white list API unavailable - please try again later");
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`VAT white list API error: ${response.status}`);
+    }
+
+    const body = (await response.json()) as {
+      result?: { subject?: { krs?: string | null } | null };
+    };
+    return body.result?.subject?.krs || null;
+  }
+}
+
+export class IdentifierResolver {
+  /**
+   * @param sources - Lookup sources, queried in order until one answers
+   */
+  constructor(private sources: KrsLookupSource[]) {}
+
+  /**
+   * Resolve a NIP or REGON to a KRS number
+   *
+   * @throws Error if the identifier is invalid or no source knows it
+   */
+  async resolve(kind: IdentifierKind, value: string): Promise<ResolvedIdentifier> {
+    const normalized = validateIdentifier(kind, value);
+
+    for (const source of this.sources) {
+      const krs = await source.findKrs(kind, normalized);
+      if (krs) {
+        return { krs, source: source.name };
+      }
+    }
+
+    throw new Error(
+      `No KRS entity found for ${kind.toUpperCase()} ${normalized}`
+    );
+  }
+}
@@ -2,6 +2,7 @@ import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { KrsViewer } from "./server.js";
 import { AuthkitHandler } from "./auth/authkit-handler.js";
 import { handleApiKeyRequest } from "./api-key-handler.js";
+import { checkWatchlists } from "./watchlist.js";
 import type { Env } from "./types.js";
 import { logger } from "./shared/logger.js";
 
@@ -79,8 +80,46 @@ export default {
             );
         }
     },
+
+    /**
+     * Daily cron trigger (see "triggers" in wrangler.jsonc)
+     *
+     * Checks watched companies for new registry entries and records changes.
+     */
+    async scheduled(
+        controller: ScheduledController,
+        env: Env,
+        ctx: ExecutionContext
+    ): Promise<void> {
+        ctx.waitUntil(runWatchlistCheck(env));
+    },
 };
 
+/**
+ * Run the watchlist check, logging its outcome
+ */
+async function runWatchlistCheck(env: Env): Promise<void> {
+    const startTime = Date.now();
+    try {
+        const summary = await checkWatchlists(env);
+        logger.info({
+            event: 'scheduled_run',
+            job: 'watchlist_check',
+            duration_ms: Date.now() - startTime,
+            success: true,
+            details: { ...summary },
+        });
+    } catch (error) {
+        logger.error({
+            event: 'scheduled_run',
+            job: 'watchlist_check',
+            duration_ms: Date.now() - startTime,
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+        });
+    }
+}
+
 /**
  * Detect if request should use API key authentication
  */
@@ -8,29 +8,189 @@
  * - Caching in CACHE_KV (1 hour TTL)
  * - Error handling for 404 and network failures
  * - Response transformation from API format to widget-friendly format
+ * - Change history for full ("pelny") extracts
+ * - Every fetched entity recorded in the D1 company and person indexes
+ * - Daily change feed (Biuletyn) with per-day caching
  */
 
-import type { Env, KrsApiResponse, CompanyData } from "./types.js";
+import type {
+  Env,
+  ChangeFeed,
+  KrsApiResponse,
+  KrsFullApiResponse,
+  CompanyData,
+  CompanyHistory,
+  CompanyStatus,
+  CompanyStatusCode,
+  DebtEntry,
+  FilingKind,
+  HistoryEntry,
+  KrsPerson,
+  KrsRegistry,
+  KrsRegistryOption,
+  LineageEvent,
+  Proceeding,
+  Shareholder,
+  ShareholderRole,
+} from "./types.js";
+import { transformFullResponse, companyAsOf } from "./krs-history.js";
+import {
+  buildAddress,
+  buildDebtEntry,
+  buildFiling,
+  buildLineage,
+  buildPkdCode,
+  buildPersonName,
+  buildProceeding,
+  deriveStatus,
+  parseEntryNumber,
+  partnerRole,
+  summarizeFilings,
+  toIsoDate,
+  toIsoDateTime,
+  COMPANY_DATA_SCHEMA_VERSION,
+  DEBT_SECTIONS,
+  FILING_SECTIONS,
+  PROCEEDING_SECTIONS,
+  SHAREHOLDER_SECTIONS,
+} from "./helpers/krs-fields.js";
+import { buildCapital, shareFields, withOwnership } from "./helpers/shares.js";
+import { classifyLegalForm, isBelowMinimumCapital } from "./helpers/legal-forms.js";
+import { buildActivity } from "./helpers/pkd.js";
+import { birthDateFromPesel } from "./helpers/identifiers.js";
+import { CompanyIndex } from "./company-index.js";
+import { PersonIndex } from "./person-index.js";
+import { logger } from "./shared/logger.js";
 
 const KRS_API_BASE = "https://api-krs.ms.gov.pl/api/krs";
 const CACHE_TTL_SECONDS = 3600; // 1 hour
+const BULLETIN_TTL_SECONDS = 7 * 24 * 3600; // past days no longer change
+
+/** Maximum number of days in one change feed request */
+export const MAX_CHANGE_FEED_DAYS = 31;
+
+/**
+ * Kind of a failed company lookup
+ */
+export type KrsLookupErrorCode =
+  | "invalid_krs"
+  | "not_found"
+  | "timeout"
+  | "unavailable"
+  | "api_error";
+
+/**
+ * Classify an error thrown by KrsClient.getCompany (matches the messages
+ * thrown by getCompany, fetchExtract and request)
+ */
+export function classifyLookupError(error: unknown): KrsLookupErrorCode {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.startsWith("Invalid KRS number")) return "invalid_krs";
+  if (message.includes("not found in")) return "not_found";
+  if (message.startsWith("KRS API timeout")) return "timeout";
+  if (message.startsWith("KRS API unavailable")) return "unavailable";
+  return "api_error";
+}
+
+/**
+ * Human-readable shareholder roles
+ */
+export const SHAREHOLDER_ROLE_LABELS: Record<ShareholderRole, string> = {
+  shareholder: "wspólnik",
+  sole_shareholder: "jedyny akcjonariusz",
+  partner: "wspólnik",
+  general_partner: "komplementariusz",
+  limited_partner: "komandytariusz",
+};
+
+/**
+ * Human-readable register names
+ */
+export const REGISTRY_LABELS: Record<KrsRegistry, string> = {
+  P: "rejestr przedsiębiorców",
+  S: "rejestr stowarzyszeń i fundacji",
+};
+
+/**
+ * Human-readable legal statuses
+ */
+export const STATUS_LABELS: Record<CompanyStatusCode, string> = {
+  active: "aktywny",
+  in_liquidation: "w likwidacji",
+  bankrupt: "w upadłości",
+  in_restructuring: "w restrukturyzacji",
+  deregistered: "wykreślony z rejestru",
+};
+
+/**
+ * Human-readable proceeding kinds
+ */
+export const PROCEEDING_LABELS: Record<Proceeding["kind"], string> = {
+  liquidation: "likwidacja",
+  dissolution: "rozwiązanie / unieważnienie",
+  bankruptcy: "postępowanie upadłościowe",
+  restructuring: "postępowanie restrukturyzacyjne",
+  receivership: "zarząd przymusowy",
+};
+
+/**
+ * Human-readable debt entry kinds
+ */
+export const DEBT_LABELS: Record<DebtEntry["kind"], string> = {
+  arrears: "zaległości",
+  unsatisfied_claim: "wierzytelność niezaspokojona w egzekucji",
+  bankruptcy_petition_dismissed: "oddalenie wniosku o upadłość",
+};
+
+/**
+ * Human-readable filed document kinds
+ */
+export const FILING_LABELS: Record<FilingKind, string> = {
+  financial_statement: "sprawozdanie finansowe",
+  audit_report: "sprawozdanie z badania",
+  approval_resolution: "uchwała o zatwierdzeniu",
+  management_report: "sprawozdanie z działalności",
+};
+
+/**
+ * Human-readable lineage event kinds
+ */
+export const LINEAGE_EVENT_LABELS: Record<LineageEvent, string> = {
+  merger: "połączenie",
+  division: "podział",
+  transformation: "przekształcenie",
+  other: "inne zdarzenie",
+};
+
+/** Number of most recent financial years listed in the text output */
+const FILING_YEARS_SHOWN = 5;
 
 export class KrsClient {
-  constructor(private env: Env) {}
+  private index: CompanyIndex;
+  private persons: PersonIndex;
+
+  constructor(private env: Env) {
+    this.index = new CompanyIndex(env.KRS_DB);
+    this.persons = new PersonIndex(env.KRS_DB);
+  }
 
   /**
    * Fetch company data from KRS API
    *
    * @param krs - 10-digit KRS number
    * @param type - Extract type: "aktualny" (current) or "pelny" (full history)
+   * @param registry - Register to query: "P" (entrepreneurs), "S" (associations,
+   *                   foundations) or "auto" (try P, then fall back to S)
    * @returns Transformed company data ready for widget rendering
+   *          (with `history` attached for full extracts)
    * @throws Error if company not found or API unavailable
    */
   async getCompany(
     krs: string,
-    type: "aktualny" | "pelny" = "aktualny"
+    type: "aktualny" | "pelny" = "aktualny",
+    registry: KrsRegistryOption = "auto"
   ): Promise<CompanyData> {
-    const cacheKey = `krs:${krs}:${type}`;
+    const cacheKey = `krs:v${COMPANY_DATA_SCHEMA_VERSION}:${krs}:${type}:${registry}`;
 
     // Check cache first
     const cached = await this.env.CACHE_KV.get(cacheKey);
@@ -38,13 +198,203 @@ export class KrsClient {
       return JSON.parse(cached) as CompanyData;
     }
 
-    // Fetch from API
+    // Fetch from API (auto mode: entrepreneurs first, then associations)
+    const candidates: KrsRegistry[] = registry === "auto" ? ["P", "S"] : [registry];
+    let data: CompanyData | null = null;
+    for (const rejestr of candidates) {
+      const raw = await this.fetchExtract(krs, type, rejestr);
+      if (raw === null) continue;
+      data =
+        type === "aktualny"
+          ? this.transformResponse(raw as KrsApiResponse, rejestr)
+          : transformFullResponse(raw as KrsFullApiResponse, rejestr);
+      break;
+    }
+
+    if (!data) {
+      const where = registry === "auto" ? "registry" : `register ${registry}`;
+      throw new Error(`Company with KRS ${krs} not found in ${where}`);
+    }
+
+    await this.recordInIndex(data);
+
+    // Cache for 1 hour
+    await this.env.CACHE_KV.put(cacheKey, JSON.stringify(data), {
+      expirationTtl: CACHE_TTL_SECONDS,
+    });
+
+    return data;
+  }
+
+  /**
+   * Rebuild company data as it stood on a given date
+   *
+   * @param krs - 10-digit KRS number
+   * @param date - ISO 8601 date (yyyy-mm-dd)
+   * @param registry - Register to query (see getCompany)
+   * @returns Company data snapshot with `asOf` describing the source entries
+   * @throws Error if company not found or not yet registered on that date
+   */
+  async getCompanyAsOf(
+    krs: string,
+    date: string,
+    registry: KrsRegistryOption = "auto"
+  ): Promise<CompanyData> {
+    const full = await this.getCompany(krs, "pelny", registry);
+    return companyAsOf(full, date);
+  }
+
+  /**
+   * List companies with registry entries in a date range
+   *
+   * Each day's bulletin is cached separately: past days for a week, the
+   * current day for an hour, as entries keep being published during the day.
+   *
+   * @param from - First day, ISO 8601 date (yyyy-mm-dd)
+   * @param to - Last day (default: same as from)
+   * @param filter - Only report these KRS numbers (e.g. a portfolio to re-check)
+   * @returns Per-day counts and the distinct KRS numbers changed
+   * @throws Error on invalid or future dates, ranges over MAX_CHANGE_FEED_DAYS
+   *         and API failures
+   */
+  async getChanges(from: string, to: string = from, filter?: string[]): Promise<ChangeFeed> {
+    const today = new Date().toISOString().slice(0, 10);
+    for (const date of [from, to]) {
+      const parsed = new Date(`${date}T00:00:00Z`);
+      if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+        throw new Error(`Invalid date: ${date} (expected YYYY-MM-DD)`);
+      }
+    }
+    if (from > to) {
+      throw new Error(`Date range is reversed: ${from} is after ${to}`);
+    }
+    if (to > today) {
+      throw new Error(`No bulletin yet for ${to} (today is ${today})`);
+    }
+
+    const dates: string[] = [];
+    for (let d = new Date(`${from}T00:00:00Z`); ; d.setUTCDate(d.getUTCDate() + 1)) {
+      const date = d.toISOString().slice(0, 10);
+      if (date > to) break;
+      dates.push(date);
+      if (dates.length > MAX_CHANGE_FEED_DAYS) {
+        throw new Error(`Date range too long: at most ${MAX_CHANGE_FEED_DAYS} days per request`);
+      }
+    }
+
+    const changed = new Set<string>();
+    const days: ChangeFeed["days"] = [];
+    for (const date of dates) {
+      const krs = await this.getBulletin(date, date === today);
+      krs.forEach((k) => changed.add(k));
+      days.push({ date, count: krs.length });
+    }
+
+    const all = [...changed].sort();
+    const wanted = filter ? new Set(filter) : null;
+    const krs = wanted ? all.filter((k) => wanted.has(k)) : all;
+
+    return {
+      from,
+      to,
+      days,
+      krs,
+      total: all.length,
+      filter: wanted ? { requested: wanted.size, matched: krs.length } : null,
+    };
+  }
+
+  /**
+   * KRS numbers with entries published on one day (cached)
+   */
+  private async getBulletin(date: string, isToday: boolean): Promise<string[]> {
+    const cacheKey = `biuletyn:${date}`;
+
+    const cached = await this.env.CACHE_KV.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as string[];
+    }
+
+    const response = await this.request(`${KRS_API_BASE}/Biuletyn/${date}`);
+    let krs: string[] = [];
+    if (response.ok) {
+      const body = (await response.json()) as unknown;
+      krs = Array.isArray(body)
+        ? [...new Set(body.map((k) => String(k).padStart(10, "0")))]
+        : [];
+    } else if (response.status !== 404) {
+      // 404 means nothing was published that day (weekends, holidays)
+      throw new Error(`KRS API error: ${response.status}`);
+    }
+
+    await this.env.CACHE_KV.put(cacheKey, JSON.stringify(krs), {
+      expirationTtl: isToday ? CACHE_TTL_SECONDS : BULLETIN_TTL_SECONDS,
+    });
+
+    return krs;
+  }
+
+  /**
+   * Add a fetched company and its people to the local indexes
+   *
+   * Index failures are logged but never fail the lookup itself.
+   */
+  private async recordInIndex(data: CompanyData): Promise<void> {
+    const indexes = [
+      ["company_index_record", this.index],
+      ["person_index_record", this.persons],
+    ] as const;
+    for (const [operation, index] of indexes) {
+      try {
+        await index.record(data);
+      } catch (error) {
+        logger.warn({
+          event: "storage_error",
+          operation,
+          key: data.krs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Fetch a raw extract from a single register
+   *
+   * @returns Parsed JSON body, or null if the entity is not in this register
+   * @throws Error on timeouts, invalid KRS numbers and other API failures
+   */
+  private async fetchExtract(
+    krs: string,
+    type: "aktualny" | "pelny",
+    rejestr: KrsRegistry
+  ): Promise<unknown | null> {
     const endpoint = type === "aktualny" ? "OdpisAktualny" : "OdpisPelny";
-    const url = `${KRS_API_BASE}/${endpoint}/${krs}?rejestr=P&format=json`;
+    const response = await this.request(
+      `${KRS_API_BASE}/${endpoint}/${krs}?rejestr=${rejestr}&format=json`
+    );
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
+      }
+      if (response.status === 400) {
+        throw new Error(`Invalid KRS number format: ${krs}`);
+      }
+      throw new Error(`KRS API error: ${response.status}`);
+    }
 
-    let response: Response;
+    return await response.json();
+  }
+
+  /**
+   * GET a KRS API URL
+   *
+   * @throws Error on timeouts and network failures (HTTP errors are returned)
+   */
+  private async request(url: string): Promise<Response> {
     try {
-      response = await fetch(url, {
+      return await fetch(url, {
         headers: {
           Accept: "application/json",
           "User-Agent": "KRS-Viewer-MCP/1.0",
@@ -57,117 +407,225 @@ export class KrsClient {
       }
       throw new Error("KRS API unavailable - please try again later");
     }
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(`Company with KRS ${krs} not found in registry`);
-      }
-      if (response.status === 400) {
-        throw new Error(`Invalid KRS number format: ${krs}`);
-      }
-      throw new Error(`KRS API error: ${response.status}`);
-    }
-
-    const raw = (await response.json()) as KrsApiResponse;
-    const data = this.transformResponse(raw);
-
-    // Cache for 1 hour
-    await this.env.CACHE_KV.put(cacheKey, JSON.stringify(data), {
-      expirationTtl: CACHE_TTL_SECONDS,
-    });
-
-    return data;
   }
 
   /**
    * Transform raw KRS API response to widget-friendly format
    */
-  private transformResponse(raw: KrsApiResponse): CompanyData {
+  private transformResponse(raw: KrsApiResponse, registry: KrsRegistry): CompanyData {
     const odpis = raw.odpis;
     const dzial1 = odpis.dane.dzial1;
     const dzial2 = odpis.dane.dzial2;
     const dzial3 = odpis.dane.dzial3;
-
-    // Build PKD code helper
-    const buildPkdCode = (item: {
-      kodDzial: string;
-      kodKlasa: string;
-      kodPodklasa: string;
-    }) => `${item.kodDzial}.${item.kodKlasa}.${item.kodPodklasa}`;
-
-    // Safely extract shareholders with proper null handling
-    const shareholders = (dzial1.wspolnicySpzoo || [])
-      .filter((s) => s?.imiona?.imie && s?.nazwisko?.nazwisko)
-      .map((s) => ({
-        name: `${s.imiona.imie} ${s.nazwisko.nazwisko}`,
-        shares: s.posiadaneUdzialy || "Brak danych",
-      }));
-
-    // Safely extract board members
-    const boardMembers = (dzial2?.reprezentacja?.sklad || [])
-      .filter((m) => m?.imiona?.imie && m?.nazwisko?.nazwisko)
-      .map((m) => ({
-        name: `${m.imiona.imie} ${m.nazwisko.nazwisko}`,
+    const dzial4 = odpis.dane.dzial4;
+    const dzial6 = odpis.dane.dzial6;
+
+    // Shareholders and partners from every section that lists them
+    const legalForm = dzial1.danePodmiotu.formaPrawna;
+    const shareholders: Shareholder[] = SHAREHOLDER_SECTIONS.flatMap(
+      ([section, sectionRole]) =>
+        (dzial1[section] || []).flatMap((s): Shareholder[] => {
+          const role = sectionRole ?? partnerRole(legalForm, !!s?.sumaKomandytowa);
+          const shares =
+            s?.posiadaneUdzialy ||
+            (s?.sumaKomandytowa ? `Suma komandytowa: ${s.sumaKomandytowa}` : "Brak danych");
+          const base = {
+            role,
+            shares,
+            soleShareholder: !!s?.czyPosiadaCaloscUdzialow || role === "sole_shareholder",
+            ...shareFields(shares),
+          };
+          if (s?.imiona?.imie && s?.nazwisko?.nazwisko) {
+            return [
+              {
+                ...base,
+                kind: "person",
+                name: buildPersonName(s.imiona.imie, s.nazwisko.nazwisko),
+                birthDate: birthDateFromPesel(s.identyfikator?.pesel),
+              },
+            ];
+          }
+          if (s?.nazwa) {
+            return [
+              {
+                ...base,
+                kind: "entity",
+                name: s.nazwa,
+                krs: s.krs?.krs || null,
+                regon: s.identyfikator?.regon || null,
+              },
+            ];
+          }
+          return [];
+        })
+    );
+
+    const capital = dzial1.kapital?.wysokoscKapitaluZakladowego
+      ? buildCapital(dzial1.kapital.wysokoscKapitaluZakladowego)
+      : null;
+
+    // Safely extract representation organs (usually just the board)
+    const hasName = (p: KrsPerson) => p?.imiona?.imie && p?.nazwisko?.nazwisko;
+    const organs = dzial2?.reprezentacja
+      ? Array.isArray(dzial2.reprezentacja)
+        ? dzial2.reprezentacja
+        : [dzial2.reprezentacja]
+      : [];
+    const representationOrgans = organs.map((organ) => ({
+      organName: organ?.nazwaOrganu || "ZARZĄD",
+      method: organ?.sposobReprezentacji || "Brak danych",
+      members: (organ?.sklad || []).filter(hasName).map((m) => ({
+        name: buildPersonName(m.imiona.imie, m.nazwisko.nazwisko),
         function: m.funkcjaWOrganie || "Brak danych",
-      }));
+        birthDate: birthDateFromPesel(m.identyfikator?.pesel),
+      })),
+    }));
+
+    // Supervisory bodies (members of all bodies listed under the first name)
+    const supervisoryOrgans = dzial2?.organNadzoru || [];
+    const supervisoryBoard =
+      supervisoryOrgans.length > 0
+        ? {
+            organName: supervisoryOrgans[0].nazwa || "RADA NADZORCZA",
+            members: supervisoryOrgans.flatMap((organ) =>
+              (organ.sklad || []).filter(hasName).map((m) => ({
+                name: buildPersonName(m.imiona.imie, m.nazwisko.nazwisko),
+                function: m.funkcjaWOrganie || "CZŁONEK",
+                birthDate: birthDateFromPesel(m.identyfikator?.pesel),
+              }))
+            ),
+          }
+        : null;
+
+    // Proxy holders (prokurenci)
+    const proxies = (dzial2?.prokurenci || []).filter(hasName).map((p) => ({
+      name: buildPersonName(p.imiona.imie, p.nazwisko.nazwisko),
+      type: p.rodzajProkury || "Brak danych",
+      birthDate: birthDateFromPesel(p.identyfikator?.pesel),
+    }));
 
     // Safely extract activities
     const mainActivities = (
       dzial3?.przedmiotDzialalnosci?.przedmiotPrzewazajacejDzialalnosci || []
-    ).map((a) => ({
-      code: buildPkdCode(a),
-      description: a.opis,
-    }));
+    ).map((a) => buildActivity(buildPkdCode(a), a.opis));
 
     const otherActivities = (
       dzial3?.przedmiotDzialalnosci?.przedmiotPozostalejDzialalnosci || []
-    ).map((a) => ({
-      code: buildPkdCode(a),
-      description: a.opis,
-    }));
+    ).map((a) => buildActivity(buildPkdCode(a), a.opis));
+
+    // Legal status: proceedings (dzial6), arrears and enforcement (dzial4)
+    const status = deriveStatus(
+      PROCEEDING_SECTIONS.flatMap(([section, kind]) =>
+        (dzial6?.[section] || []).map((p) => buildProceeding(p, kind))
+      ),
+      DEBT_SECTIONS.flatMap(([section, kind]) =>
+        (dzial4?.[section] || []).map((d) => buildDebtEntry(d, kind))
+      ),
+      odpis.naglowekA.dataWykreslenia || null
+    );
+
+    // Predecessors and successors (mergers, divisions, conversions)
+    const lineage = buildLineage(
+      dzial1.sposobPowstaniaPodmiotu,
+      dzial6?.polaczeniePodzialPrzeksztalcenie || [],
+      status.code === "deregistered"
+    );
+
+    // Filed annual documents (dzial3 mentions)
+    const filings = FILING_SECTIONS.flatMap(([section, kind]) =>
+      (dzial3?.wzmiankiOZlozonychDokumentach?.[section] || []).map((f) =>
+        buildFiling(f, kind)
+      )
+    );
+
+    // Last entry (the current extract header describes only that one)
+    const header = odpis.naglowekA;
+    const lastEntryNumber =
+      header.numerOstatniegoWpisu !== undefined
+        ? parseEntryNumber(header.numerOstatniegoWpisu)
+        : null;
+    const registryCourt = header.oznaczenieSaduDokonujacegoOstatniegoWpisu || null;
+    const legalFormInfo = classifyLegalForm(legalForm);
 
     return {
       name: dzial1.danePodmiotu.nazwa,
       krs: odpis.naglowekA.numerKRS,
+      registry,
       nip: dzial1.danePodmiotu.identyfikatory?.nip || null,
       regon: dzial1.danePodmiotu.identyfikatory?.regon || null,
-      legalForm: dzial1.danePodmiotu.formaPrawna,
-
-      address: {
-        city: dzial1.siedzibaIAdres?.siedziba?.miejscowosc || "",
-        voivodeship: dzial1.siedzibaIAdres?.siedziba?.wojewodztwo || "",
-        street: dzial1.siedzibaIAdres?.adres?.ulica || "",
-        building: dzial1.siedzibaIAdres?.adres?.nrDomu || "",
-        unit: dzial1.siedzibaIAdres?.adres?.nrLokalu || null,
-        postalCode: dzial1.siedzibaIAdres?.adres?.kodPocztowy || "",
-        country: dzial1.siedzibaIAdres?.siedziba?.kraj || "POLSKA",
+      legalForm,
+      legalFormInfo,
+
+      address: buildAddress(dzial1.siedzibaIAdres?.siedziba, dzial1.siedzibaIAdres?.adres),
+      contact: {
+        email: dzial1.siedzibaIAdres?.adresPocztyElektronicznej || null,
+        website: dzial1.siedzibaIAdres?.adresStronyInternetowej || null,
       },
+      branches: (dzial1.jednostkiTerenoweOddzialy || []).map((b) => ({
+        name: b.nazwa,
+        address: buildAddress(b.siedziba, b.adres),
+      })),
 
-      capital: dzial1.kapital?.wysokoscKapitaluZakladowego
-        ? {
-            // Convert Polish decimal format (comma) to standard (dot)
-            value: dzial1.kapital.wysokoscKapitaluZakladowego.wartosc.replace(
-              ",",
-              "."
-            ),
-            currency: dzial1.kapital.wysokoscKapitaluZakladowego.waluta,
-          }
-        : null,
+      capital,
 
-      shareholders,
+      shareholders: withOwnership(shareholders, capital),
 
-      representation: {
-        organName: dzial2?.reprezentacja?.nazwaOrganu || "ZARZĄD",
-        method: dzial2?.reprezentacja?.sposobReprezentacji || "Brak danych",
-        members: boardMembers,
+      representation: representationOrgans[0] ?? {
+        organName: "ZARZĄD",
+        method: "Brak danych",
+        members: [],
       },
+      representationOrgans,
+      supervisoryBoard,
+      proxies,
 
       mainActivity: mainActivities,
       otherActivities,
 
-      registrationDate: odpis.naglowekA.dataRejestracjiWKRS,
-      lastUpdate: odpis.naglowekA.stanZDnia,
-      dataTimestamp: odpis.naglowekA.dataCzasOdpisu || new Date().toISOString(),
+      status,
+      lineage,
+
+      filings,
+      filingStatus: summarizeFilings(
+        filings,
+        odpis.naglowekA.dataRejestracjiWKRS,
+        new Date().toISOString().slice(0, 10),
+        legalFormInfo.filesFinancialStatements
+      ),
+
+      nonProfit:
+        registry === "S"
+          ? {
+              publicBenefit: dzial1.danePodmiotu.czyPosiadaStatusOPP ?? false,
+              supervisoryAuthority: dzial1.organSprawujacyNadzor?.nazwa || null,
+              objectives: dzial3?.celDzialaniaOrganizacji?.celDzialania || null,
+            }
+          : null,
+
+      registrationDate: toIsoDate(header.dataRejestracjiWKRS) ?? header.dataRejestracjiWKRS,
+      registrationDateRaw: header.dataRejestracjiWKRS,
+      lastUpdate: toIsoDate(header.stanZDnia) ?? header.stanZDnia,
+      lastUpdateRaw: header.stanZDnia,
+      dataTimestamp: toIsoDateTime(header.dataCzasOdpisu) ?? new Date().toISOString(),
+      dataTimestampRaw: header.dataCzasOdpisu || null,
+
+      registryCourt,
+      lastEntryNumber,
+      lastEntries:
+        lastEntryNumber !== null
+          ? [
+              {
+                number: lastEntryNumber,
+                date: toIsoDate(header.dataOstatniegoWpisu) ?? "",
+                dateRaw: header.dataOstatniegoWpisu || "",
+                description: null,
+                caseSignature: header.sygnaturaAktSprawyDotyczacejOstatniegoWpisu || null,
+                court: registryCourt,
+              },
+            ]
+          : [],
+
+      schemaVersion: COMPANY_DATA_SCHEMA_VERSION,
     };
   }
 }
@@ -180,10 +638,36 @@ export function formatCompanyAsText(data: CompanyData): string {
 
   lines.push(`=== ${data.name} ===`);
   lines.push("");
-  lines.push(`KRS: ${data.krs}`);
+  lines.push(...formatStatusAsText(data.status));
+  if (data.asOf) {
+    lines.push(
+      `🕰️ Stan na dzień ${data.asOf.date} (wg wpisu nr ${data.asOf.entryNumber} z dnia ${data.asOf.entryDate})`
+    );
+    lines.push(`   Podstawa: wpisy nr ${data.asOf.basedOnEntries.join(", ")}`);
+    lines.push("");
+  }
+  lines.push(`KRS: ${data.krs} (${REGISTRY_LABELS[data.registry]})`);
   if (data.nip) lines.push(`NIP: ${data.nip}`);
   if (data.regon) lines.push(`REGON: ${data.regon}`);
-  lines.push(`Forma prawna: ${data.legalForm}`);
+  const form = data.legalFormInfo;
+  lines.push(
+    `Forma prawna: ${data.legalForm}${form.abbreviation ? ` (${form.abbreviation})` : ""}`
+  );
+  if (form.personalLiability) {
+    const liable =
+      form.code === "limited_partnership" || form.code === "limited_joint_stock_partnership"
+        ? "komplementariusze"
+        : "wspólnicy";
+    lines.push(`Odpowiedzialność: ${liable} odpowiadają za zobowiązania spółki całym majątkiem`);
+  }
+  if (data.nonProfit) {
+    lines.push(
+      `Status OPP: ${data.nonProfit.publicBenefit ? "tak (organizacja pożytku publicznego)" : "nie"}`
+    );
+    if (data.nonProfit.supervisoryAuthority) {
+      lines.push(`Organ nadzoru: ${data.nonProfit.supervisoryAuthority}`);
+    }
+  }
   lines.push("");
 
   // Address
@@ -192,37 +676,331 @@ export function formatCompanyAsText(data: CompanyData): string {
   const addressParts = [addr.street, addr.building];
   if (addr.unit) addressParts.push(`lok. ${addr.unit}`);
   lines.push(`   ${addressParts.join(" ")}`);
-  lines.push(`   ${addr.postalCode} ${addr.city}`);
-  lines.push(`   ${addr.voivodeship}, ${addr.country}`);
+  lines.push(`   ${addr.postalCode} ${addr.postOffice ?? addr.city}`);
+  const region = [
+    addr.municipality ? `gm. ${addr.municipality}` : "",
+    addr.county ? `pow. ${addr.county}` : "",
+    addr.voivodeship,
+    addr.country,
+  ].filter(Boolean);
+  lines.push(`   ${region.join(", ")}`);
+  if (data.contact.email) lines.push(`   ✉️ ${data.contact.email}`);
+  if (data.contact.website) lines.push(`   🌐 ${data.contact.website}`);
   lines.push("");
 
-  // Capital
-  if (data.capital) {
-    lines.push(`💰 Kapitał zakładowy: ${data.capital.value} ${data.capital.currency}`);
+  // Branches
+  if (data.branches.length > 0) {
+    lines.push("🏢 Oddziały:");
+    for (const branch of data.branches) {
+      const b = branch.address;
+      const street = [b.street, b.building, b.unit ? `lok. ${b.unit}` : ""]
+        .filter(Boolean)
+        .join(" ");
+      const place = [street, `${b.postalCode} ${b.city}`.trim()].filter(Boolean).join(", ");
+      lines.push(`   • ${branch.name}${place ? ` - ${place}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  // Capital (not shown for forms without share capital, e.g. partnerships)
+  if (data.capital && (form.hasShareCapital || form.code === "other")) {
+    const label =
+      form.code === "simple_joint_stock_company" ? "Kapitał akcyjny" : "Kapitał zakładowy";
+    lines.push(`💰 ${label}: ${data.capital.display}`);
+    if (isBelowMinimumCapital(data.capital, form)) {
+      lines.push(
+        `   ⚠️ Poniżej ustawowego minimum (${form.minimumCapital?.amount} ${form.minimumCapital?.currency})`
+      );
+    }
+    lines.push("");
+  }
+
+  // Shareholders and partners
+  if (data.shareholders.length > 0) {
+    const holders =
+      form.code === "joint_stock_company" ||
+      form.code === "simple_joint_stock_company" ||
+      form.code === "european_company"
+        ? "Akcjonariusze"
+        : "Wspólnicy";
+    lines.push(`🏦 ${holders}:`);
+    for (const holder of data.shareholders) {
+      const tags = [SHAREHOLDER_ROLE_LABELS[holder.role]];
+      if (holder.kind === "entity" && holder.krs) tags.push(`KRS ${holder.krs}`);
+      if (holder.soleShareholder) tags.push("jedyny wspólnik");
+      const percentage =
+        holder.percentage !== null ? ` [${holder.percentage.toFixed(2)}%]` : "";
+      const encumbered = holder.encumbered ? " ⚠️ udziały obciążone" : "";
+      lines.push(
+        `   • ${holder.name} (${tags.join(", ")}) - ${holder.shares}${percentage}${encumbered}`
+      );
+    }
+    lines.push("");
+  }
+
+  // Representation organs (board and any further organs)
+  for (const organ of data.representationOrgans ?? [data.representation]) {
+    if (organ.members.length === 0) continue;
+    lines.push(`👥 ${organ.organName}:`);
+    for (const member of organ.members) {
+      lines.push(`   • ${member.name} - ${member.function}`);
+    }
+    lines.push(`   Sposób reprezentacji: ${organ.method}`);
     lines.push("");
   }
 
-  // Board
-  if (data.representation.members.length > 0) {
-    lines.push(`👥 ${data.representation.organName}:`);
-    for (const member of data.representation.members) {
+  // Supervisory board
+  if (data.supervisoryBoard && data.supervisoryBoard.members.length > 0) {
+    lines.push(`🔍 ${data.supervisoryBoard.organName}:`);
+    for (const member of data.supervisoryBoard.members) {
       lines.push(`   • ${member.name} - ${member.function}`);
     }
     lines.push("");
   }
 
+  // Proxies
+  if (data.proxies.length > 0) {
+    lines.push("✍️ Prokurenci:");
+    for (const proxy of data.proxies) {
+      lines.push(`   • ${proxy.name} - ${proxy.type}`);
+    }
+    lines.push("");
+  }
+
+  // Predecessors and successors
+  if (data.lineage.length > 0) {
+    lines.push("🧬 Połączenia, podziały, przekształcenia:");
+    for (const link of data.lineage) {
+      const arrow = link.direction === "predecessor" ? "poprzednik" : "następca";
+      const entity = [link.name, link.krs ? `KRS ${link.krs}` : ""]
+        .filter(Boolean)
+        .join(", ");
+      const date = link.date ? `, ${link.date}` : "";
+      lines.push(
+        `   • ${arrow}: ${entity || "brak danych"} (${LINEAGE_EVENT_LABELS[link.event]}${date})`
+      );
+    }
+    lines.push("");
+  }
+
+  // Statutory objectives (S register)
+  if (data.nonProfit?.objectives) {
+    lines.push("🎯 Cele działania:");
+    lines.push(`   ${data.nonProfit.objectives}`);
+    lines.push("");
+  }
+
   // Main activity
   if (data.mainActivity.length > 0) {
     lines.push("🏭 Działalność przeważająca:");
     for (const activity of data.mainActivity) {
-      lines.push(`   • ${activity.code} - ${activity.description}`);
+      const section = activity.section ? `[${activity.section}] ` : "";
+      lines.push(
+        `   • ${section}${activity.code} - ${activity.description} (PKD ${activity.version})`
+      );
+      for (const eq of activity.equivalents) {
+        lines.push(`     → PKD ${eq.version}: ${eq.code} - ${eq.name}`);
+      }
     }
     lines.push("");
   }
 
+  // Annual filings
+  lines.push("📑 Sprawozdania finansowe:");
+  const { filingStatus } = data;
+  lines.push(
+    filingStatus.lastStatementYear !== null
+      ? `   Ostatnie złożone: za rok ${filingStatus.lastStatementYear}` +
+          (filingStatus.lastStatementFiledOn
+            ? ` (złożone ${filingStatus.lastStatementFiledOn})`
+            : "")
+      : "   Brak wzmianek o złożonych sprawozdaniach"
+  );
+  if (filingStatus.missingPreviousYear) {
+    lines.push(`   ⚠️ Brak sprawozdania za rok ${filingStatus.expectedYear}`);
+  } else if (filingStatus.missingPreviousYear === null) {
+    lines.push("   ℹ️ Ta forma prawna nie zawsze składa sprawozdania do KRS");
+  }
+  const years = [...new Set(data.filings.map((f) => f.year))]
+    .filter((y): y is number => y !== null)
+    .sort((a, b) => b - a)
+    .slice(0, FILING_YEARS_SHOWN);
+  for (const year of years) {
+    const kinds = data.filings
+      .filter((f) => f.year === year)
+      .map((f) => `${FILING_LABELS[f.kind]}${f.filedOn ? ` (${f.filedOn})` : ""}`);
+    lines.push(`   • ${year}: ${kinds.join(", ")}`);
+  }
+  lines.push("");
+
   // Meta
   lines.push(`📅 Data rejestracji: ${data.registrationDate}`);
   lines.push(`📅 Stan na dzień: ${data.lastUpdate}`);
+  if (data.registryCourt) lines.push(`⚖️ Sąd rejestrowy: ${data.registryCourt}`);
+  if (data.lastEntries.length > 0) {
+    lines.push(`📝 Ostatnie wpisy (ostatni: nr ${data.lastEntryNumber}):`);
+  }
+  for (const entry of [...data.lastEntries].reverse()) {
+    const details = [
+      entry.date,
+      entry.caseSignature ? `sygn. ${entry.caseSignature}` : "",
+      entry.court && entry.court !== data.registryCourt ? entry.court : "",
+    ].filter(Boolean);
+    lines.push(
+      `   • wpis nr ${entry.number}${details.length > 0 ? ` (${details.join(", ")})` : ""}` +
+        (entry.description ? ` - ${entry.description}` : "")
+    );
+  }
+
+  // History (full extract only)
+  if (data.history) {
+    lines.push("");
+    lines.push(formatHistoryAsText(data.history));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format the legal status as text lines (with a warning unless active)
+ */
+function formatStatusAsText(status: CompanyStatus): string[] {
+  const lines: string[] = [];
+
+  if (status.code === "active") {
+    lines.push(`Status: ${STATUS_LABELS.active}`);
+  } else {
+    const since = status.since ? ` od ${status.since}` : "";
+    lines.push(`⚠️ STATUS: ${STATUS_LABELS[status.code].toUpperCase()}${since}`);
+  }
+
+  for (const proceeding of status.proceedings) {
+    const details = [
+      proceeding.startDate ? `od ${proceeding.startDate}` : "",
+      proceeding.endDate ? `zakończone ${proceeding.endDate}` : "w toku",
+      proceeding.court ?? "",
+      proceeding.caseSignature ? `sygn. ${proceeding.caseSignature}` : "",
+    ].filter(Boolean);
+    lines.push(`   • ${PROCEEDING_LABELS[proceeding.kind]} (${details.join(", ")})`);
+    if (proceeding.description) lines.push(`     ${proceeding.description}`);
+  }
+
+  if (status.debts.length > 0) {
+    lines.push(`⚠️ Wpisy w dziale 4 (zaległości, egzekucja): ${status.debts.length}`);
+    for (const debt of status.debts) {
+      const details = [debt.amount, debt.date, debt.authority, debt.description]
+        .filter(Boolean)
+        .join(", ");
+      lines.push(`   • ${DEBT_LABELS[debt.kind]}${details ? ` - ${details}` : ""}`);
+    }
+  }
+
+  lines.push("");
+  return lines;
+}
+
+/**
+ * Format the change history of a full extract as text
+ *
+ * Only fields that actually changed are listed (board composition is always
+ * shown since it is the most common due diligence question).
+ */
+export function formatHistoryAsText(history: CompanyHistory): string {
+  const lines: string[] = [];
+
+  const section = <T>(
+    label: string,
+    entries: HistoryEntry<T>[],
+    describe: (value: T) => string,
+    always = false
+  ) => {
+    if (entries.length === 0 || (entries.length === 1 && !always)) return;
+    lines.push(`   ${label}:`);
+    for (const entry of entries) {
+      const from = `wpis ${entry.introducedIn} (${entry.introducedOn ?? "?"})`;
+      const to =
+        entry.removedIn === null
+          ? "obecnie"
+          : `wpis ${entry.removedIn} (${entry.removedOn ?? "?"})`;
+      lines.push(`   • ${describe(entry.value)} [${from} - ${to}]`);
+    }
+  };
+
+  lines.push(`📜 Historia wpisów (${history.entries.length}):`);
+  section("Nazwa", history.names, (v) => v);
+  section("Forma prawna", history.legalForms, (v) => v);
+  section("Siedziba", history.seats, (v) => `${v.city}, ${v.voivodeship}`);
+  section("Adres", history.addresses, (v) =>
+    [v.street, v.building, v.unit ? `lok. ${v.unit}` : "", v.postalCode]
+      .filter(Boolean)
+      .join(" ")
+  );
+  section("E-mail", history.emails, (v) => v);
+  section("Strona WWW", history.websites, (v) => v);
+  section("Oddziały", history.branches, (v) => `${v.name} (${v.address.city})`, true);
+  section("Kapitał", history.capital, (v) => v.display);
+  section("Wspólnicy", history.shareholders, (v) => `${v.name} - ${v.shares}`);
+  section(
+    "Skład organu",
+    history.representation.members,
+    (v) => `${v.name} - ${v.function}`,
+    true
+  );
+  section(
+    "Organ nadzoru",
+    history.supervisoryBoard.members,
+    (v) => `${v.name} - ${v.function}`,
+    true
+  );
+  section("Prokura", history.proxies, (v) => `${v.name} - ${v.type}`, true);
+  section(
+    "Postępowania",
+    history.proceedings,
+    (v) => `${PROCEEDING_LABELS[v.kind]}${v.caseSignature ? ` (sygn. ${v.caseSignature})` : ""}`,
+    true
+  );
+  section("Dział 4", history.debts, (v) => DEBT_LABELS[v.kind], true);
+  section("PKD przeważające", history.mainActivities, (v) => `${v.code} - ${v.description}`);
+  section("PKD pozostałe", history.otherActivities, (v) => v.code);
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a change feed as text for non-UI hosts
+ *
+ * @param limit - Maximum number of KRS numbers listed
+ */
+export function formatChangeFeedAsText(feed: ChangeFeed, limit: number): string {
+  const lines: string[] = [];
+  const range = feed.from === feed.to ? feed.from : `${feed.from} - ${feed.to}`;
+
+  lines.push(`📰 Zmiany w KRS (Biuletyn): ${range}`);
+  lines.push(`   Podmioty z nowymi wpisami: ${feed.total}`);
+  if (feed.days.length > 1) {
+    for (const day of feed.days) {
+      lines.push(`   • ${day.date}: ${day.count}`);
+    }
+  }
+
+  lines.push("");
+  if (feed.filter) {
+    lines.push(
+      `🎯 Z podanej listy (${feed.filter.requested}) zmieniło się: ${feed.filter.matched}`
+    );
+  }
+  if (feed.krs.length === 0) {
+    lines.push(feed.filter ? "   Żaden z podanych podmiotów nie miał wpisów." : "   Brak wpisów.");
+    return lines.join("\n");
+  }
+
+  const shown = feed.krs.slice(0, limit);
+  for (let i = 0; i < shown.length; i += 5) {
+    lines.push(`   ${shown.slice(i, i + 5).join("  ")}`);
+  }
+  if (feed.krs.length > shown.length) {
+    lines.push(`   ... i ${feed.krs.length - shown.length} więcej`);
+  }
 
   return lines.join("\n");
 }
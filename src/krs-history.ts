@@ -0,0 +1,563 @@
+/**
+ * KRS Full Extract Transformer
+ *
+ * Rebuilds the change history of a company from the full ("Pelny") extract.
+ * Every value in that extract is tagged with the entry (wpis) that
+ * introduced it and, once superseded, the entry that removed it. We keep
+ * those references so the timeline of names, addresses, capital, board
+ * composition and PKD codes can be displayed or replayed.
+ */
+
+import type {
+  KrsEntryRef,
+  KrsFullApiResponse,
+  KrsFullOrganMember,
+  KrsFullPerson,
+  KrsHistorical,
+  KrsPkdItem,
+  KrsRegistry,
+  CompanyData,
+  CompanyHistory,
+  HistoryEntry,
+  RegistryEntry,
+  Shareholder,
+} from "./types.js";
+import {
+  buildAddress,
+  buildDebtEntry,
+  buildFiling,
+  buildLineage,
+  buildPkdCode,
+  buildPersonName,
+  buildProceeding,
+  buildSeat,
+  buildStreetAddress,
+  deriveStatus,
+  parseEntryNumber,
+  partnerRole,
+  summarizeFilings,
+  toIsoDate,
+  toIsoDateTime,
+  COMPANY_DATA_SCHEMA_VERSION,
+  DEBT_SECTIONS,
+  FILING_SECTIONS,
+  PROCEEDING_SECTIONS,
+  SHAREHOLDER_SECTIONS,
+} from "./helpers/krs-fields.js";
+import { buildCapital, shareFields, withOwnership } from "./helpers/shares.js";
+import { classifyLegalForm } from "./helpers/legal-forms.js";
+import { buildActivity } from "./helpers/pkd.js";
+import { birthDateFromPesel } from "./helpers/identifiers.js";
+
+/** Number of most recent entries listed in `lastEntries` */
+const LAST_ENTRIES_SHOWN = 5;
+
+/**
+ * Transform a full extract into company data with its change history
+ *
+ * The top-level CompanyData fields reflect the state after the last entry;
+ * the complete timeline is attached as `history`.
+ */
+export function transformFullResponse(
+  raw: KrsFullApiResponse,
+  registry: KrsRegistry
+): CompanyData {
+  const header = raw.odpis.naglowekP;
+  const dzial1 = raw.odpis.dane.dzial1;
+  const history = buildCompanyHistory(raw);
+  const lastEntry = history.entries[history.entries.length - 1];
+
+  const opp = currentValue(dzial1.danePodmiotu.czyPosiadaStatusOPP);
+  const supervisor = currentValue(dzial1.organSprawujacyNadzor);
+  const objectives = currentValue(raw.odpis.dane.dzial3?.celDzialaniaOrganizacji);
+  const state = snapshotAt(history, lastEntry?.number ?? Number.MAX_SAFE_INTEGER);
+  const status = header.dataWykreslenia
+    ? deriveStatus(state.status.proceedings, state.status.debts, header.dataWykreslenia)
+    : state.status;
+
+  return {
+    ...state,
+    status,
+    lineage: buildLineage(
+      currentValue(dzial1.sposobPowstaniaPodmiotu),
+      (raw.odpis.dane.dzial6?.polaczeniePodzialPrzeksztalcenie || []).filter(
+        (e) => !e.nrWpisuWykr
+      ),
+      status.code === "deregistered"
+    ),
+    filingStatus: summarizeFilings(
+      state.filings,
+      header.dataRejestracjiWKRS,
+      new Date().toISOString().slice(0, 10),
+      state.legalFormInfo.filesFinancialStatements
+    ),
+    krs: header.numerKRS,
+    registry,
+    nonProfit:
+      registry === "S"
+        ? {
+            publicBenefit: opp?.czyPosiadaStatusOPP ?? false,
+            supervisoryAuthority: supervisor?.nazwa || null,
+            objectives: objectives?.celDzialania || null,
+          }
+        : null,
+    registrationDate: toIsoDate(header.dataRejestracjiWKRS) ?? header.dataRejestracjiWKRS,
+    registrationDateRaw: header.dataRejestracjiWKRS,
+    lastUpdate: toIsoDate(header.stanZDnia) ?? header.stanZDnia,
+    lastUpdateRaw: header.stanZDnia,
+    dataTimestamp: toIsoDateTime(header.dataCzasOdpisu) ?? new Date().toISOString(),
+    dataTimestampRaw: header.dataCzasOdpisu || null,
+    registryCourt: lastEntry?.court ?? null,
+    lastEntryNumber: lastEntry?.number ?? null,
+    lastEntries: history.entries.slice(-LAST_ENTRIES_SHOWN),
+    schemaVersion: COMPANY_DATA_SCHEMA_VERSION,
+    history,
+  };
+}
+
+/**
+ * Build the change history from a full extract
+ */
+export function buildCompanyHistory(raw: KrsFullApiResponse): CompanyHistory {
+  const odpis = raw.odpis;
+  const dzial1 = odpis.dane.dzial1;
+  const dzial2 = odpis.dane.dzial2;
+  const dzial3 = odpis.dane.dzial3;
+  const dzial4 = odpis.dane.dzial4;
+  const dzial6 = odpis.dane.dzial6;
+
+  const entries: RegistryEntry[] = (odpis.naglowekP.wpis || [])
+    .map((w) => ({
+      number: parseEntryNumber(w.numerWpisu),
+      date: toIsoDate(w.dataWpisu) ?? w.dataWpisu,
+      dateRaw: w.dataWpisu,
+      description: w.opis || null,
+      caseSignature: w.sygnaturaAktSprawyDotyczacejWpisu || null,
+      court: w.oznaczenieSaduDokonujacegoWpisu || null,
+    }))
+    .sort((a, b) => a.number - b.number);
+
+  const dates = new Map(entries.map((e) => [e.number, e.date]));
+  const track = <S, T>(items: KrsHistorical<S> | undefined, map: (item: S) => T) =>
+    (items || []).map((item) => toHistoryEntry(map(item), item, dates));
+
+  // Shareholders and partners: one history entry per change of held shares
+  const legalForm = currentValue(dzial1.danePodmiotu.formaPrawna)?.formaPrawna ?? "";
+  const shareholders = SHAREHOLDER_SECTIONS.flatMap(([section, sectionRole]) =>
+    (dzial1[section] || []).flatMap((s) => {
+      const fullName = personName(s);
+      const name = fullName ?? currentValue(s.nazwa)?.nazwa;
+      if (!name) return [];
+
+      const liabilityCap = currentValue(s.sumaKomandytowa)?.sumaKomandytowa;
+      const role = sectionRole ?? partnerRole(legalForm, !!liabilityCap);
+      const identity = fullName
+        ? { kind: "person" as const, name, birthDate: personBirthDate(s) }
+        : {
+            kind: "entity" as const,
+            name,
+            krs: currentValue(s.krs)?.krs?.krs || null,
+            regon: currentValue(s.identyfikator)?.identyfikator?.regon || null,
+          };
+      const soleShareholder =
+        !!currentValue(s.czyPosiadaCaloscUdzialow)?.czyPosiadaCaloscUdzialow ||
+        role === "sole_shareholder";
+
+      const shares = s.posiadaneUdzialy?.length
+        ? s.posiadaneUdzialy
+        : [
+            {
+              posiadaneUdzialy: liabilityCap
+                ? `Suma komandytowa: ${liabilityCap}`
+                : "Brak danych",
+              nrWpisuWprow: s.nrWpisuWprow,
+            },
+          ];
+      return shares.map((u) =>
+        toHistoryEntry<Shareholder>(
+          {
+            ...identity,
+            role,
+            shares: u.posiadaneUdzialy || "Brak danych",
+            soleShareholder,
+            ...shareFields(u.posiadaneUdzialy || ""),
+          },
+          narrowRange(s, u),
+          dates
+        )
+      );
+    })
+  );
+
+  // Organ members: one history entry per change of function
+  const trackMembers = (persons: KrsFullOrganMember[], fallbackFunction: string) =>
+    persons.flatMap((m) => {
+      const name = personName(m);
+      if (!name) return [];
+      const birthDate = personBirthDate(m);
+      const functions = m.funkcjaWOrganie?.length
+        ? m.funkcjaWOrganie
+        : [{ funkcjaWOrganie: fallbackFunction, nrWpisuWprow: m.nrWpisuWprow }];
+      return functions.map((f) =>
+        toHistoryEntry(
+          { name, function: f.funkcjaWOrganie || fallbackFunction, birthDate },
+          narrowRange(m, f),
+          dates
+        )
+      );
+    });
+
+  const representation = dzial2?.reprezentacja;
+  const supervisoryOrgans = dzial2?.organNadzoru || [];
+
+  // Proxies: one history entry per change of prokura type
+  const proxies = (dzial2?.prokurenci || []).flatMap((p) => {
+    const name = personName(p);
+    if (!name) return [];
+    const birthDate = personBirthDate(p);
+    const types = p.rodzajProkury?.length
+      ? p.rodzajProkury
+      : [{ rodzajProkury: "Brak danych", nrWpisuWprow: p.nrWpisuWprow }];
+    return types.map((t) =>
+      toHistoryEntry(
+        { name, type: t.rodzajProkury || "Brak danych", birthDate },
+        narrowRange(p, t),
+        dates
+      )
+    );
+  });
+
+  // Branches: one history entry per branch (latest name and address)
+  const branches = (dzial1.jednostkiTerenoweOddzialy || []).flatMap((b) => {
+    const name = currentValue(b.nazwa)?.nazwa;
+    if (!name) return [];
+    const address = buildAddress(currentValue(b.siedziba), currentValue(b.adres));
+    return [toHistoryEntry({ name, address }, b, dates)];
+  });
+
+  const activity = (a: KrsPkdItem) => buildActivity(buildPkdCode(a), a.opis);
+
+  return {
+    entries,
+    names: track(dzial1.danePodmiotu.nazwa, (n) => n.nazwa),
+    legalForms: track(dzial1.danePodmiotu.formaPrawna, (f) => f.formaPrawna),
+    identifiers: track(dzial1.danePodmiotu.identyfikatory, (i) => ({
+      nip: i.identyfikatory?.nip || null,
+      regon: i.identyfikatory?.regon || null,
+    })),
+    seats: track(dzial1.siedzibaIAdres?.siedziba, buildSeat),
+    addresses: track(dzial1.siedzibaIAdres?.adres, buildStreetAddress),
+    emails: track(
+      dzial1.siedzibaIAdres?.adresPocztyElektronicznej,
+      (e) => e.adresPocztyElektronicznej
+    ),
+    websites: track(
+      dzial1.siedzibaIAdres?.adresStronyInternetowej,
+      (w) => w.adresStronyInternetowej
+    ),
+    branches,
+    capital: track(dzial1.kapital?.wysokoscKapitaluZakladowego, buildCapital),
+    shareholders,
+    representation: {
+      organNames: track(representation?.nazwaOrganu, (o) => o.nazwaOrganu),
+      methods: track(representation?.sposobReprezentacji, (s) => s.sposobReprezentacji),
+      members: trackMembers(representation?.sklad || [], "Brak danych"),
+    },
+    supervisoryBoard: {
+      organNames: supervisoryOrgans.flatMap((o) => track(o.nazwa, (n) => n.nazwa)),
+      members: trackMembers(
+        supervisoryOrgans.flatMap((o) => o.sklad || []),
+        "CZŁONEK"
+      ),
+    },
+    proxies,
+    proceedings: PROCEEDING_SECTIONS.flatMap(([section, kind]) =>
+      track(dzial6?.[section], (p) => buildProceeding(p, kind))
+    ),
+    debts: DEBT_SECTIONS.flatMap(([section, kind]) =>
+      track(dzial4?.[section], (d) => buildDebtEntry(d, kind))
+    ),
+    filings: FILING_SECTIONS.flatMap(([section, kind]) =>
+      track(dzial3?.wzmiankiOZlozonychDokumentach?.[section], (f) => buildFiling(f, kind))
+    ),
+    mainActivities: track(
+      dzial3?.przedmiotDzialalnosci?.przedmiotPrzewazajacejDzialalnosci,
+      activity
+    ),
+    otherActivities: track(
+      dzial3?.przedmiotDzialalnosci?.przedmiotPozostalejDzialalnosci,
+      activity
+    ),
+  };
+}
+
+/**
+ * Registry state of a company (CompanyData without header and meta fields)
+ */
+export type CompanyState = Omit<
+  CompanyData,
+  | "krs"
+  | "registry"
+  | "nonProfit"
+  | "lineage"
+  | "filingStatus"
+  | "registrationDate"
+  | "registrationDateRaw"
+  | "lastUpdate"
+  | "lastUpdateRaw"
+  | "dataTimestamp"
+  | "dataTimestampRaw"
+  | "registryCourt"
+  | "lastEntryNumber"
+  | "lastEntries"
+  | "schemaVersion"
+  | "history"
+>;
+
+/**
+ * Rebuild the company state as it stood right after the given entry
+ */
+export function snapshotAt(history: CompanyHistory, entryNumber: number): CompanyState {
+  const at = <T>(items: HistoryEntry<T>[]) => valuesAt(items, entryNumber);
+  const latest = <T>(items: HistoryEntry<T>[]) => {
+    const values = at(items);
+    return values[values.length - 1];
+  };
+
+  const seat = latest(history.seats);
+  const address = latest(history.addresses);
+  const identifiers = latest(history.identifiers);
+  const representation = {
+    organName: latest(history.representation.organNames) ?? "ZARZĄD",
+    method: latest(history.representation.methods) ?? "Brak danych",
+    members: at(history.representation.members),
+  };
+  const supervisoryOrganName = latest(history.supervisoryBoard.organNames);
+  const capital = latest(history.capital) ?? null;
+  const legalForm = latest(history.legalForms) ?? "";
+
+  return {
+    name: latest(history.names) ?? "",
+    nip: identifiers?.nip ?? null,
+    regon: identifiers?.regon ?? null,
+    legalForm,
+    legalFormInfo: classifyLegalForm(legalForm),
+    // Empty defaults when the extract has no seat or address yet
+    address: {
+      ...buildSeat(undefined),
+      ...buildStreetAddress(undefined),
+      ...seat,
+      ...address,
+    },
+    contact: {
+      email: latest(history.emails) ?? null,
+      website: latest(history.websites) ?? null,
+    },
+    branches: at(history.branches),
+    capital,
+    shareholders: withOwnership(at(history.shareholders), capital),
+    representation,
+    // The full extract is read as a single representation organ
+    representationOrgans: [representation],
+    supervisoryBoard: supervisoryOrganName
+      ? {
+          organName: supervisoryOrganName,
+          members: at(history.supervisoryBoard.members),
+        }
+      : null,
+    proxies: at(history.proxies),
+    // Deregistration is only known from the extract header
+    status: deriveStatus(at(history.proceedings), at(history.debts), null),
+    filings: at(history.filings),
+    mainActivity: at(history.mainActivities),
+    otherActivities: at(history.otherActivities),
+  };
+}
+
+/**
+ * Values in force right after the given entry, in registry order
+ */
+export function valuesAt<T>(items: HistoryEntry<T>[], entryNumber: number): T[] {
+  return entriesAt(items, entryNumber).map((item) => item.value);
+}
+
+/**
+ * History entries in force right after the given entry, in registry order
+ */
+export function entriesAt<T>(
+  items: HistoryEntry<T>[],
+  entryNumber: number
+): HistoryEntry<T>[] {
+  return items.filter(
+    (item) =>
+      item.introducedIn <= entryNumber &&
+      (item.removedIn === null || item.removedIn > entryNumber)
+  );
+}
+
+/**
+ * Rebuild company data as it stood on a given date
+ *
+ * Uses the last entry made on or before `date` and lists the entries that
+ * introduced each value shown, so the answer can be traced back to the
+ * registry.
+ *
+ * @param full - Company data from a full extract (must include `history`)
+ * @param date - ISO 8601 date (yyyy-mm-dd)
+ * @throws Error if the history is missing or the company was not yet registered
+ */
+export function companyAsOf(full: CompanyData, date: string): CompanyData {
+  const history = full.history;
+  if (!history) {
+    throw new Error("Point-in-time queries require the full extract");
+  }
+
+  const entry = [...history.entries]
+    .reverse()
+    .find((e) => {
+      const entryDate = toIsoDate(e.date);
+      return entryDate !== null && entryDate <= date;
+    });
+  if (!entry) {
+    throw new Error(
+      `Company with KRS ${full.krs} was not registered on ${date}`
+    );
+  }
+
+  const inForce = [
+    history.names,
+    history.legalForms,
+    history.identifiers,
+    history.seats,
+    history.addresses,
+    history.emails,
+    history.websites,
+    history.branches,
+    history.capital,
+    history.shareholders,
+    history.representation.organNames,
+    history.representation.methods,
+    history.representation.members,
+    history.supervisoryBoard.organNames,
+    history.supervisoryBoard.members,
+    history.proxies,
+    history.proceedings,
+    history.debts,
+    history.filings,
+    history.mainActivities,
+    history.otherActivities,
+  ].flatMap((items: HistoryEntry<unknown>[]) => entriesAt(items, entry.number));
+
+  const basedOnEntries = [...new Set(inForce.map((e) => e.introducedIn))].sort(
+    (a, b) => a - b
+  );
+
+  // Deregistration applies once its date has passed
+  const state = snapshotAt(history, entry.number);
+  const deregisteredOn =
+    full.status.code === "deregistered" ? toIsoDate(full.status.since) : null;
+
+  return {
+    ...state,
+    status:
+      deregisteredOn && deregisteredOn <= date ? full.status : state.status,
+    filingStatus: summarizeFilings(
+      state.filings,
+      full.registrationDate,
+      date,
+      state.legalFormInfo.filesFinancialStatements
+    ),
+    // Links dated after the requested date did not exist yet
+    lineage: full.lineage.filter((link) => {
+      const linkDate = toIsoDate(link.date);
+      return linkDate === null || linkDate <= date;
+    }),
+    krs: full.krs,
+    registry: full.registry,
+    nonProfit: full.nonProfit,
+    registrationDate: full.registrationDate,
+    registrationDateRaw: full.registrationDateRaw,
+    lastUpdate: date,
+    lastUpdateRaw: date,
+    dataTimestamp: full.dataTimestamp,
+    dataTimestampRaw: full.dataTimestampRaw,
+    registryCourt: entry.court ?? full.registryCourt,
+    lastEntryNumber: entry.number,
+    lastEntries: history.entries
+      .filter((e) => e.number <= entry.number)
+      .slice(-LAST_ENTRIES_SHOWN),
+    schemaVersion: full.schemaVersion,
+    asOf: {
+      date,
+      entryNumber: entry.number,
+      entryDate: entry.date,
+      basedOnEntries,
+    },
+  };
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+/**
+ * Value still in force (not removed by a later entry), or the last one recorded
+ */
+function currentValue<T>(items: KrsHistorical<T> | undefined): T | undefined {
+  if (!items?.length) return undefined;
+  return [...items].reverse().find((item) => !item.nrWpisuWykr) ?? items[items.length - 1];
+}
+
+function toHistoryEntry<T>(
+  value: T,
+  ref: KrsEntryRef,
+  dates: Map<number, string>
+): HistoryEntry<T> {
+  const introducedIn = parseEntryNumber(ref.nrWpisuWprow);
+  const removedIn = ref.nrWpisuWykr ? parseEntryNumber(ref.nrWpisuWykr) : null;
+  return {
+    value,
+    introducedIn,
+    introducedOn: dates.get(introducedIn) ?? null,
+    removedIn,
+    removedOn: removedIn !== null ? dates.get(removedIn) ?? null : null,
+  };
+}
+
+/**
+ * Intersect the range of a person with the range of one of their attributes
+ */
+function narrowRange(outer: KrsEntryRef, inner: KrsEntryRef): KrsEntryRef {
+  const introduced = Math.max(
+    parseEntryNumber(outer.nrWpisuWprow),
+    parseEntryNumber(inner.nrWpisuWprow)
+  );
+  const removals = [outer.nrWpisuWykr, inner.nrWpisuWykr]
+    .filter((n): n is string => !!n)
+    .map(parseEntryNumber);
+  return {
+    nrWpisuWprow: String(introduced),
+    nrWpisuWykr: removals.length > 0 ? String(Math.min(...removals)) : undefined,
+  };
+}
+
+/**
+ * Latest recorded name of a person (name corrections are rare, so the
+ * current spelling is used across the whole timeline)
+ */
+function personName(
+  person: Partial<Pick<KrsFullPerson, "nazwisko" | "imiona">>
+): string | null {
+  const firstName = person.imiona?.[person.imiona.length - 1]?.imiona?.imie;
+  const surname = person.nazwisko?.[person.nazwisko.length - 1]?.nazwisko?.nazwisko;
+  if (!firstName || !surname) return null;
+  return buildPersonName(firstName, surname);
+}
+
+/**
+ * Birth date of a person, from the latest recorded PESEL when not masked
+ */
+function personBirthDate(person: Pick<KrsFullPerson, "identyfikator">): string | null {
+  const identifiers = person.identyfikator;
+  return birthDateFromPesel(identifiers?.[identifiers.length - 1]?.identyfikator?.pesel);
+}
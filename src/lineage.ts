@@ -0,0 +1,200 @@
+/**
+ * Company Lineage Tracer
+ *
+ * Follows merger, division and conversion links between KRS entities to
+ * trace a company back to its origins (or forward to its successors).
+ * Every linked entity is fetched through KrsClient, so lookups are cached
+ * and indexed like any other.
+ */
+
+import type {
+  CompanyData,
+  CompanyStatusCode,
+  LineageEvent,
+  LineageLink,
+} from "./types.js";
+import { KrsClient, LINEAGE_EVENT_LABELS, STATUS_LABELS } from "./krs-client.js";
+
+/** Maximum number of link levels followed from the starting company */
+export const MAX_LINEAGE_DEPTH = 5;
+
+export type LineageDirection = "predecessors" | "successors" | "both";
+
+/**
+ * Company visited while tracing
+ */
+export interface LineageNode {
+  krs: string;
+  name: string | null;
+  legalForm: string | null;
+  status: CompanyStatusCode | null;
+  /** Number of links from the starting company */
+  depth: number;
+  /** Lookup error (the chain is not followed past this node) */
+  error: string | null;
+}
+
+/**
+ * Predecessor -> successor relation between two entities
+ */
+export interface LineageEdge {
+  predecessor: { krs: string | null; name: string | null };
+  successor: { krs: string | null; name: string | null };
+  event: LineageEvent;
+  date: string | null;
+}
+
+/**
+ * Result of a lineage trace
+ */
+export interface LineageTrace {
+  root: string;
+  direction: LineageDirection;
+  maxDepth: number;
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+  /** Links left unexplored because the depth limit was reached */
+  truncated: boolean;
+}
+
+/**
+ * Walk lineage links breadth-first from a company
+ *
+ * Each KRS number is fetched at most once, so cycles (e.g. a successor
+ * listing its predecessor) end the walk instead of looping. Entities
+ * without a KRS number appear in edges but are not followed.
+ *
+ * @param client - KRS client used to fetch linked companies
+ * @param krs - 10-digit KRS number of the starting company
+ * @param direction - Which links to follow
+ * @param maxDepth - Number of link levels to follow (capped at MAX_LINEAGE_DEPTH)
+ * @throws Error if the starting company cannot be fetched
+ */
+export async function traceLineage(
+  client: KrsClient,
+  krs: string,
+  direction: LineageDirection = "predecessors",
+  maxDepth = 3
+): Promise<LineageTrace> {
+  const depthLimit = Math.min(MAX_LINEAGE_DEPTH, Math.max(1, maxDepth));
+  const follows = (link: LineageLink) =>
+    direction === "both" ||
+    (direction === "predecessors" && link.direction === "predecessor") ||
+    (direction === "successors" && link.direction === "successor");
+
+  const nodes: LineageNode[] = [];
+  const edges = new Map<string, LineageEdge>();
+  const visited = new Set<string>([krs]);
+  let queue: Array<{ krs: string; depth: number }> = [{ krs, depth: 0 }];
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const next: typeof queue = [];
+
+    for (const item of queue) {
+      let company: CompanyData;
+      try {
+        company = await client.getCompany(item.krs);
+      } catch (error) {
+        // The starting company must exist; linked ones may be unavailable
+        if (item.depth === 0) throw error;
+        nodes.push({
+          krs: item.krs,
+          name: null,
+          legalForm: null,
+          status: null,
+          depth: item.depth,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      nodes.push({
+        krs: item.krs,
+        name: company.name,
+        legalForm: company.legalForm,
+        status: company.status.code,
+        depth: item.depth,
+        error: null,
+      });
+
+      for (const link of company.lineage.filter(follows)) {
+        const self = { krs: item.krs, name: company.name };
+        const other = { krs: link.krs, name: link.name };
+        const edge: LineageEdge =
+          link.direction === "predecessor"
+            ? { predecessor: other, successor: self, event: link.event, date: link.date }
+            : { predecessor: self, successor: other, event: link.event, date: link.date };
+        const key = [
+          edge.predecessor.krs ?? edge.predecessor.name,
+          edge.successor.krs ?? edge.successor.name,
+          edge.event,
+        ].join("|");
+        if (!edges.has(key)) edges.set(key, edge);
+
+        if (!link.krs || visited.has(link.krs)) continue;
+        if (item.depth + 1 > depthLimit) {
+          truncated = true;
+          continue;
+        }
+        visited.add(link.krs);
+        next.push({ krs: link.krs, depth: item.depth + 1 });
+      }
+    }
+
+    queue = next;
+  }
+
+  return {
+    root: krs,
+    direction,
+    maxDepth: depthLimit,
+    nodes,
+    edges: [...edges.values()],
+    truncated,
+  };
+}
+
+/**
+ * Format a lineage trace as text for non-UI hosts
+ */
+export function formatLineageAsText(trace: LineageTrace): string {
+  const lines: string[] = [];
+  const label = (entity: { krs: string | null; name: string | null }) =>
+    [entity.name, entity.krs ? `KRS ${entity.krs}` : ""].filter(Boolean).join(", ") ||
+    "brak danych";
+
+  lines.push(`🧬 Rodowód KRS ${trace.root} (głębokość do ${trace.maxDepth})`);
+  lines.push("");
+
+  lines.push("Podmioty:");
+  for (const node of trace.nodes) {
+    const indent = "   ".repeat(node.depth + 1);
+    if (node.error) {
+      lines.push(`${indent}• KRS ${node.krs} - błąd: ${node.error}`);
+      continue;
+    }
+    const status = node.status ? `, ${STATUS_LABELS[node.status]}` : "";
+    lines.push(`${indent}• ${node.name} (KRS ${node.krs}, ${node.legalForm}${status})`);
+  }
+  lines.push("");
+
+  if (trace.edges.length === 0) {
+    lines.push("Brak wpisów o połączeniach, podziałach lub przekształceniach.");
+  } else {
+    lines.push("Powiązania (poprzednik → następca):");
+    for (const edge of trace.edges) {
+      const date = edge.date ? `, ${edge.date}` : "";
+      lines.push(
+        `   • ${label(edge.predecessor)} → ${label(edge.successor)} (${LINEAGE_EVENT_LABELS[edge.event]}${date})`
+      );
+    }
+  }
+
+  if (trace.truncated) {
+    lines.push("");
+    lines.push(`⚠️ Osiągnięto limit głębokości (${trace.maxDepth}) - łańcuch może być dłuższy.`);
+  }
+
+  return lines.join("\n");
+}
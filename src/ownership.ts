@@ -0,0 +1,400 @@
+/**
+ * Ownership Graph
+ *
+ * Follows shareholders that are themselves KRS companies, level by level,
+ * and builds the ownership graph above a company. Effective (indirect)
+ * ownership of every natural person at the top of a chain is the sum, over
+ * all chains, of the product of the percentages along the chain - the
+ * figure used in ultimate beneficial owner (UBO) checks.
+ *
+ * Every shareholder company is fetched through KrsClient, so lookups are
+ * cached and indexed like any other.
+ */
+
+import type { CompanyData, Shareholder, ShareholderRole } from "./types.js";
+import { KrsClient } from "./krs-client.js";
+import { mapWithConcurrency } from "./helpers/concurrency.js";
+
+/** Maximum number of ownership levels followed above the starting company */
+export const MAX_OWNERSHIP_DEPTH = 5;
+
+/** Maximum number of companies fetched in one traversal */
+export const MAX_OWNERSHIP_COMPANIES = 50;
+
+/** Maximum number of shareholder companies fetched at the same time */
+export const MAX_OWNERSHIP_CONCURRENCY = 5;
+
+/** Effective ownership above which a person counts as a beneficial owner (AML act) */
+export const UBO_THRESHOLD_PERCENT = 25;
+
+/**
+ * Company, person or entity in the ownership graph
+ *
+ * Companies are identified by KRS number; people and entities without a
+ * KRS number by their name ("person:..." / "entity:...").
+ */
+export interface OwnershipNode {
+  id: string;
+  kind: "company" | "person" | "entity";
+  name: string | null;
+  krs: string | null;
+  /** Birth date of a person, when the extract shows PESEL */
+  birthDate: string | null;
+  legalForm: string | null;
+  /** Levels above the starting company (0 for the company itself) */
+  depth: number;
+  /** Lookup error (shareholders of this company are unknown) */
+  error: string | null;
+}
+
+/**
+ * Shareholding of an owner in a company
+ */
+export interface OwnershipEdge {
+  /** Owner node id */
+  from: string;
+  /** Owned company node id (KRS number) */
+  to: string;
+  role: ShareholderRole;
+  shares: string;
+  /** Share of capital in percent (null if the extract does not allow computing it) */
+  percentage: number | null;
+}
+
+/**
+ * Chain of holdings from an owner down to the starting company
+ */
+export interface OwnershipPath {
+  /** Node ids from the owner down to the starting company */
+  nodes: string[];
+  /** Product of the percentages along the chain (null if any is unknown) */
+  percentage: number | null;
+}
+
+/**
+ * Owner at the top of one or more chains
+ */
+export interface UltimateOwner {
+  id: string;
+  name: string;
+  birthDate: string | null;
+  /** Sum over the chains with known percentages */
+  effectivePercentage: number;
+  /** False when some chain has an unknown percentage (the sum is a lower bound) */
+  complete: boolean;
+  /** effectivePercentage exceeds UBO_THRESHOLD_PERCENT */
+  aboveThreshold: boolean;
+  paths: OwnershipPath[];
+}
+
+/**
+ * Owner entity the chain could not be followed through
+ */
+export interface UnresolvedOwner {
+  id: string;
+  name: string | null;
+  reason: "no_krs" | "depth_limit" | "company_limit" | "lookup_error" | "no_shareholders";
+  effectivePercentage: number;
+  complete: boolean;
+}
+
+/**
+ * Result of an ownership traversal
+ */
+export interface OwnershipGraph {
+  root: string;
+  maxDepth: number;
+  nodes: OwnershipNode[];
+  edges: OwnershipEdge[];
+  beneficialOwners: UltimateOwner[];
+  unresolved: UnresolvedOwner[];
+  /** Companies left unfetched because of the depth or company limit */
+  truncated: boolean;
+  /** True when companies hold shares in each other (such chains are not followed around) */
+  cycles: boolean;
+}
+
+/**
+ * Build the ownership graph above a company
+ *
+ * Walks breadth-first: every shareholder with a KRS number is fetched once
+ * (at most `concurrency` at a time), so cross-holdings end the walk instead
+ * of looping.
+ *
+ * @param client - KRS client used to fetch shareholder companies
+ * @param krs - 10-digit KRS number of the starting company
+ * @param maxDepth - Ownership levels to follow (capped at MAX_OWNERSHIP_DEPTH)
+ * @param concurrency - Parallel fetches (capped at MAX_OWNERSHIP_CONCURRENCY)
+ * @throws Error if the starting company cannot be fetched
+ */
+export async function buildOwnershipGraph(
+  client: KrsClient,
+  krs: string,
+  maxDepth = 3,
+  concurrency = 3
+): Promise<OwnershipGraph> {
+  const depthLimit = Math.min(MAX_OWNERSHIP_DEPTH, Math.max(1, maxDepth));
+  const parallel = Math.min(MAX_OWNERSHIP_CONCURRENCY, Math.max(1, concurrency));
+
+  const nodes = new Map<string, OwnershipNode>();
+  const edges: OwnershipEdge[] = [];
+  const stops = new Map<string, UnresolvedOwner["reason"]>();
+  const visited = new Set<string>([krs]);
+  let queue = [{ krs, depth: 0 }];
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const fetched = await mapWithConcurrency(queue, parallel, async (item) => {
+      try {
+        return { ...item, company: await client.getCompany(item.krs), error: null };
+      } catch (error) {
+        // The starting company must exist; shareholder companies may be unavailable
+        if (item.depth === 0) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        return { ...item, company: null, error: message };
+      }
+    });
+
+    const next: typeof queue = [];
+    for (const { krs: itemKrs, depth, company, error } of fetched) {
+      nodes.set(itemKrs, companyNode(itemKrs, depth, company, error));
+      if (!company) {
+        stops.set(itemKrs, "lookup_error");
+        continue;
+      }
+      if (company.shareholders.length === 0) stops.set(itemKrs, "no_shareholders");
+
+      for (const holder of company.shareholders) {
+        const id = ownerId(holder);
+        edges.push({
+          from: id,
+          to: itemKrs,
+          role: holder.role,
+          shares: holder.shares,
+          percentage: holder.percentage,
+        });
+        if (holder.kind === "person" || !holder.krs) {
+          if (!nodes.has(id)) nodes.set(id, ownerNode(id, holder, depth + 1));
+          if (holder.kind === "entity") stops.set(id, "no_krs");
+          continue;
+        }
+        if (visited.has(holder.krs)) continue;
+        const limit =
+          depth + 1 > depthLimit
+            ? "depth_limit"
+            : visited.size >= MAX_OWNERSHIP_COMPANIES
+              ? "company_limit"
+              : null;
+        if (limit) {
+          truncated = true;
+          if (!nodes.has(id)) nodes.set(id, ownerNode(id, holder, depth + 1));
+          stops.set(id, limit);
+          continue;
+        }
+        visited.add(holder.krs);
+        next.push({ krs: holder.krs, depth: depth + 1 });
+      }
+    }
+
+    queue = next;
+  }
+
+  const { owners, cycles } = collectChains(krs, nodes, edges);
+  const beneficialOwners: UltimateOwner[] = [];
+  const unresolved: UnresolvedOwner[] = [];
+  for (const [id, paths] of owners) {
+    const node = nodes.get(id)!;
+    const effective = round(paths.reduce((sum, p) => sum + (p.percentage ?? 0), 0));
+    const complete = paths.every((p) => p.percentage !== null);
+    if (node.kind === "person") {
+      beneficialOwners.push({
+        id,
+        name: node.name ?? "",
+        birthDate: node.birthDate,
+        effectivePercentage: effective,
+        complete,
+        aboveThreshold: effective > UBO_THRESHOLD_PERCENT,
+        paths,
+      });
+    } else {
+      unresolved.push({
+        id,
+        name: node.name,
+        reason: stops.get(id) ?? "no_shareholders",
+        effectivePercentage: effective,
+        complete,
+      });
+    }
+  }
+  beneficialOwners.sort((a, b) => b.effectivePercentage - a.effectivePercentage);
+  unresolved.sort((a, b) => b.effectivePercentage - a.effectivePercentage);
+
+  return {
+    root: krs,
+    maxDepth: depthLimit,
+    nodes: [...nodes.values()],
+    edges,
+    beneficialOwners,
+    unresolved,
+    truncated,
+    cycles,
+  };
+}
+
+/**
+ * Walk every chain from the starting company up to its top owners
+ *
+ * A company on the current chain is not entered again, so cross-holdings
+ * are reported (cycles) rather than followed around.
+ *
+ * @returns Chains per top owner: people, entities without a KRS number and
+ *          companies whose shareholders are unknown
+ */
+function collectChains(
+  root: string,
+  nodes: Map<string, OwnershipNode>,
+  edges: OwnershipEdge[]
+): { owners: Map<string, OwnershipPath[]>; cycles: boolean } {
+  const owners = new Map<string, OwnershipPath[]>();
+  const ownersOf = new Map<string, OwnershipEdge[]>();
+  for (const edge of edges) {
+    ownersOf.set(edge.to, [...(ownersOf.get(edge.to) ?? []), edge]);
+  }
+  let cycles = false;
+
+  const walk = (id: string, chain: string[], share: number | null) => {
+    const holdings = ownersOf.get(id) ?? [];
+    if (id !== root && holdings.length === 0) {
+      owners.set(id, [
+        ...(owners.get(id) ?? []),
+        { nodes: [...chain].reverse(), percentage: share === null ? null : round(share) },
+      ]);
+      return;
+    }
+    for (const edge of holdings) {
+      if (chain.includes(edge.from)) {
+        cycles = true;
+        continue;
+      }
+      const next =
+        share !== null && edge.percentage !== null ? (share * edge.percentage) / 100 : null;
+      walk(edge.from, [...chain, edge.from], next);
+    }
+  };
+
+  if (nodes.has(root)) walk(root, [root], 100);
+  return { owners, cycles };
+}
+
+function companyNode(
+  krs: string,
+  depth: number,
+  company: CompanyData | null,
+  error: string | null
+): OwnershipNode {
+  return {
+    id: krs,
+    kind: "company",
+    name: company?.name ?? null,
+    krs,
+    birthDate: null,
+    legalForm: company?.legalForm ?? null,
+    depth,
+    error,
+  };
+}
+
+function ownerNode(id: string, holder: Shareholder, depth: number): OwnershipNode {
+  return {
+    id,
+    kind: holder.kind === "person" ? "person" : holder.krs ? "company" : "entity",
+    name: holder.name,
+    krs: holder.kind === "entity" ? holder.krs : null,
+    birthDate: holder.kind === "person" ? holder.birthDate : null,
+    legalForm: null,
+    depth,
+    error: null,
+  };
+}
+
+function ownerId(holder: Shareholder): string {
+  if (holder.kind === "entity" && holder.krs) return holder.krs;
+  if (holder.kind === "person") return `person:${holder.name}|${holder.birthDate ?? ""}`;
+  return `entity:${holder.name}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Format an ownership graph as text for non-UI hosts
+ */
+export function formatOwnershipGraphAsText(graph: OwnershipGraph): string {
+  const lines: string[] = [];
+  const nodeLabel = (id: string) => {
+    const node = graph.nodes.find((n) => n.id === id);
+    if (!node) return id;
+    return node.krs ? `${node.name ?? "?"} (KRS ${node.krs})` : (node.name ?? id);
+  };
+  const percent = (value: number | null) => (value === null ? "?%" : `${value}%`);
+  const effective = (owner: { effectivePercentage: number; complete: boolean }) =>
+    owner.complete
+      ? `${owner.effectivePercentage}%`
+      : owner.effectivePercentage > 0
+        ? `co najmniej ${owner.effectivePercentage}%`
+        : "udział nieznany";
+
+  const root = graph.nodes.find((n) => n.id === graph.root);
+  lines.push(
+    `🕸️ Struktura własności: ${root?.name ?? graph.root} (KRS ${graph.root}, głębokość do ${graph.maxDepth})`
+  );
+  lines.push("");
+
+  lines.push("Udziały:");
+  for (const edge of graph.edges) {
+    lines.push(`   • ${nodeLabel(edge.from)} → ${nodeLabel(edge.to)}: ${percent(edge.percentage)}`);
+  }
+  for (const node of graph.nodes.filter((n) => n.error)) {
+    lines.push(`   ⚠️ ${nodeLabel(node.id)} - błąd: ${node.error}`);
+  }
+  lines.push("");
+
+  if (graph.beneficialOwners.length === 0) {
+    lines.push("Brak osób fizycznych na szczycie łańcuchów.");
+  } else {
+    lines.push(`Osoby fizyczne (udział pośredni i bezpośredni; próg UBO > ${UBO_THRESHOLD_PERCENT}%):`);
+    for (const owner of graph.beneficialOwners) {
+      lines.push(`   ${owner.aboveThreshold ? "🔴" : "•"} ${owner.name}: ${effective(owner)}`);
+      for (const path of owner.paths) {
+        lines.push(`      ${path.nodes.map(nodeLabel).join(" → ")} (${percent(path.percentage)})`);
+      }
+    }
+  }
+
+  if (graph.unresolved.length > 0) {
+    const reasons: Record<UnresolvedOwner["reason"], string> = {
+      no_krs: "brak numeru KRS",
+      depth_limit: "limit głębokości",
+      company_limit: `limit ${MAX_OWNERSHIP_COMPANIES} spółek`,
+      lookup_error: "błąd pobierania",
+      no_shareholders: "brak wspólników w odpisie",
+    };
+    lines.push("");
+    lines.push("Nieustaleni właściciele (łańcuch przerwany):");
+    for (const owner of graph.unresolved) {
+      lines.push(`   • ${nodeLabel(owner.id)}: ${effective(owner)} - ${reasons[owner.reason]}`);
+    }
+  }
+
+  if (graph.cycles) {
+    lines.push("");
+    lines.push("🔁 Wykryto udziały wzajemne (cykl) - nie są liczone wielokrotnie.");
+  }
+  if (graph.truncated) {
+    lines.push("");
+    lines.push("⚠️ Osiągnięto limit - struktura może sięgać wyżej.");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,378 @@
+/**
+ * Person Index (D1)
+ *
+ * Keeps the people listed in every extract the server has fetched: board
+ * and supervisory board members, proxies and shareholders. Used to answer
+ * "where else does this person hold a role?" - the KRS API itself cannot
+ * search by person.
+ *
+ * People are matched by name and, when the extract shows a PESEL, by birth
+ * date. Public extracts usually mask PESEL, so most matches are by name only
+ * and may mix up namesakes.
+ *
+ * Schema: migrations/0005_krs_person_roles.sql
+ */
+
+import type { CompanyData, HistoryEntry, PersonShareholder } from "./types.js";
+import { foldText } from "./helpers/krs-fields.js";
+
+/** Maximum number of roles returned by a lookup */
+export const MAX_PERSON_ROLES = 200;
+
+export type PersonRoleKind = "board" | "supervisory_board" | "proxy" | "shareholder";
+
+/**
+ * A role held by a person in one company
+ */
+export interface PersonRole {
+  krs: string;
+  companyName: string;
+  role: PersonRoleKind;
+  /** Function in the organ, prokura type or held shares */
+  function: string | null;
+  /** Organ name, e.g. "ZARZĄD" (board and supervisory board roles) */
+  organ: string | null;
+  /** Role start and end dates, known only from full extracts (ISO 8601) */
+  since: string | null;
+  until: string | null;
+  current: boolean;
+  /** Extract the role was read from */
+  source: "aktualny" | "pelny";
+}
+
+/**
+ * Roles of one person (a distinct name and birth date)
+ */
+export interface PersonRoles {
+  name: string;
+  birthDate: string | null;
+  roles: PersonRole[];
+}
+
+/**
+ * Result of a person lookup
+ */
+export interface PersonLookup {
+  query: { name: string; birthDate: string | null };
+  persons: PersonRoles[];
+  total: number;
+  truncated: boolean;
+  /** True when matches rely on the name alone and may mix up different people */
+  possibleNamesakes: boolean;
+}
+
+interface PersonRoleRow {
+  name: string;
+  birth_date: string | null;
+  krs: string;
+  company_name: string;
+  role: PersonRoleKind;
+  function: string | null;
+  organ: string | null;
+  since: string | null;
+  until: string | null;
+  current: number;
+  source: "aktualny" | "pelny";
+}
+
+type IndexedRole = Omit<PersonRoleRow, "krs" | "company_name" | "source">;
+
+export class PersonIndex {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Replace the indexed people of a fetched company
+   *
+   * A full extract replaces all rows of the company, with role dates. A
+   * current extract does not overwrite rows from a full extract of the same
+   * or a later entry, so their dates are kept.
+   */
+  async record(data: CompanyData): Promise<void> {
+    const source = data.history ? "pelny" : "aktualny";
+
+    if (source === "aktualny") {
+      const full = await this.db
+        .prepare(
+          `SELECT MAX(entry_number) AS entry_number FROM krs_person_roles
+           WHERE krs = ? AND source = 'pelny'`
+        )
+        .bind(data.krs)
+        .first<{ entry_number: number | null }>();
+      if (
+        full?.entry_number != null &&
+        data.lastEntryNumber !== null &&
+        full.entry_number >= data.lastEntryNumber
+      ) {
+        return;
+      }
+    }
+
+    const roles = data.history ? historicalRoles(data) : currentRoles(data);
+    const now = Date.now();
+    const insert = this.db.prepare(
+      `INSERT INTO krs_person_roles
+         (name_key, name, birth_date, krs, company_name, role, function, organ,
+          since, until, current, source, entry_number, fetched_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    await this.db.batch([
+      this.db.prepare(`DELETE FROM krs_person_roles WHERE krs = ?`).bind(data.krs),
+      ...roles.map((r) =>
+        insert.bind(
+          nameKey(r.name),
+          r.name,
+          r.birth_date,
+          data.krs,
+          data.name,
+          r.role,
+          r.function,
+          r.organ,
+          r.since,
+          r.until,
+          r.current,
+          source,
+          data.lastEntryNumber,
+          now
+        )
+      ),
+    ]);
+  }
+
+  /**
+   * Find the roles of a person across indexed companies
+   *
+   * Every word of the name must prefix-match a word of the person's name
+   * (any order, diacritics-insensitive). With a birth date, people with a
+   * different known birth date are excluded; people whose birth date is
+   * unknown are still listed.
+   *
+   * @throws Error if the name has no searchable words
+   */
+  async find(
+    name: string,
+    birthDate?: string,
+    limit: number = MAX_PERSON_ROLES
+  ): Promise<PersonLookup> {
+    const words = nameWords(name);
+    if (words.length === 0) {
+      throw new Error("Provide a person name to search for");
+    }
+
+    const conditions = words.map(() => `name_key LIKE ?`);
+    const params: (string | number)[] = words.map((w) => `% ${w}%`);
+    if (birthDate) {
+      conditions.push(`(birth_date = ? OR birth_date IS NULL)`);
+      params.push(birthDate);
+    }
+    const max = Math.min(MAX_PERSON_ROLES, Math.max(1, limit));
+
+    const rows = await this.db
+      .prepare(
+        `SELECT name, birth_date, krs, company_name, role, function, organ,
+                since, until, current, source
+         FROM krs_person_roles
+         WHERE ${conditions.join(" AND ")}
+         ORDER BY name, birth_date, current DESC, company_name, since
+         LIMIT ?`
+      )
+      .bind(...params, max + 1)
+      .all<PersonRoleRow>();
+
+    const truncated = rows.results.length > max;
+    const persons = new Map<string, PersonRoles>();
+    for (const row of rows.results.slice(0, max)) {
+      const key = `${nameKey(row.name)}|${row.birth_date ?? ""}`;
+      const person = persons.get(key) ?? { name: row.name, birthDate: row.birth_date, roles: [] };
+      person.roles.push({
+        krs: row.krs,
+        companyName: row.company_name,
+        role: row.role,
+        function: row.function,
+        organ: row.organ,
+        since: row.since,
+        until: row.until,
+        current: row.current === 1,
+        source: row.source,
+      });
+      persons.set(key, person);
+    }
+
+    const found = [...persons.values()];
+    return {
+      query: { name, birthDate: birthDate ?? null },
+      persons: found,
+      total: Math.min(rows.results.length, max),
+      truncated,
+      possibleNamesakes: found.length > 1 || found.some((p) => p.birthDate === null),
+    };
+  }
+}
+
+const ROLE_LABELS: Record<PersonRoleKind, string> = {
+  board: "Organ reprezentacji",
+  supervisory_board: "Organ nadzoru",
+  proxy: "Prokurent",
+  shareholder: "Wspólnik",
+};
+
+/**
+ * Format a person lookup as text for non-UI hosts
+ */
+export function formatPersonLookupAsText(lookup: PersonLookup): string {
+  const lines: string[] = [];
+
+  lines.push(
+    `👤 ${lookup.query.name}` +
+      (lookup.query.birthDate ? ` (ur. ${lookup.query.birthDate})` : "") +
+      `: ${lookup.total} ról w ${lookup.persons.length} dopasowaniach` +
+      (lookup.truncated ? " (lista skrócona)" : "")
+  );
+  if (lookup.persons.length === 0) {
+    lines.push("   Brak tej osoby w spółkach pobranych dotąd przez serwer.");
+    return lines.join("\n");
+  }
+  if (lookup.possibleNamesakes) {
+    lines.push("⚠️ Dopasowanie po imieniu i nazwisku - mogą to być różne osoby.");
+  }
+
+  for (const person of lookup.persons) {
+    lines.push("");
+    lines.push(`• ${person.name}` + (person.birthDate ? ` (ur. ${person.birthDate})` : ""));
+    for (const r of person.roles) {
+      const label = r.organ ?? ROLE_LABELS[r.role];
+      const period =
+        r.since || r.until
+          ? ` [${r.since ?? "?"} - ${r.current ? "obecnie" : (r.until ?? "?")}]`
+          : r.current
+            ? ""
+            : " [w przeszłości]";
+      lines.push(
+        `   ${r.current ? "✅" : "⏹️"} ${r.companyName} (KRS ${r.krs}) - ${label}` +
+          (r.function ? `: ${r.function}` : "") +
+          period
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Roles listed in a current extract
+ */
+function currentRoles(data: CompanyData): IndexedRole[] {
+  const roles: IndexedRole[] = [];
+  const add = (
+    role: PersonRoleKind,
+    person: { name: string; birthDate: string | null },
+    fn: string | null,
+    organ: string | null
+  ) =>
+    roles.push({
+      name: person.name,
+      birth_date: person.birthDate,
+      role,
+      function: fn,
+      organ,
+      since: null,
+      until: null,
+      current: 1,
+    });
+
+  for (const organ of data.representationOrgans ?? [data.representation]) {
+    for (const m of organ.members) add("board", m, m.function, organ.organName);
+  }
+  for (const m of data.supervisoryBoard?.members ?? []) {
+    add("supervisory_board", m, m.function, data.supervisoryBoard?.organName ?? null);
+  }
+  for (const p of data.proxies) add("proxy", p, p.type, null);
+  for (const s of data.shareholders) {
+    if (s.kind === "person") add("shareholder", s, s.shares, null);
+  }
+  return roles;
+}
+
+/**
+ * Roles recorded in a full extract, with start and end dates
+ *
+ * Shareholdings change with every share transfer, so the entries of each
+ * shareholder are merged into one role spanning all of them.
+ */
+function historicalRoles(data: CompanyData): IndexedRole[] {
+  const history = data.history!;
+  const latest = (entries: HistoryEntry<string>[]) => entries[entries.length - 1]?.value ?? null;
+  const boardOrgan = latest(history.representation.organNames) ?? data.representation.organName;
+  const supervisoryOrgan =
+    latest(history.supervisoryBoard.organNames) ?? data.supervisoryBoard?.organName ?? null;
+
+  const fromEntry = (
+    role: PersonRoleKind,
+    entry: HistoryEntry<{ name: string; birthDate: string | null }>,
+    fn: string | null,
+    organ: string | null
+  ): IndexedRole => ({
+    name: entry.value.name,
+    birth_date: entry.value.birthDate,
+    role,
+    function: fn,
+    organ,
+    since: entry.introducedOn,
+    until: entry.removedOn,
+    current: entry.removedIn === null ? 1 : 0,
+  });
+
+  const roles: IndexedRole[] = [
+    ...history.representation.members.map((e) =>
+      fromEntry("board", e, e.value.function, boardOrgan)
+    ),
+    ...history.supervisoryBoard.members.map((e) =>
+      fromEntry("supervisory_board", e, e.value.function, supervisoryOrgan)
+    ),
+    ...history.proxies.map((e) => fromEntry("proxy", e, e.value.type, null)),
+  ];
+
+  const shareholdings = new Map<string, HistoryEntry<PersonShareholder>[]>();
+  for (const entry of history.shareholders) {
+    const s = entry.value;
+    if (s.kind !== "person") continue;
+    shareholdings.set(s.name, [...(shareholdings.get(s.name) ?? []), { ...entry, value: s }]);
+  }
+  for (const entries of shareholdings.values()) {
+    const latestEntry = entries.reduce((a, b) => (b.introducedIn > a.introducedIn ? b : a));
+    const current = entries.some((e) => e.removedIn === null);
+    roles.push({
+      ...fromEntry("shareholder", latestEntry, latestEntry.value.shares, null),
+      birth_date: entries.find((e) => e.value.birthDate)?.value.birthDate ?? null,
+      since: minDate(entries.map((e) => e.introducedOn)),
+      until: current ? null : maxDate(entries.map((e) => e.removedOn)),
+      current: current ? 1 : 0,
+    });
+  }
+
+  return roles;
+}
+
+function minDate(dates: (string | null)[]): string | null {
+  const known = dates.filter((d): d is string => d !== null).sort();
+  return known[0] ?? null;
+}
+
+function maxDate(dates: (string | null)[]): string | null {
+  const known = dates.filter((d): d is string => d !== null).sort();
+  return known[known.length - 1] ?? null;
+}
+
+/**
+ * Folded name words ("Józef Łukasz" -> ["jozef", "lukasz"])
+ */
+function nameWords(name: string): string[] {
+  return foldText(name).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Order-independent name key (" lukasz jozef " for both orders)
+ */
+function nameKey(name: string): string {
+  return ` ${nameWords(name).sort().join(" ")} `;
+}
@@ -0,0 +1,122 @@
+/**
+ * PKD Code Lookup
+ *
+ * Explains a PKD code (hierarchy, names, equivalent in the other edition)
+ * or finds codes by keyword, using the offline dictionary.
+ */
+
+import type { PkdVersion } from "./types.js";
+import {
+  explainPkd,
+  normalizePkdCode,
+  searchPkd,
+  type PkdEntry,
+  type PkdExplanation,
+} from "./helpers/pkd.js";
+
+/** Maximum number of keyword matches returned */
+export const MAX_PKD_MATCHES = 50;
+
+/**
+ * Result of a PKD lookup
+ */
+export interface PkdLookup {
+  query: string;
+  /** The query was read as a code or as keywords */
+  kind: "code" | "keyword";
+  /** Code explained in each edition it is known in (code queries) */
+  explanations: PkdExplanation[];
+  /** Matching entries (keyword queries) */
+  matches: PkdEntry[];
+}
+
+/**
+ * Explain a code or search by keyword
+ *
+ * @param query - PKD code in any common notation ("62.01.Z", "6201Z", "J") or keywords
+ * @param version - Edition to use (default: both)
+ * @param limit - Maximum number of keyword matches (capped at MAX_PKD_MATCHES)
+ */
+export function lookupPkd(query: string, version?: PkdVersion, limit = 20): PkdLookup {
+  const code = normalizePkdCode(query);
+  if (code) {
+    const versions: PkdVersion[] = version ? [version] : ["2007", "2025"];
+    return {
+      query,
+      kind: "code",
+      explanations: versions
+        .map((v) => explainPkd(code, v))
+        .filter((e): e is PkdExplanation => e !== null),
+      matches: [],
+    };
+  }
+
+  return {
+    query,
+    kind: "keyword",
+    explanations: [],
+    matches: searchPkd(query, version, Math.min(MAX_PKD_MATCHES, Math.max(1, limit))),
+  };
+}
+
+const LEVEL_LABELS: Record<PkdEntry["level"], string> = {
+  section: "Sekcja",
+  division: "Dział",
+  group: "Grupa",
+  class: "Klasa",
+  subclass: "Podklasa",
+};
+
+/**
+ * Format a PKD lookup as text for non-UI hosts
+ */
+export function formatPkdLookupAsText(lookup: PkdLookup): string {
+  const lines: string[] = [];
+
+  if (lookup.kind === "keyword") {
+    lines.push(`🔎 Kody PKD dla "${lookup.query}" (${lookup.matches.length})`);
+    lines.push("");
+    if (lookup.matches.length === 0) {
+      lines.push("Brak pasujących kodów.");
+    }
+    for (const entry of lookup.matches) {
+      const en = entry.nameEn ? ` / ${entry.nameEn}` : "";
+      lines.push(
+        `   • PKD ${entry.version} ${entry.code} [${entry.section ?? "?"}] - ${entry.name}${en}`
+      );
+    }
+    return lines.join("\n");
+  }
+
+  lines.push(`📚 Kod PKD ${lookup.query}`);
+  if (lookup.explanations.length === 0) {
+    lines.push("");
+    lines.push("Kod nie występuje w słowniku PKD 2007 ani PKD 2025.");
+    lines.push("ℹ️ Słownik PKD 2007 obejmuje tylko sekcje, działy i wybrane podklasy.");
+  }
+
+  for (const explanation of lookup.explanations) {
+    lines.push("");
+    lines.push(`PKD ${explanation.version}:`);
+    for (const entry of explanation.hierarchy) {
+      const en = entry.nameEn ? ` (${entry.nameEn})` : "";
+      lines.push(`   ${LEVEL_LABELS[entry.level]} ${entry.code}: ${entry.name}${en}`);
+    }
+    if (!explanation.known) {
+      lines.push(
+        `   ${LEVEL_LABELS[explanation.level]} ${explanation.code}: brak w słowniku (pokazano poziomy nadrzędne)`
+      );
+    }
+    if (explanation.equivalents.length > 0) {
+      const other = explanation.version === "2007" ? "2025" : "2007";
+      lines.push(`   Odpowiedniki w PKD ${other}:`);
+      for (const eq of explanation.equivalents) {
+        lines.push(`     → ${eq.code} - ${eq.name}`);
+      }
+    } else if (explanation.level === "class" || explanation.level === "subclass") {
+      lines.push("   Brak odpowiednika w dołączonej tabeli powiązań.");
+    }
+  }
+
+  return lines.join("\n");
+}
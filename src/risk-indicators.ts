@@ -0,0 +1,353 @@
+/**
+ * Risk Indicators
+ *
+ * Rules engine for the red flags checked during due diligence: a very young
+ * company, recent board or address changes, minimal share capital, a sole
+ * shareholder running the company alone, liquidation or bankruptcy, missing
+ * financial statements and a frequently moved seat.
+ *
+ * Every rule looks at CompanyData only. Rules about changes need the change
+ * history of a full ("pelny") extract; without it they are listed as not
+ * assessed instead of being reported as clean.
+ */
+
+import type {
+  CompanyData,
+  CompanyHistory,
+  HistoryEntry,
+  RiskAssessment,
+  RiskIndicator,
+  RiskIndicatorCode,
+  RiskSeverity,
+} from "./types.js";
+import { PROCEEDING_LABELS, STATUS_LABELS } from "./krs-client.js";
+import { foldText } from "./helpers/krs-fields.js";
+
+/** Companies registered less than this many months ago are young */
+const YOUNG_COMPANY_MONTHS = 12;
+
+/** Companies registered less than this many months ago are flagged as high */
+const VERY_YOUNG_COMPANY_MONTHS = 3;
+
+/** Board and address changes within this many months are recent */
+const RECENT_CHANGE_MONTHS = 6;
+
+/** Seat changes are counted over this many months */
+const SEAT_CHANGE_WINDOW_MONTHS = 36;
+
+/** Seat changes within the window that make the seat frequently changed */
+const FREQUENT_SEAT_CHANGES = 2;
+
+/**
+ * Human-readable indicator names
+ */
+export const RISK_INDICATOR_LABELS: Record<RiskIndicatorCode, string> = {
+  young_company: "Młoda spółka",
+  recent_board_change: "Niedawna zmiana zarządu",
+  recent_address_change: "Niedawna zmiana adresu",
+  minimal_capital: "Minimalny kapitał zakładowy",
+  sole_shareholder_director: "Jedyny wspólnik jedynym członkiem zarządu",
+  liquidation_or_bankruptcy: "Likwidacja, upadłość lub restrukturyzacja",
+  missing_financial_statements: "Brak sprawozdań finansowych",
+  frequent_seat_changes: "Częste zmiany siedziby",
+};
+
+const SEVERITY_ORDER: Record<RiskSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+const SEVERITY_ICONS: Record<RiskSeverity, string> = {
+  high: "🔴",
+  medium: "🟠",
+  low: "🟡",
+};
+
+/**
+ * Facts a rule is evaluated against
+ */
+interface RiskContext {
+  data: CompanyData;
+  history: CompanyHistory | null;
+  /** Reference date (ISO 8601) */
+  today: string;
+  /** First registry entry; values introduced in it are not changes */
+  firstEntry: number;
+}
+
+interface RiskRule {
+  code: RiskIndicatorCode;
+  needsHistory: boolean;
+  /** Severity and evidence when the flag is raised, null otherwise */
+  check(context: RiskContext): { severity: RiskSeverity; evidence: string[] } | null;
+}
+
+const RULES: RiskRule[] = [
+  {
+    code: "young_company",
+    needsHistory: false,
+    check: ({ data, today }) => {
+      const registered = data.registrationDate;
+      if (!registered || registered <= monthsBefore(today, YOUNG_COMPANY_MONTHS)) return null;
+      return {
+        severity: registered > monthsBefore(today, VERY_YOUNG_COMPANY_MONTHS) ? "high" : "medium",
+        evidence: [`Zarejestrowana ${registered}`],
+      };
+    },
+  },
+  {
+    code: "recent_board_change",
+    needsHistory: true,
+    check: ({ history, today, firstEntry }) => {
+      const since = monthsBefore(today, RECENT_CHANGE_MONTHS);
+      const members = history?.representation.members ?? [];
+      const evidence: string[] = [];
+      for (const m of introducedSince(members, since, firstEntry)) {
+        evidence.push(
+          `Powołanie: ${m.value.name} (${m.value.function}) - ${m.introducedOn}, wpis ${m.introducedIn}`
+        );
+      }
+      for (const m of members) {
+        if (m.removedIn === null || !m.removedOn || m.removedOn < since) continue;
+        evidence.push(
+          `Odwołanie: ${m.value.name} (${m.value.function}) - ${m.removedOn}, wpis ${m.removedIn}`
+        );
+      }
+      if (evidence.length === 0) return null;
+
+      // Nobody on the current board was in office before the window
+      const current = members.filter((m) => m.removedIn === null);
+      const replaced =
+        current.length > 0 &&
+        introducedSince(current, since, firstEntry).length === current.length;
+      if (replaced) evidence.unshift("Cały obecny zarząd powołany w ostatnich miesiącach");
+      return { severity: replaced ? "high" : "medium", evidence };
+    },
+  },
+  {
+    code: "recent_address_change",
+    needsHistory: true,
+    check: ({ history, today, firstEntry }) => {
+      if (!history) return null;
+      const since = monthsBefore(today, RECENT_CHANGE_MONTHS);
+      const evidence = [
+        ...introducedSince(history.seats, since, firstEntry).map(
+          (e) => `Siedziba: ${e.value.city} od ${e.introducedOn}, wpis ${e.introducedIn}`
+        ),
+        ...introducedSince(history.addresses, since, firstEntry).map(
+          (e) =>
+            `Adres: ${e.value.street} ${e.value.building}` +
+            (e.value.unit ? `/${e.value.unit}` : "") +
+            `, ${e.value.postalCode} od ${e.introducedOn}, wpis ${e.introducedIn}`
+        ),
+      ];
+      return evidence.length > 0 ? { severity: "low", evidence } : null;
+    },
+  },
+  {
+    code: "minimal_capital",
+    needsHistory: false,
+    check: ({ data }) => {
+      const minimum = data.legalFormInfo.minimumCapital;
+      const capital = data.capital;
+      if (
+        !minimum ||
+        capital?.minorUnits == null ||
+        capital.currency !== minimum.currency ||
+        capital.minorUnits > minimum.amount * 100
+      ) {
+        return null;
+      }
+      return {
+        severity: "low",
+        evidence: [
+          `Kapitał ${capital.display} (minimum ustawowe ${minimum.amount} ${minimum.currency})`,
+        ],
+      };
+    },
+  },
+  {
+    code: "sole_shareholder_director",
+    needsHistory: false,
+    check: ({ data }) => {
+      const board = (data.representationOrgans ?? [data.representation]).flatMap(
+        (o) => o.members
+      );
+      const owners = data.shareholders.filter((s) => s.soleShareholder);
+      const owner =
+        owners.length === 1 ? owners[0] : data.shareholders.length === 1 ? data.shareholders[0] : null;
+      if (!owner || owner.kind !== "person" || board.length !== 1) return null;
+      if (nameKey(owner.name) !== nameKey(board[0].name)) return null;
+      return {
+        severity: "low",
+        evidence: [
+          `${owner.name}: jedyny wspólnik i jedyny członek zarządu (${board[0].function})`,
+        ],
+      };
+    },
+  },
+  {
+    code: "liquidation_or_bankruptcy",
+    needsHistory: false,
+    check: ({ data, history }) => {
+      const { status } = data;
+      const evidence: string[] = [];
+      if (status.code !== "active") {
+        evidence.push(
+          `Status: ${STATUS_LABELS[status.code]}` + (status.since ? ` od ${status.since}` : "")
+        );
+      }
+      for (const p of status.proceedings) {
+        evidence.push(
+          `${PROCEEDING_LABELS[p.kind]}` +
+            (p.startDate ? ` od ${p.startDate}` : "") +
+            (p.endDate ? `, zakończone ${p.endDate}` : ", w toku") +
+            (p.caseSignature ? ` (sygn. ${p.caseSignature})` : "")
+        );
+      }
+      // Proceedings deleted from the register are only visible in the history
+      for (const p of history?.proceedings ?? []) {
+        if (p.removedIn === null) continue;
+        evidence.push(
+          `${PROCEEDING_LABELS[p.value.kind]} (wpis ${p.introducedIn}, wykreślone wpisem ${p.removedIn})`
+        );
+      }
+      if (evidence.length === 0) return null;
+
+      const ongoing = status.code !== "active" || status.proceedings.some((p) => !p.endDate);
+      return { severity: ongoing ? "high" : "medium", evidence };
+    },
+  },
+  {
+    code: "missing_financial_statements",
+    needsHistory: false,
+    check: ({ data }) => {
+      const { filingStatus } = data;
+      if (!filingStatus?.missingPreviousYear) return null;
+      const last = filingStatus.lastStatementYear;
+      return {
+        severity: last === null || last < filingStatus.expectedYear - 1 ? "high" : "medium",
+        evidence: [
+          `Brak sprawozdania za rok ${filingStatus.expectedYear}`,
+          last !== null
+            ? `Ostatnie złożone: za rok ${last}`
+            : "Nie złożono żadnego sprawozdania finansowego",
+        ],
+      };
+    },
+  },
+  {
+    code: "frequent_seat_changes",
+    needsHistory: true,
+    check: ({ history, today }) => {
+      const seats = [...(history?.seats ?? [])].sort((a, b) => a.introducedIn - b.introducedIn);
+      const since = monthsBefore(today, SEAT_CHANGE_WINDOW_MONTHS);
+      const evidence: string[] = [];
+      for (let i = 1; i < seats.length; i++) {
+        const [before, after] = [seats[i - 1], seats[i]];
+        if (foldText(before.value.city) === foldText(after.value.city)) continue;
+        if (!after.introducedOn || after.introducedOn < since) continue;
+        evidence.push(
+          `${before.value.city} → ${after.value.city} (${after.introducedOn}, wpis ${after.introducedIn})`
+        );
+      }
+      return evidence.length >= FREQUENT_SEAT_CHANGES ? { severity: "medium", evidence } : null;
+    },
+  },
+];
+
+/**
+ * Check a company against the risk rules
+ *
+ * @param data - Company data; history-based rules run only when `history`
+ *               is attached (full extract)
+ * @param today - Reference date for time-based rules (ISO 8601)
+ */
+export function assessCompany(
+  data: CompanyData,
+  today: string = new Date().toISOString().slice(0, 10)
+): RiskAssessment {
+  const history = data.history ?? null;
+  const context: RiskContext = {
+    data,
+    history,
+    today,
+    firstEntry: history?.entries[0]?.number ?? 1,
+  };
+
+  const indicators: RiskIndicator[] = [];
+  const notAssessed: RiskIndicatorCode[] = [];
+  for (const rule of RULES) {
+    if (rule.needsHistory && !history) {
+      notAssessed.push(rule.code);
+      continue;
+    }
+    const result = rule.check(context);
+    if (result) {
+      indicators.push({ code: rule.code, label: RISK_INDICATOR_LABELS[rule.code], ...result });
+    }
+  }
+  indicators.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  return {
+    assessedOn: today,
+    basis: history ? "full" : "current",
+    indicators,
+    highestSeverity: indicators[0]?.severity ?? null,
+    notAssessed,
+  };
+}
+
+/**
+ * ISO date the given number of months before another ISO date
+ */
+function monthsBefore(isoDate: string, months: number): string {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() - months);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * History values introduced after the first entry, on or after a date
+ */
+function introducedSince<T>(
+  entries: HistoryEntry<T>[],
+  since: string,
+  firstEntry: number
+): HistoryEntry<T>[] {
+  return entries.filter(
+    (e) => e.introducedIn > firstEntry && e.introducedOn !== null && e.introducedOn >= since
+  );
+}
+
+/**
+ * Word order independent name key ("Kowalski Jan" matches "Jan Kowalski")
+ */
+function nameKey(name: string): string {
+  return foldText(name).split(/\s+/).filter(Boolean).sort().join(" ");
+}
+
+/**
+ * Format a risk assessment as text for non-UI hosts
+ */
+export function formatRiskAssessmentAsText(risk: RiskAssessment): string {
+  const lines: string[] = [];
+
+  if (risk.indicators.length === 0) {
+    lines.push(`✅ Wskaźniki ryzyka: nie wykryto (stan na ${risk.assessedOn})`);
+  } else {
+    lines.push(`🚩 Wskaźniki ryzyka (${risk.indicators.length}, stan na ${risk.assessedOn}):`);
+    for (const indicator of risk.indicators) {
+      lines.push(`   ${SEVERITY_ICONS[indicator.severity]} ${indicator.label}`);
+      for (const item of indicator.evidence) {
+        lines.push(`      - ${item}`);
+      }
+    }
+  }
+
+  if (risk.notAssessed.length > 0) {
+    lines.push(
+      `   ℹ️ Bez historii zmian (odpis pełny) nie sprawdzono: ` +
+        risk.notAssessed.map((code) => RISK_INDICATOR_LABELS[code].toLowerCase()).join(", ")
+    );
+  }
+
+  return lines.join("\n");
+}
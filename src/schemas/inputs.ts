@@ -53,3 +53,325 @@ export interface ExampleToolParams {
 //
 // WRONG Pattern (don't use z.object):
 // export const WrongInput = z.object({ ... }).shape;  // ❌ Broken in Zod 4
+
+// ============================================================================
+// KRS Viewer Tool Inputs
+// ============================================================================
+
+/**
+ * Input schema for search_companies
+ */
+export const SearchCompaniesInput = {
+  query: z.string()
+    .max(200)
+    .optional()
+    .meta({ description: "Company name (or part of it), previous name, NIP, REGON or city. Polish diacritics optional." }),
+  voivodeship: z.string()
+    .optional()
+    .meta({ description: "Voivodeship filter, e.g. 'mazowieckie'" }),
+  legalForm: z.string()
+    .optional()
+    .meta({ description: "Legal form filter, e.g. 'spółka akcyjna'" }),
+  pkd: z.string()
+    .regex(/^\d{2}(\.?\d{1,2}(\.?[A-Za-z])?)?$/)
+    .optional()
+    .meta({ description: "PKD code or prefix filter, e.g. '62' or '62.01' or '62.01.Z'" }),
+  page: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .meta({ description: "Page number (default 1)" }),
+  pageSize: z.number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .meta({ description: "Results per page (default 10, max 50)" }),
+};
+
+export interface SearchCompaniesParams {
+  query?: string;
+  voivodeship?: string;
+  legalForm?: string;
+  pkd?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Input schema for trace_lineage
+ */
+export const TraceLineageInput = {
+  krs: z.string()
+    .regex(/^\d{10}$/)
+    .meta({ description: "10-digit KRS number of the starting company" }),
+  direction: z.enum(["predecessors", "successors", "both"])
+    .optional()
+    .meta({ description: "Links to follow: 'predecessors' (default, back to origins), 'successors' or 'both'" }),
+  maxDepth: z.number()
+    .int()
+    .min(1)
+    .max(5)
+    .optional()
+    .meta({ description: "Number of link levels to follow (default 3, max 5)" }),
+};
+
+export interface TraceLineageParams {
+  krs: string;
+  direction?: "predecessors" | "successors" | "both";
+  maxDepth?: number;
+}
+
+/**
+ * Input schema for check_signing_authority
+ */
+export const CheckSigningAuthorityInput = {
+  krs: z.string()
+    .regex(/^\d{10}$/)
+    .meta({ description: "10-digit KRS number of the company" }),
+  signatories: z.array(z.string().min(3).max(200))
+    .min(1)
+    .max(10)
+    .meta({ description: "Full names of the people signing, e.g. ['Jan Kowalski', 'Anna Nowak']" }),
+  asOf: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .meta({ description: "Signing date (YYYY-MM-DD) to check against the registry state on that day (default: current state)" }),
+};
+
+export interface CheckSigningAuthorityParams {
+  krs: string;
+  signatories: string[];
+  asOf?: string;
+}
+
+/**
+ * Input schema for explain_pkd
+ */
+export const ExplainPkdInput = {
+  query: z.string()
+    .min(1)
+    .max(200)
+    .meta({ description: "PKD code in any notation ('62.01.Z', '6201Z', '62', 'J') or keywords ('oprogramowanie')" }),
+  version: z.enum(["2007", "2025"])
+    .optional()
+    .meta({ description: "PKD edition to use (default: both)" }),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .meta({ description: "Maximum number of keyword matches (default 20, max 50)" }),
+};
+
+export interface ExplainPkdParams {
+  query: string;
+  version?: "2007" | "2025";
+  limit?: number;
+}
+
+/**
+ * Input schema for list_changes
+ */
+export const ListChangesInput = {
+  from: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .meta({ description: "Day (YYYY-MM-DD), or first day of the range" }),
+  to: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .meta({ description: "Last day of the range (YYYY-MM-DD, default: same as from, at most 31 days)" }),
+  krs: z.array(z.string().regex(/^\d{10}$/))
+    .min(1)
+    .max(1000)
+    .optional()
+    .meta({ description: "Only report these 10-digit KRS numbers (e.g. a client portfolio)" }),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(1000)
+    .optional()
+    .meta({ description: "Maximum number of KRS numbers returned (default 200)" }),
+};
+
+export interface ListChangesParams {
+  from: string;
+  to?: string;
+  krs?: string[];
+  limit?: number;
+}
+
+/**
+ * Input schema for add_to_watchlist
+ */
+export const AddToWatchlistInput = {
+  krs: z.array(z.string().regex(/^\d{10}$/))
+    .min(1)
+    .max(25)
+    .meta({ description: "10-digit KRS numbers to watch (up to 25 per call)" }),
+  label: z.string()
+    .max(100)
+    .optional()
+    .meta({ description: "Optional note shown on the watchlist, e.g. 'key supplier'" }),
+};
+
+export interface AddToWatchlistParams {
+  krs: string[];
+  label?: string;
+}
+
+/**
+ * Input schema for remove_from_watchlist
+ */
+export const RemoveFromWatchlistInput = {
+  krs: z.array(z.string().regex(/^\d{10}$/))
+    .min(1)
+    .max(100)
+    .meta({ description: "10-digit KRS numbers to stop watching" }),
+};
+
+export interface RemoveFromWatchlistParams {
+  krs: string[];
+}
+
+/**
+ * Input schema for list_watchlist (no arguments)
+ */
+export const ListWatchlistInput = {};
+
+/**
+ * Input schema for get_watchlist_changes
+ */
+export const GetWatchlistChangesInput = {
+  since: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .meta({ description: "Only changes detected on or after this day (YYYY-MM-DD)" }),
+  krs: z.string()
+    .regex(/^\d{10}$/)
+    .optional()
+    .meta({ description: "Only changes of this company" }),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .meta({ description: "Maximum number of changes returned, newest first (default 20)" }),
+};
+
+export interface GetWatchlistChangesParams {
+  since?: string;
+  krs?: string;
+  limit?: number;
+}
+
+/**
+ * Input schema for diff_company
+ */
+export const DiffCompanyInput = {
+  krs: z.string()
+    .regex(/^\d{10}$/)
+    .meta({ description: "10-digit KRS number of the company" }),
+  since: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .meta({ description: "Compare with the registry state on this day (YYYY-MM-DD) instead of a stored snapshot" }),
+  snapshotId: z.number()
+    .int()
+    .positive()
+    .optional()
+    .meta({ description: "Compare with this stored snapshot (default: the state seen at the previous view)" }),
+};
+
+export interface DiffCompanyParams {
+  krs: string;
+  since?: string;
+  snapshotId?: number;
+}
+
+/**
+ * Input schema for find_person_roles
+ */
+export const FindPersonRolesInput = {
+  name: z.string()
+    .min(2)
+    .max(200)
+    .meta({ description: "Person's name and surname, in any order ('Jan Kowalski'); diacritics optional" }),
+  birthDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .meta({ description: "Birth date (YYYY-MM-DD) to tell namesakes apart where the registry shows it" }),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .meta({ description: "Maximum number of roles returned (default and max 200)" }),
+};
+
+export interface FindPersonRolesParams {
+  name: string;
+  birthDate?: string;
+  limit?: number;
+}
+
+/**
+ * Input schema for ownership_graph
+ */
+export const OwnershipGraphInput = {
+  krs: z.string()
+    .regex(/^\d{10}$/)
+    .meta({ description: "10-digit KRS number of the company whose owners to trace" }),
+  maxDepth: z.number()
+    .int()
+    .min(1)
+    .max(5)
+    .optional()
+    .meta({ description: "Ownership levels to follow above the company (default 3, max 5)" }),
+};
+
+export interface OwnershipGraphParams {
+  krs: string;
+  maxDepth?: number;
+}
+
+/**
+ * Input schema for view_companies_batch
+ */
+export const ViewCompaniesBatchInput = {
+  krs: z.array(z.string().max(20))
+    .min(1)
+    .max(100)
+    .meta({ description: "KRS numbers to look up (leading zeros optional; at most 50 per call unless configured otherwise, never more than 100)" }),
+};
+
+export interface ViewCompaniesBatchParams {
+  krs: string[];
+}
+
+/**
+ * Input schema for compare_companies
+ */
+export const CompareCompaniesInput = {
+  krs: z.array(z.string().regex(/^\d{10}$/))
+    .min(2)
+    .max(5)
+    .meta({ description: "10-digit KRS numbers of 2 to 5 companies, in column order" }),
+};
+
+export interface CompareCompaniesParams {
+  krs: string[];
+}
+
+/**
+ * Input schema for assess_company
+ */
+export const AssessCompanyInput = {
+  krs: z.string()
+    .regex(/^\d{10}$/)
+    .meta({ description: "10-digit KRS number of the company" }),
+};
+
+export interface AssessCompanyParams {
+  krs: string;
+}
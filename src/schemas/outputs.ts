@@ -34,3 +34,839 @@ export type ExampleToolOutput = z.infer<typeof ExampleToolOutputSchema>;
 // TODO: Add more output schemas for your tools
 // export const MyToolOutputSchema = z.object({...});
 // export type MyToolOutput = z.infer<typeof MyToolOutputSchema>;
+
+// ============================================================================
+// KRS Company Schemas
+// ============================================================================
+
+/** ISO 8601 date ("yyyy-mm-dd") */
+const isoDate = () => z.string().meta({ description: "ISO 8601 date (yyyy-mm-dd)" });
+
+/** Date as written in the registry (usually "dd.mm.yyyy") */
+const rawDate = () => z.string().meta({ description: "Date as written in the registry" });
+
+/**
+ * Value of a field with the registry entries that introduced and removed it
+ */
+const historyEntry = <T extends z.ZodType>(value: T) =>
+  z.object({
+    value,
+    introducedIn: z.number(),
+    introducedOn: isoDate().nullable(),
+    removedIn: z.number().nullable(),
+    removedOn: isoDate().nullable(),
+  });
+
+const PkdEquivalentSchema = z.object({
+  version: z.enum(["2007", "2025"]),
+  code: z.string(),
+  name: z.string(),
+});
+
+const ActivitySchema = z.object({
+  code: z.string(),
+  description: z.string(),
+  version: z.enum(["2007", "2025"]).meta({ description: "PKD edition the code belongs to" }),
+  section: z.string().nullable().meta({ description: "PKD section letter" }),
+  equivalents: z.array(PkdEquivalentSchema).meta({
+    description: "Corresponding codes in the other edition (empty when not in the bundled table)",
+  }),
+});
+
+const BoardMemberSchema = z.object({
+  name: z.string(),
+  function: z.string(),
+  birthDate: z
+    .string()
+    .nullable()
+    .optional()
+    .meta({ description: "Birth date decoded from PESEL when the extract shows it (YYYY-MM-DD)" }),
+});
+
+const ShareholderSchema = z.object({
+  kind: z.enum(["person", "entity"]),
+  name: z.string(),
+  role: z.enum([
+    "shareholder",
+    "sole_shareholder",
+    "partner",
+    "general_partner",
+    "limited_partner",
+  ]),
+  shares: z.string(),
+  soleShareholder: z.boolean().meta({ description: "Holds all shares (jedyny wspólnik)" }),
+  krs: z.string().nullable().optional().meta({ description: "KRS of a legal-entity shareholder" }),
+  regon: z.string().nullable().optional().meta({ description: "REGON of a legal-entity shareholder" }),
+  birthDate: z
+    .string()
+    .nullable()
+    .optional()
+    .meta({ description: "Birth date decoded from PESEL of a person shareholder when the extract shows it (YYYY-MM-DD)" }),
+  holding: z
+    .object({
+      count: z.number().nullable(),
+      nominalValue: z.string().nullable().meta({ description: "Total nominal value, e.g. '5000.00'" }),
+      currency: z.string().nullable(),
+    })
+    .nullable()
+    .meta({ description: "Share count and nominal value parsed from 'shares' (null if unparseable)" }),
+  percentage: z.number().nullable().meta({ description: "Share of capital in percent" }),
+  encumbered: z.boolean().meta({ description: "Shares pledged, seized or otherwise encumbered" }),
+});
+
+const ProxySchema = z.object({
+  name: z.string(),
+  type: z.string().meta({ description: "Kind of prokura (e.g. samoistna, łączna)" }),
+  birthDate: z
+    .string()
+    .nullable()
+    .optional()
+    .meta({ description: "Birth date decoded from PESEL when the extract shows it (YYYY-MM-DD)" }),
+});
+
+const RepresentationOrganSchema = z.object({
+  organName: z.string(),
+  method: z.string(),
+  members: z.array(BoardMemberSchema),
+});
+
+const AddressSchema = z.object({
+  city: z.string(),
+  voivodeship: z.string(),
+  county: z.string().nullable().meta({ description: "Powiat" }),
+  municipality: z.string().nullable().meta({ description: "Gmina" }),
+  street: z.string(),
+  building: z.string(),
+  unit: z.string().nullable(),
+  postalCode: z.string(),
+  postOffice: z.string().nullable().meta({ description: "Poczta (post office town)" }),
+  country: z.string(),
+});
+
+const BranchSchema = z.object({
+  name: z.string(),
+  address: AddressSchema,
+});
+
+const LegalFormInfoSchema = z.object({
+  code: z.enum([
+    "limited_liability_company",
+    "joint_stock_company",
+    "simple_joint_stock_company",
+    "european_company",
+    "limited_joint_stock_partnership",
+    "general_partnership",
+    "professional_partnership",
+    "limited_partnership",
+    "cooperative",
+    "mutual_insurance_society",
+    "state_enterprise",
+    "foreign_branch",
+    "association",
+    "foundation",
+    "other",
+  ]),
+  abbreviation: z.string().nullable(),
+  hasShareCapital: z.boolean(),
+  minimumCapital: z
+    .object({ amount: z.number(), currency: z.string() })
+    .nullable()
+    .meta({ description: "Statutory minimum capital" }),
+  personalLiability: z.boolean().meta({
+    description: "At least one partner is personally liable for the company's debts",
+  }),
+  filesFinancialStatements: z.boolean().meta({
+    description: "Must file annual financial statements with KRS regardless of size",
+  }),
+});
+
+const CapitalSchema = z.object({
+  value: z.string().meta({ description: "Exact decimal with a dot separator, e.g. '1234567.00'" }),
+  minorUnits: z.number().nullable().meta({
+    description: "Amount in minor units (grosze); null if the registry value is unparseable",
+  }),
+  currency: z.string(),
+  display: z.string().meta({ description: "Formatted amount, e.g. '1 234 567,00 PLN'" }),
+  raw: z.string().meta({ description: "Amount as written in the registry" }),
+});
+
+const ProceedingSchema = z.object({
+  kind: z.enum(["liquidation", "dissolution", "bankruptcy", "restructuring", "receivership"]),
+  startDate: isoDate().nullable(),
+  startDateRaw: rawDate().nullable(),
+  endDate: isoDate().nullable().meta({ description: "Null while the proceeding is ongoing" }),
+  endDateRaw: rawDate().nullable(),
+  court: z.string().nullable(),
+  caseSignature: z.string().nullable(),
+  description: z.string().nullable(),
+});
+
+const DebtEntrySchema = z.object({
+  kind: z.enum(["arrears", "unsatisfied_claim", "bankruptcy_petition_dismissed"]),
+  description: z.string().nullable(),
+  amount: z.string().nullable(),
+  date: isoDate().nullable(),
+  dateRaw: rawDate().nullable(),
+  authority: z.string().nullable(),
+});
+
+const CompanyStatusSchema = z.object({
+  code: z.enum(["active", "in_liquidation", "bankrupt", "in_restructuring", "deregistered"]),
+  since: isoDate().nullable(),
+  sinceRaw: rawDate().nullable(),
+  proceedings: z.array(ProceedingSchema).meta({
+    description: "Liquidation, bankruptcy, restructuring and receivership (section 6)",
+  }),
+  debts: z.array(DebtEntrySchema).meta({
+    description: "Arrears and unsatisfied enforcement claims (section 4)",
+  }),
+});
+
+const LineageLinkSchema = z.object({
+  direction: z.enum(["predecessor", "successor"]),
+  event: z.enum(["merger", "division", "transformation", "other"]),
+  krs: z.string().nullable(),
+  name: z.string().nullable(),
+  date: isoDate().nullable(),
+  dateRaw: rawDate().nullable(),
+  description: z.string().nullable(),
+});
+
+const FilingSchema = z.object({
+  kind: z.enum([
+    "financial_statement",
+    "audit_report",
+    "approval_resolution",
+    "management_report",
+  ]),
+  periodFrom: isoDate().nullable(),
+  periodFromRaw: rawDate().nullable(),
+  periodTo: isoDate().nullable(),
+  periodToRaw: rawDate().nullable(),
+  year: z.number().nullable().meta({ description: "Financial year (year of the period end)" }),
+  filedOn: isoDate().nullable(),
+  filedOnRaw: rawDate().nullable(),
+});
+
+const RegistryEntrySchema = z.object({
+  number: z.number(),
+  date: isoDate(),
+  dateRaw: rawDate(),
+  description: z.string().nullable(),
+  caseSignature: z.string().nullable(),
+  court: z.string().nullable(),
+});
+
+/**
+ * Change history rebuilt from a full ("pelny") extract
+ */
+export const CompanyHistorySchema = z.object({
+  entries: z.array(RegistryEntrySchema),
+  names: z.array(historyEntry(z.string())),
+  legalForms: z.array(historyEntry(z.string())),
+  identifiers: z.array(
+    historyEntry(
+      z.object({ nip: z.string().nullable(), regon: z.string().nullable() })
+    )
+  ),
+  seats: z.array(
+    historyEntry(
+      AddressSchema.pick({
+        city: true,
+        voivodeship: true,
+        county: true,
+        municipality: true,
+        country: true,
+      })
+    )
+  ),
+  addresses: z.array(
+    historyEntry(
+      AddressSchema.pick({
+        street: true,
+        building: true,
+        unit: true,
+        postalCode: true,
+        postOffice: true,
+      })
+    )
+  ),
+  emails: z.array(historyEntry(z.string())),
+  websites: z.array(historyEntry(z.string())),
+  branches: z.array(historyEntry(BranchSchema)),
+  capital: z.array(historyEntry(CapitalSchema)),
+  shareholders: z.array(historyEntry(ShareholderSchema)),
+  representation: z.object({
+    organNames: z.array(historyEntry(z.string())),
+    methods: z.array(historyEntry(z.string())),
+    members: z.array(historyEntry(BoardMemberSchema)),
+  }),
+  supervisoryBoard: z.object({
+    organNames: z.array(historyEntry(z.string())),
+    members: z.array(historyEntry(BoardMemberSchema)),
+  }),
+  proxies: z.array(historyEntry(ProxySchema)),
+  proceedings: z.array(historyEntry(ProceedingSchema)),
+  debts: z.array(historyEntry(DebtEntrySchema)),
+  filings: z.array(historyEntry(FilingSchema)),
+  mainActivities: z.array(historyEntry(ActivitySchema)),
+  otherActivities: z.array(historyEntry(ActivitySchema)),
+});
+
+const FieldChangeSchema = z.union([
+  z.object({
+    field: z.string(),
+    label: z.string(),
+    kind: z.literal("value"),
+    before: z.string().nullable(),
+    after: z.string().nullable(),
+  }),
+  z.object({
+    field: z.string(),
+    label: z.string(),
+    kind: z.literal("list"),
+    added: z.array(z.string()),
+    removed: z.array(z.string()),
+    changed: z.array(z.object({ before: z.string(), after: z.string() })).meta({
+      description: "Same person or entity with different details",
+    }),
+  }),
+]);
+
+const DiffSideSchema = z.object({
+  source: z.enum(["snapshot", "registry", "current"]),
+  date: z.string().meta({ description: "ISO 8601 date or timestamp of the state" }),
+  entryNumber: z.number().nullable(),
+  snapshotId: z.number().nullable(),
+});
+
+const RiskAssessmentSchema = z.object({
+  assessedOn: isoDate().meta({ description: "Reference date of time-based rules" }),
+  basis: z.enum(["current", "full"]).meta({
+    description: "full: change history was available; current: current extract only",
+  }),
+  indicators: z.array(
+    z.object({
+      code: z.enum([
+        "young_company",
+        "recent_board_change",
+        "recent_address_change",
+        "minimal_capital",
+        "sole_shareholder_director",
+        "liquidation_or_bankruptcy",
+        "missing_financial_statements",
+        "frequent_seat_changes",
+      ]),
+      label: z.string(),
+      severity: z.enum(["low", "medium", "high"]),
+      evidence: z.array(z.string()).meta({ description: "Facts from the extract that raised the flag" }),
+    })
+  ).meta({ description: "Red flags raised, most severe first" }),
+  highestSeverity: z.enum(["low", "medium", "high"]).nullable(),
+  notAssessed: z.array(z.string()).meta({
+    description: "Indicator codes skipped because they need the change history (full extract)",
+  }),
+});
+
+/**
+ * Output schema for view_company
+ */
+export const CompanyDataOutputSchema = z.object({
+  name: z.string(),
+  krs: z.string(),
+  registry: z.enum(["P", "S"]).meta({
+    description: "KRS register: P (entrepreneurs) or S (associations, foundations)",
+  }),
+  nip: z.string().nullable(),
+  regon: z.string().nullable(),
+  legalForm: z.string(),
+  legalFormInfo: LegalFormInfoSchema.meta({
+    description: "Typed legal form with abbreviation, capital and liability rules",
+  }),
+  address: AddressSchema,
+  contact: z.object({
+    email: z.string().nullable(),
+    website: z.string().nullable(),
+  }),
+  branches: z.array(BranchSchema).meta({ description: "Branches (oddziały)" }),
+  capital: CapitalSchema.nullable(),
+  shareholders: z.array(ShareholderSchema).meta({
+    description: "Shareholders and partners (natural persons or legal entities)",
+  }),
+  representation: RepresentationOrganSchema.optional(),
+  representationOrgans: z.array(RepresentationOrganSchema).meta({
+    description: "All representation organs (management board and any further organs)",
+  }),
+  supervisoryBoard: z
+    .object({
+      organName: z.string(),
+      members: z.array(BoardMemberSchema),
+    })
+    .nullable()
+    .meta({ description: "Supervisory body (rada nadzorcza, komisja rewizyjna)" }),
+  proxies: z.array(ProxySchema).meta({ description: "Proxy holders (prokurenci)" }),
+  mainActivity: z.array(ActivitySchema),
+  status: CompanyStatusSchema.meta({
+    description: "Legal status: active, in liquidation, bankrupt, in restructuring or deregistered",
+  }),
+  lineage: z.array(LineageLinkSchema).meta({
+    description: "Predecessors and successors from mergers, divisions and conversions",
+  }),
+  filings: z.array(FilingSchema).meta({
+    description: "Filed annual financial statements, audit reports and resolutions (section 3)",
+  }),
+  filingStatus: z.object({
+    lastStatementYear: z.number().nullable(),
+    lastStatementFiledOn: isoDate().nullable(),
+    expectedYear: z.number().meta({
+      description: "Latest financial year whose filing deadline has passed",
+    }),
+    missingPreviousYear: z.boolean().nullable().meta({
+      description: "No financial statement filed for expectedYear (null when the legal form need not file with KRS)",
+    }),
+  }),
+  nonProfit: z
+    .object({
+      publicBenefit: z.boolean(),
+      supervisoryAuthority: z.string().nullable(),
+      objectives: z.string().nullable(),
+    })
+    .nullable()
+    .meta({ description: "Register S details: OPP status, supervisory authority, objectives" }),
+  registrationDate: isoDate(),
+  registrationDateRaw: rawDate(),
+  lastUpdate: isoDate(),
+  lastUpdateRaw: rawDate(),
+  dataTimestamp: z.string().meta({ description: "Time the extract was produced (ISO 8601)" }),
+  dataTimestampRaw: z.string().nullable(),
+  registryCourt: z.string().nullable().meta({
+    description: "Court that made the last entry",
+  }),
+  lastEntryNumber: z.number().nullable(),
+  lastEntries: z.array(RegistryEntrySchema).meta({
+    description: "Most recent registry entries, oldest first, with case signatures",
+  }),
+  schemaVersion: z.number().meta({
+    description: "Version of this structure, increased on every breaking change",
+  }),
+  history: CompanyHistorySchema.optional().meta({
+    description: "Change history (only for 'pelny' extracts)",
+  }),
+  asOf: z
+    .object({
+      date: isoDate(),
+      entryNumber: z.number(),
+      entryDate: isoDate(),
+      basedOnEntries: z.array(z.number()),
+    })
+    .optional()
+    .meta({
+      description: "Registry entries a point-in-time snapshot is based on",
+    }),
+  diff: z
+    .object({
+      from: DiffSideSchema,
+      to: DiffSideSchema,
+      changes: z.array(FieldChangeSchema),
+    })
+    .optional()
+    .meta({
+      description: "Changes against an earlier state (diff_company, or since the user's last view)",
+    }),
+  risk: RiskAssessmentSchema.optional().meta({
+    description: "Due-diligence red flags (assess_company, or from the current extract in view_company)",
+  }),
+});
+
+/**
+ * Output schema for diff_company (company data with `diff` set)
+ */
+export const DiffCompanyOutputSchema = CompanyDataOutputSchema.extend({
+  snapshots: z
+    .array(
+      z.object({
+        id: z.number(),
+        krs: z.string(),
+        takenAt: z.string().meta({ description: "First time this state was seen (ISO 8601)" }),
+        seenAt: z.string().meta({ description: "Last time this state was seen (ISO 8601)" }),
+        lastEntryNumber: z.number().nullable(),
+      })
+    )
+    .meta({ description: "Stored snapshots of the company, newest first" }),
+});
+
+/**
+ * Output schema for search_companies
+ */
+export const SearchCompaniesOutputSchema = z.object({
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+  fuzzy: z.boolean().meta({
+    description: "True when results match only some of the query words or allow typos",
+  }),
+  results: z.array(
+    z.object({
+      krs: z.string(),
+      registry: z.enum(["P", "S"]),
+      name: z.string(),
+      previousNames: z.array(z.string()),
+      city: z.string(),
+      voivodeship: z.string(),
+      legalForm: z.string(),
+      nip: z.string().nullable(),
+      regon: z.string().nullable(),
+    })
+  ),
+});
+
+/**
+ * Output schema for trace_lineage
+ */
+export const TraceLineageOutputSchema = z.object({
+  root: z.string(),
+  direction: z.enum(["predecessors", "successors", "both"]),
+  maxDepth: z.number(),
+  nodes: z.array(
+    z.object({
+      krs: z.string(),
+      name: z.string().nullable(),
+      legalForm: z.string().nullable(),
+      status: z
+        .enum(["active", "in_liquidation", "bankrupt", "in_restructuring", "deregistered"])
+        .nullable(),
+      depth: z.number(),
+      error: z.string().nullable(),
+    })
+  ),
+  edges: z.array(
+    z.object({
+      predecessor: z.object({ krs: z.string().nullable(), name: z.string().nullable() }),
+      successor: z.object({ krs: z.string().nullable(), name: z.string().nullable() }),
+      event: z.enum(["merger", "division", "transformation", "other"]),
+      date: z.string().nullable(),
+    })
+  ),
+  truncated: z.boolean().meta({
+    description: "True when the depth limit stopped the walk before the chain ended",
+  }),
+});
+
+const SigningAlternativeSchema = z.object({
+  members: z.union([z.number(), z.literal("all")]),
+  proxies: z.number(),
+  presidentRequired: z.boolean(),
+});
+
+/**
+ * Output schema for check_signing_authority
+ */
+export const CheckSigningAuthorityOutputSchema = z.object({
+  krs: z.string(),
+  companyName: z.string(),
+  organName: z.string(),
+  method: z.string().meta({ description: "Representation method as written in the registry" }),
+  rule: z.union([
+    z.object({
+      parsed: z.literal(true),
+      source: z.string(),
+      clauses: z.array(
+        z.object({
+          condition: z.enum(["single_member", "multi_member"]).nullable(),
+          alternatives: z.array(SigningAlternativeSchema),
+        })
+      ),
+    }),
+    z.object({
+      parsed: z.literal(false),
+      source: z.string(),
+      unparsedFragments: z.array(z.string()),
+    }),
+  ]),
+  signatories: z.array(
+    z.object({
+      input: z.string(),
+      role: z.enum(["member", "proxy"]).nullable(),
+      name: z.string().nullable(),
+      function: z.string().nullable(),
+    })
+  ),
+  canSign: z.boolean().nullable().meta({
+    description: "null when the representation method could not be interpreted",
+  }),
+  basis: z.string().meta({ description: "Rule or prokura the answer is based on" }),
+  warnings: z.array(z.string()),
+});
+
+const PkdEntrySchema = z.object({
+  version: z.enum(["2007", "2025"]),
+  code: z.string(),
+  level: z.enum(["section", "division", "group", "class", "subclass"]),
+  name: z.string(),
+  nameEn: z.string().nullable(),
+  section: z.string().nullable(),
+});
+
+/**
+ * Output schema for explain_pkd
+ */
+export const ExplainPkdOutputSchema = z.object({
+  query: z.string(),
+  kind: z.enum(["code", "keyword"]),
+  explanations: z.array(
+    z.object({
+      version: z.enum(["2007", "2025"]),
+      code: z.string(),
+      level: z.enum(["section", "division", "group", "class", "subclass"]),
+      hierarchy: z.array(PkdEntrySchema).meta({ description: "Section down to the code itself" }),
+      known: z.boolean().meta({ description: "false when only the parent levels are in the dictionary" }),
+      equivalents: z.array(PkdEquivalentSchema),
+    })
+  ),
+  matches: z.array(PkdEntrySchema),
+});
+
+/**
+ * Output schema for list_changes
+ */
+export const ListChangesOutputSchema = z.object({
+  from: isoDate(),
+  to: isoDate(),
+  days: z.array(
+    z.object({
+      date: isoDate(),
+      count: z.number().meta({ description: "Companies with entries published that day" }),
+    })
+  ),
+  krs: z.array(z.string()).meta({ description: "Distinct KRS numbers changed (up to limit)" }),
+  total: z.number().meta({ description: "Distinct KRS numbers changed in the range before filtering" }),
+  filter: z
+    .object({ requested: z.number(), matched: z.number() })
+    .nullable()
+    .meta({ description: "Intersection with the caller's KRS list" }),
+  truncated: z.boolean().meta({ description: "More KRS numbers changed than the limit" }),
+});
+
+/**
+ * Output schema for add_to_watchlist and remove_from_watchlist
+ */
+export const WatchlistUpdateOutputSchema = z.object({
+  changed: z
+    .array(z.object({ krs: z.string(), name: z.string() }))
+    .meta({ description: "Companies added or removed" }),
+  unchanged: z
+    .array(z.string())
+    .meta({ description: "Already watched (add) or not on the watchlist (remove)" }),
+  failed: z.array(z.object({ krs: z.string(), error: z.string() })),
+  size: z.number().meta({ description: "Watchlist size after the update" }),
+});
+
+/**
+ * Output schema for list_watchlist
+ */
+export const ListWatchlistOutputSchema = z.object({
+  entries: z.array(
+    z.object({
+      krs: z.string(),
+      name: z.string(),
+      label: z.string().nullable(),
+      addedAt: z.string().meta({ description: "ISO 8601 timestamp" }),
+      checkedAt: z.string().nullable().meta({ description: "Last check (ISO 8601 timestamp)" }),
+      lastEntryNumber: z.number().nullable(),
+    })
+  ),
+  maxSize: z.number(),
+});
+
+/**
+ * Output schema for get_watchlist_changes
+ */
+export const GetWatchlistChangesOutputSchema = z.object({
+  events: z.array(
+    z.object({
+      id: z.number(),
+      krs: z.string(),
+      name: z.string(),
+      detectedAt: z.string().meta({ description: "ISO 8601 timestamp" }),
+      entryNumberBefore: z.number().nullable(),
+      entryNumberAfter: z.number().nullable(),
+      changes: z.array(FieldChangeSchema).meta({
+        description: "Changed fields (empty when new entries touched untracked data only)",
+      }),
+    })
+  ),
+});
+
+/**
+ * Output schema for find_person_roles
+ */
+export const FindPersonRolesOutputSchema = z.object({
+  query: z.object({
+    name: z.string(),
+    birthDate: z.string().nullable(),
+  }),
+  persons: z.array(
+    z.object({
+      name: z.string(),
+      birthDate: z.string().nullable().meta({ description: "Decoded from PESEL (usually unknown)" }),
+      roles: z.array(
+        z.object({
+          krs: z.string(),
+          companyName: z.string(),
+          role: z.enum(["board", "supervisory_board", "proxy", "shareholder"]),
+          function: z.string().nullable().meta({ description: "Function in the organ, prokura type or held shares" }),
+          organ: z.string().nullable(),
+          since: z.string().nullable().meta({ description: "Role start date (full extracts only)" }),
+          until: z.string().nullable().meta({ description: "Role end date (full extracts only)" }),
+          current: z.boolean(),
+          source: z.enum(["aktualny", "pelny"]).meta({ description: "Extract the role was read from" }),
+        })
+      ),
+    })
+  ),
+  total: z.number(),
+  truncated: z.boolean(),
+  possibleNamesakes: z.boolean().meta({
+    description: "Matches rely on the name alone and may mix up different people",
+  }),
+});
+
+const OwnershipPathSchema = z.object({
+  nodes: z.array(z.string()).meta({ description: "Node ids from the owner down to the company" }),
+  percentage: z.number().nullable().meta({
+    description: "Product of the percentages along the chain (null if any is unknown)",
+  }),
+});
+
+/**
+ * Output schema for ownership_graph
+ */
+export const OwnershipGraphOutputSchema = z.object({
+  root: z.string(),
+  maxDepth: z.number(),
+  nodes: z.array(
+    z.object({
+      id: z.string().meta({ description: "KRS number, or 'person:...' / 'entity:...' for owners without one" }),
+      kind: z.enum(["company", "person", "entity"]),
+      name: z.string().nullable(),
+      krs: z.string().nullable(),
+      birthDate: z.string().nullable(),
+      legalForm: z.string().nullable(),
+      depth: z.number().meta({ description: "Levels above the starting company" }),
+      error: z.string().nullable(),
+    })
+  ),
+  edges: z.array(
+    z.object({
+      from: z.string().meta({ description: "Owner node id" }),
+      to: z.string().meta({ description: "Owned company node id" }),
+      role: z.enum([
+        "shareholder",
+        "sole_shareholder",
+        "partner",
+        "general_partner",
+        "limited_partner",
+      ]),
+      shares: z.string(),
+      percentage: z.number().nullable(),
+    })
+  ),
+  beneficialOwners: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      birthDate: z.string().nullable(),
+      effectivePercentage: z.number().meta({
+        description: "Direct plus indirect share, summed over chains with known percentages",
+      }),
+      complete: z.boolean().meta({
+        description: "False when a chain has an unknown percentage (effectivePercentage is a lower bound)",
+      }),
+      aboveThreshold: z.boolean().meta({ description: "Effective share above 25% (UBO threshold)" }),
+      paths: z.array(OwnershipPathSchema),
+    })
+  ),
+  unresolved: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string().nullable(),
+      reason: z.enum(["no_krs", "depth_limit", "company_limit", "lookup_error", "no_shareholders"]),
+      effectivePercentage: z.number(),
+      complete: z.boolean(),
+    })
+  ).meta({ description: "Owners the chain could not be followed through" }),
+  truncated: z.boolean().meta({
+    description: "True when the depth or company limit stopped the walk",
+  }),
+  cycles: z.boolean().meta({ description: "True when companies hold shares in each other" }),
+});
+
+/**
+ * Output schema for view_companies_batch
+ */
+export const ViewCompaniesBatchOutputSchema = z.object({
+  requested: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  results: z.array(
+    z.discriminatedUnion("ok", [
+      z.object({
+        krs: z.string(),
+        ok: z.literal(true),
+        company: z.object({
+          name: z.string(),
+          legalForm: z.string(),
+          status: z.enum(["active", "in_liquidation", "bankrupt", "in_restructuring", "deregistered"]),
+          city: z.string(),
+          nip: z.string().nullable(),
+          regon: z.string().nullable(),
+          registrationDate: z.string(),
+          capital: z.string().nullable(),
+          lastEntryNumber: z.number().nullable(),
+        }),
+      }),
+      z.object({
+        krs: z.string(),
+        ok: z.literal(false),
+        error: z.object({
+          code: z.enum(["invalid_krs", "not_found", "timeout", "unavailable", "api_error"]),
+          message: z.string(),
+        }),
+      }),
+    ])
+  ).meta({ description: "One result per distinct KRS number, in the order given" }),
+});
+
+/**
+ * Output schema for compare_companies
+ */
+export const CompareCompaniesOutputSchema = z.object({
+  companies: z.array(z.object({ krs: z.string(), name: z.string() })),
+  rows: z.array(
+    z.object({
+      field: z.string(),
+      label: z.string(),
+      values: z.array(z.string().nullable()).meta({ description: "One display value per company" }),
+      numbers: z.array(z.number().nullable()).nullable().meta({
+        description: "Numeric values per company (numeric rows only: age in years, capital, counts)",
+      }),
+      differs: z.boolean(),
+    })
+  ),
+  pkd: z.array(
+    z.object({
+      code: z.string(),
+      description: z.string(),
+      present: z.array(z.boolean()).meta({ description: "Whether each company has the code" }),
+      main: z.array(z.boolean()).meta({ description: "Whether it is each company's main activity" }),
+    })
+  ).meta({ description: "PKD codes of all companies, the most widely shared first" }),
+  pkdSharedByAll: z.number(),
+});
+
+/**
+ * Output schema for assess_company (company data with `risk` set)
+ */
+export const AssessCompanyOutputSchema = CompanyDataOutputSchema.extend({
+  risk: RiskAssessmentSchema,
+});
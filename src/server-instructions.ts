@@ -10,11 +10,25 @@ export const SERVER_INSTRUCTIONS = `
 
 ## Capabilities
 - Lookup Polish companies by KRS number in the official Krajowy Rejestr Sądowy
+- Covers both the entrepreneurs register (P) and the associations/foundations register (S)
 - Display company details in a rich visual card format
 - Data includes: name, legal form, address, capital, board members, PKD codes
 
 ## Tools Overview
 - **view_company**: Displays company data from Polish KRS registry. Returns company card with all official details.
+- **search_companies**: Finds companies by name (also previous names), NIP, REGON or city, with voivodeship / legal form / PKD filters. Returns KRS numbers.
+- **trace_lineage**: Follows mergers, divisions and conversions from a company to its predecessors and/or successors (depth-limited).
+- **check_signing_authority**: Answers whether given people can sign for a company under its registered representation method (optionally on a past date), citing the rule used; says explicitly when the method cannot be interpreted.
+- **explain_pkd**: Explains a PKD code (section → class, Polish/English names, equivalent in the other edition) or finds codes by keyword; works offline.
+- **list_changes**: Lists KRS numbers with new registry entries on a day or date range (daily bulletin), optionally intersected with a given KRS list.
+- **add_to_watchlist** / **remove_from_watchlist** / **list_watchlist**: Manage the user's personal watchlist of companies (up to 500).
+- **get_watchlist_changes**: Changes detected in watched companies by the daily check, with field-level diffs (before → after, added / removed items).
+- **diff_company**: What changed in a company since the user's last view, a stored snapshot or a date (card with changed fields highlighted).
+- **find_person_roles**: Companies in which a person is a board or supervisory board member, proxy or shareholder, with role dates where known (companies already looked up through this server only).
+- **ownership_graph**: Ownership structure above a company, following corporate shareholders with a KRS number; effective indirect shares of the natural persons at the top (UBO check, > 25%).
+- **view_companies_batch**: Many KRS numbers in one call (up to 50 by default), one summary or typed error per number, shown as a compact list.
+- **compare_companies**: 2-5 companies side by side (legal form, status, city, age, capital, board size, PKD overlap), shown as a table with differences highlighted.
+- **assess_company**: Due-diligence red flags from the full extract (young company, recent board or address change, minimal capital, sole shareholder as sole board member, liquidation / bankruptcy, missing financial statements, frequently moved seat), each with severity and evidence; shown in the company card.
 
 ## Performance Characteristics
 - Typical response time: 1-3 seconds
@@ -23,20 +37,53 @@ export const SERVER_INSTRUCTIONS = `
 
 ## Usage Guidelines
 - Use view_company when: user asks about a Polish company, wants to verify a business partner, or needs KRS data
-- Constraint: Requires 10-digit KRS number (e.g., "0000821672")
-- Note: KRS API doesn't support search by company name, only by KRS number
+- Constraint: Requires 10-digit KRS number (e.g., "0000821672"), or a NIP / REGON that is resolved to one
+- NIP and REGON are checksum-validated; a typo returns an error instead of a wrong company
+- Note: KRS API doesn't support search by company name; search_companies searches a local index of companies already looked up through this server
+- Use search_companies when: user gives a company name instead of a number, then call view_company with the KRS found
 
 ## Data Available
-- Company name and legal form
-- NIP and REGON identifiers
-- Registered address (city, street, postal code)
-- Share capital and shareholders (for sp. z o.o.)
-- Management board members and representation method
-- PKD activity codes (main and secondary)
-- Registration and last update dates
+- Company name and legal form, classified (legalFormInfo) with abbreviation, whether it has share capital, statutory minimum capital and personal liability of partners
+- NIP and REGON identifiers (also usable as lookup keys)
+- Registered address (city, street, postal code, post office, gmina, powiat), e-mail, website and branches (oddziały)
+- Share capital as an exact decimal (minor units, display string and the registry's raw value)
+- All dates in ISO 8601 (yyyy-mm-dd), with the registry's original value in the matching \`...Raw\` field; \`schemaVersion\` identifies the structure version
+- Shareholders / partners for every legal form (natural persons and legal entities with their KRS and REGON; sole shareholder flagged), with parsed share count, nominal value, percentage of capital and pledged/encumbered shares flagged
+- Management board members and representation method (all representation organs)
+- Supervisory board (rada nadzorcza) and proxy holders (prokurenci) with prokura type
+- PKD activity codes (main and secondary) with their edition (2007/2025), section letter and equivalents in the other edition where the bundled correspondence table covers them
+- Register (P/S) and, for the S register, public-benefit (OPP) status and supervisory authority
+- Mergers, divisions and conversions with predecessor / successor KRS numbers
+- Legal status: active, in liquidation, bankrupt, in restructuring or deregistered, with court proceedings (section 6) and arrears / enforcement entries (section 4)
+- Annual filings (financial statements, audit reports, approval resolutions) with the last filed year and a flag when the previous year's statement is missing
+- Registration and last update dates, registry court, last entry number and recent entries with case signatures
+- Change history with entry numbers and dates (type="pelny"): names, addresses, capital, shareholders, board composition, PKD codes
+- Point-in-time snapshot for any date (asOf), citing the registry entry numbers it is based on
+- Daily change feed: which KRS numbers had entries on a given day (not what changed)
+- Watchlists: watched companies are checked once a day (change feed plus a rotating re-check); detected changes are kept per user
+- Per-user snapshots of viewed companies; view_company adds a \`diff\` (and highlights it in the card) when the company changed since the user's previous view
+- Ownership chains: corporate shareholders followed up to 5 levels, with effective indirect percentages per natural person
+- People index: board and supervisory board members, proxies and shareholders of every looked-up company, matched by name (and birth date, when the registry shows PESEL); role start and end dates come from full extracts
+- Risk indicators: named red flags with severity (low / medium / high) and the registry facts behind them; view_company adds those that need no history to the card, assess_company checks all of them
 
 ## Example Queries
 "Show me company KRS 0000821672" → Use view_company with krs="0000821672"
 "What are the details for KRS 0001234567?" → Use view_company with krs="0001234567"
 "Verify company 0000821672 in KRS" → Use view_company with krs="0000821672"
+"Check the company with NIP 526-025-02-74" → Use view_company with nip="5260250274"
+"What is the KRS of Acme Logistyka sp. z o.o.?" → Use search_companies with query="Acme Logistyka"
+"Who was on the board of 0000821672 before?" → Use view_company with krs="0000821672", type="pelny"
+"Who could sign for 0000821672 on 2021-03-15?" → Use view_company with krs="0000821672", asOf="2021-03-15"
+"Can Jan Kowalski sign alone for 0000821672?" → Use check_signing_authority with krs="0000821672", signatories=["Jan Kowalski"]
+"What was 0000821672 before it was converted?" → Use trace_lineage with krs="0000821672"
+"What is PKD 62.01.Z in PKD 2025?" → Use explain_pkd with query="62.01.Z"
+"Did any of my companies change last week?" → Use list_changes with from/to and krs=[...], then view_company for the matches
+"Keep an eye on 0000821672 for me" → Use add_to_watchlist with krs=["0000821672"]
+"What changed in my companies this week?" → Use get_watchlist_changes with since=<Monday's date>
+"What changed in 0000821672 since I last looked?" → Use diff_company with krs="0000821672"
+"Where else is Jan Kowalski on the board?" → Use find_person_roles with name="Jan Kowalski"
+"Who ultimately owns 0000821672?" → Use ownership_graph with krs="0000821672"
+"Check these vendors: 0000821672, 0000123456, 0000654321" → Use view_companies_batch with krs=[...]
+"Compare 0000821672 with 0000123456" → Use compare_companies with krs=["0000821672", "0000123456"]
+"Any red flags on 0000821672?" → Use assess_company with krs="0000821672"
 `;
@@ -14,11 +14,106 @@ import type { Env, ViewCompanyParams } from "./types.js";
 import type { Props } from "./auth/props.js";
 import { loadHtml } from "./helpers/assets.js";
 import { SERVER_INSTRUCTIONS } from "./server-instructions.js";
-import { KrsClient, formatCompanyAsText } from "./krs-client.js";
+import {
+  KrsClient,
+  formatCompanyAsText,
+  formatChangeFeedAsText,
+} from "./krs-client.js";
 import { logger } from "./shared/logger.js";
+import {
+  CompanyDataOutputSchema,
+  SearchCompaniesOutputSchema,
+  TraceLineageOutputSchema,
+  CheckSigningAuthorityOutputSchema,
+  ExplainPkdOutputSchema,
+  ListChangesOutputSchema,
+  WatchlistUpdateOutputSchema,
+  ListWatchlistOutputSchema,
+  GetWatchlistChangesOutputSchema,
+  DiffCompanyOutputSchema,
+  FindPersonRolesOutputSchema,
+  OwnershipGraphOutputSchema,
+  ViewCompaniesBatchOutputSchema,
+  CompareCompaniesOutputSchema,
+  AssessCompanyOutputSchema,
+} from "./schemas/outputs.js";
+import {
+  SearchCompaniesInput,
+  TraceLineageInput,
+  CheckSigningAuthorityInput,
+  ExplainPkdInput,
+  ListChangesInput,
+  AddToWatchlistInput,
+  RemoveFromWatchlistInput,
+  ListWatchlistInput,
+  GetWatchlistChangesInput,
+  DiffCompanyInput,
+  FindPersonRolesInput,
+  OwnershipGraphInput,
+  ViewCompaniesBatchInput,
+  CompareCompaniesInput,
+  AssessCompanyInput,
+  type SearchCompaniesParams,
+  type TraceLineageParams,
+  type CheckSigningAuthorityParams,
+  type ExplainPkdParams,
+  type ListChangesParams,
+  type AddToWatchlistParams,
+  type RemoveFromWatchlistParams,
+  type GetWatchlistChangesParams,
+  type DiffCompanyParams,
+  type FindPersonRolesParams,
+  type OwnershipGraphParams,
+  type ViewCompaniesBatchParams,
+  type CompareCompaniesParams,
+  type AssessCompanyParams,
+} from "./schemas/inputs.js";
+import { TOOL_METADATA, getToolDescription } from "./tools/descriptions.js";
+import { CompanyIndex, formatSearchResultsAsText } from "./company-index.js";
+import {
+  IdentifierResolver,
+  WhiteListLookupSource,
+} from "./identifier-resolver.js";
+import { traceLineage, formatLineageAsText } from "./lineage.js";
+import {
+  checkSigningAuthority,
+  formatSigningCheckAsText,
+} from "./signing-rules.js";
+import { lookupPkd, formatPkdLookupAsText } from "./pkd-lookup.js";
+import {
+  Watchlist,
+  MAX_WATCHLIST_SIZE,
+  addToWatchlist,
+  removeFromWatchlist,
+  formatWatchlistAsText,
+  formatWatchlistEventsAsText,
+  formatWatchlistUpdateAsText,
+} from "./watchlist.js";
+import {
+  CompanySnapshots,
+  changesSinceLastView,
+  compareCompany,
+  formatCompanyDiffAsText,
+  formatSnapshotsAsText,
+} from "./company-snapshots.js";
+import { PersonIndex, formatPersonLookupAsText } from "./person-index.js";
+import { buildOwnershipGraph, formatOwnershipGraphAsText } from "./ownership.js";
+import {
+  batchSizeLimit,
+  formatCompanyBatchAsText,
+  viewCompaniesBatch,
+} from "./company-batch.js";
+import { compareCompanies, formatComparisonAsText } from "./company-compare.js";
+import { assessCompany, formatRiskAssessmentAsText } from "./risk-indicators.js";
 
 // Resource URI for company card widget
 const RESOURCE_URI = "ui://krs-viewer/company-card.html";
+
+// Resource URI for compact company list widget (batch lookups)
+const LIST_RESOURCE_URI = "ui://krs-viewer/company-list.html";
+
+// Resource URI for side-by-side comparison widget
+const COMPARE_RESOURCE_URI = "ui://krs-viewer/compare.html";
 const UI_MIME_TYPE = "text/html;profile=mcp-app";
 
 // Zod 4 input schema (plain object, NOT z.object)
@@ -26,13 +121,45 @@ const ViewCompanyInput = {
   krs: z
     .string()
     .regex(/^\d{10}$/)
+    .optional()
     .meta({ description: "10-digit KRS number (Krajowy Rejestr Sądowy)" }),
+  nip: z
+    .string()
+    .regex(/^(PL)?[\d\s-]{10,13}$/i)
+    .optional()
+    .meta({
+      description:
+        "NIP tax ID (10 digits, separators allowed) - resolved to a KRS number when krs is not given",
+    }),
+  regon: z
+    .string()
+    .regex(/^\d{9}(\d{5})?$/)
+    .optional()
+    .meta({
+      description:
+        "REGON (9 or 14 digits) - resolved to a KRS number when krs and nip are not given",
+    }),
   type: z
     .enum(["aktualny", "pelny"])
     .optional()
     .meta({
       description:
-        "Extract type: 'aktualny' (current, default) or 'pelny' (full history)",
+        "Extract type: 'aktualny' (current, default) or 'pelny' (full history with change timeline)",
+    }),
+  asOf: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .meta({
+      description:
+        "Date (YYYY-MM-DD) to reconstruct the company state for, e.g. contract signing date. Uses the full extract; 'type' is ignored.",
+    }),
+  registry: z
+    .enum(["P", "S", "auto"])
+    .optional()
+    .meta({
+      description:
+        "Register: 'P' (entrepreneurs), 'S' (associations, foundations, non-profits) or 'auto' (default: try P, then S)",
     }),
 };
 
@@ -61,6 +188,24 @@ export class KrsViewer extends McpAgent<Env, unknown, Props> {
     // Initialize KRS API client
     const krsClient = new KrsClient(this.env);
 
+    // Local index of fetched companies (search, NIP/REGON resolution)
+    const companyIndex = new CompanyIndex(this.env.KRS_DB);
+
+    // Per-user watchlists (checked daily by the scheduled handler)
+    const watchlist = new Watchlist(this.env.KRS_DB);
+
+    // Per-user snapshots of viewed companies ("what changed since I last looked?")
+    const snapshots = new CompanySnapshots(this.env.KRS_DB);
+
+    // People of fetched companies (board, supervisory board, proxies, shareholders)
+    const personIndex = new PersonIndex(this.env.KRS_DB);
+
+    // NIP/REGON resolution: local index first, then the VAT white list
+    const identifierResolver = new IdentifierResolver([
+      companyIndex,
+      new WhiteListLookupSource(),
+    ]);
+
     // ========================================================================
     // PART 1: Register Resource (Company Card Widget)
     // ========================================================================
@@ -112,56 +257,15 @@ export class KrsViewer extends McpAgent<Env, unknown, Props> {
       {
         title: "View Polish Company",
         description:
-          "Displays company data from Polish KRS registry as a visual card. Returns company details including name, legal form, address, share capital, representatives, and PKD activity codes. Use when user asks about a Polish company, wants to verify business partner, or needs KRS data for due diligence.",
+          "Displays company data from Polish KRS registry as a visual card. Returns company details including name, legal form, address, share capital, representatives, and PKD activity codes. Use when user asks about a Polish company, wants to verify business partner, or needs KRS data for due diligence. Pass asOf to see the company as it stood on a given date, with the registry entry numbers the answer is based on. Accepts a NIP or REGON instead of the KRS number; invalid checksums are rejected.",
         inputSchema: ViewCompanyInput,
         annotations: {
-          readOnlyHint: true,
+          readOnlyHint: false, // Records the viewed state as a snapshot
           destructiveHint: false,
-          idempotentHint: true,
+          idempotentHint: false, // Changes since the last view depend on the previous call
           openWorldHint: true, // Calls external KRS API
         },
-        outputSchema: z.object({
-          name: z.string(),
-          krs: z.string(),
-          nip: z.string().nullable(),
-          regon: z.string().nullable(),
-          legalForm: z.string(),
-          address: z.object({
-            city: z.string(),
-            voivodeship: z.string().optional(),
-            street: z.string(),
-            building: z.string().optional(),
-            unit: z.string().nullable().optional(),
-            postalCode: z.string(),
-            country: z.string(),
-          }),
-          capital: z
-            .object({
-              value: z.string(),
-              currency: z.string(),
-            })
-            .nullable(),
-          representation: z
-            .object({
-              organName: z.string(),
-              method: z.string(),
-              members: z.array(
-                z.object({
-                  name: z.string(),
-                  function: z.string(),
-                })
-              ),
-            })
-            .optional(),
-          mainActivity: z.array(
-            z.object({
-              code: z.string(),
-              description: z.string(),
-            })
-          ),
-          registrationDate: z.string(),
-          lastUpdate: z.string(),
-        }),
+        outputSchema: CompanyDataOutputSchema,
         _meta: {
           ui: {
             resourceUri: RESOURCE_URI,
@@ -174,22 +278,64 @@ export class KrsViewer extends McpAgent<Env, unknown, Props> {
           throw new Error("User ID not found in authentication context");
         }
 
-        const { krs, type = "aktualny" } = args as ViewCompanyParams;
+        const {
+          krs: krsArg,
+          nip,
+          regon,
+          type = "aktualny",
+          asOf,
+          registry = "auto",
+        } = args as ViewCompanyParams;
+        const lookupLabel = krsArg
+          ? `KRS ${krsArg}`
+          : nip
+            ? `NIP ${nip}`
+            : `REGON ${regon ?? ""}`;
 
         logger.info({
           event: "tool_started",
           tool: "view_company",
           user_id: this.props.userId ?? "",
           user_email: this.props.email ?? "",
-          action_id: krs,
-          args: { krs, type },
+          action_id: krsArg ?? nip ?? regon ?? "",
+          args: { krs: krsArg, nip, regon, type, asOf, registry },
         });
 
         const startTime = Date.now();
 
         try {
-          // Fetch company data from KRS API
-          const companyData = await krsClient.getCompany(krs, type);
+          // Resolve NIP/REGON to a KRS number when needed
+          let krs = krsArg;
+          let resolutionNote = "";
+          if (!krs) {
+            const kind = nip ? "nip" : regon ? "regon" : null;
+            if (!kind) {
+              throw new Error("Provide one of: krs, nip or regon");
+            }
+            const resolved = await identifierResolver.resolve(
+              kind,
+              (nip ?? regon) as string
+            );
+            krs = resolved.krs;
+            resolutionNote = `${lookupLabel} → KRS ${krs} (źródło: ${resolved.source})\n\n`;
+          }
+
+          // Fetch company data from KRS API (point-in-time if requested)
+          const companyData = asOf
+            ? await krsClient.getCompanyAsOf(krs, asOf, registry)
+            : await krsClient.getCompany(krs, type, registry);
+
+          // Highlight changes since this user's previous view
+          const diff = asOf
+            ? null
+            : await changesSinceLastView(snapshots, this.props.userId, companyData);
+          // Red flags for the card (history-based ones only with type 'pelny')
+          const risk = asOf ? null : assessCompany(companyData);
+          const shown = {
+            ...companyData,
+            ...(diff ? { diff } : {}),
+            ...(risk ? { risk } : {}),
+          };
 
           const duration = Date.now() - startTime;
 
@@ -208,12 +354,17 @@ export class KrsViewer extends McpAgent<Env, unknown, Props> {
               {
                 type: "text" as const,
                 text:
+                  resolutionNote +
                   formatCompanyAsText(companyData) +
+                  (diff ? "\n\n" + formatCompanyDiffAsText(diff) : "") +
+                  (risk && risk.indicators.length > 0
+                    ? "\n\n" + formatRiskAssessmentAsText(risk)
+                    : "") +
                   "\n\nNext steps: Ask follow-up questions about this company's board, capital, or activities. " +
                   "For full historical data, call view_company again with type 'pelny'.",
               },
             ],
-            structuredContent: companyData as unknown as Record<
+            structuredContent: shown as unknown as Record<
               string,
               unknown
             >,
@@ -238,7 +389,1391 @@ export class KrsViewer extends McpAgent<Env, unknown, Props> {
             content: [
               {
                 type: "text" as const,
-                text: `Error looking up KRS ${krs}: ${errorMessage}`,
+                text: `Error looking up ${lookupLabel}: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 3: Register search_companies Tool
+    // ========================================================================
+    this.server.registerTool(
+      "search_companies",
+      {
+        title: TOOL_METADATA.search_companies.title,
+        description: getToolDescription("search_companies"),
+        inputSchema: SearchCompaniesInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: false, // Local index only
+        },
+        outputSchema: SearchCompaniesOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const params = args as SearchCompaniesParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "search_companies",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: params.query ?? "",
+          args: { ...params },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const result = await companyIndex.search(params);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "search_companies",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: params.query ?? "",
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatSearchResultsAsText(result) +
+                  "\n\nNext steps: Call view_company with the KRS number of the matching company.",
+              },
+            ],
+            structuredContent: result as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "search_companies",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error searching companies: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 4: Register trace_lineage Tool
+    // ========================================================================
+    this.server.registerTool(
+      "trace_lineage",
+      {
+        title: TOOL_METADATA.trace_lineage.title,
+        description: getToolDescription("trace_lineage"),
+        inputSchema: TraceLineageInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true, // Calls external KRS API
+        },
+        outputSchema: TraceLineageOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { krs, direction = "predecessors", maxDepth = 3 } = args as TraceLineageParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "trace_lineage",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: krs,
+          args: { krs, direction, maxDepth },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const trace = await traceLineage(krsClient, krs, direction, maxDepth);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "trace_lineage",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: krs,
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatLineageAsText(trace) +
+                  "\n\nNext steps: Call view_company with any KRS number above for full details" +
+                  (trace.truncated ? ", or repeat with a higher maxDepth." : "."),
+              },
+            ],
+            structuredContent: trace as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "trace_lineage",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error tracing lineage of KRS ${krs}: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 5: Register check_signing_authority Tool
+    // ========================================================================
+    this.server.registerTool(
+      "check_signing_authority",
+      {
+        title: TOOL_METADATA.check_signing_authority.title,
+        description: getToolDescription("check_signing_authority"),
+        inputSchema: CheckSigningAuthorityInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true, // Calls external KRS API
+        },
+        outputSchema: CheckSigningAuthorityOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { krs, signatories, asOf } = args as CheckSigningAuthorityParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "check_signing_authority",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: krs,
+          args: { krs, signatories, asOf },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const company = asOf
+            ? await krsClient.getCompanyAsOf(krs, asOf)
+            : await krsClient.getCompany(krs);
+          const check = checkSigningAuthority(company, signatories);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "check_signing_authority",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: krs,
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  (asOf ? `Stan na dzień ${asOf}\n` : "") +
+                  formatSigningCheckAsText(check) +
+                  "\n\nNext steps: " +
+                  (check.canSign === null
+                    ? "Read the representation method above and verify it manually, or ask the company for its articles of association."
+                    : "Call view_company for the full board and proxy list."),
+              },
+            ],
+            structuredContent: check as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "check_signing_authority",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error checking signing authority for KRS ${krs}: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 6: Register explain_pkd Tool
+    // ========================================================================
+    this.server.registerTool(
+      "explain_pkd",
+      {
+        title: TOOL_METADATA.explain_pkd.title,
+        description: getToolDescription("explain_pkd"),
+        inputSchema: ExplainPkdInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: false, // Bundled dictionary only
+        },
+        outputSchema: ExplainPkdOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { query, version, limit } = args as ExplainPkdParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "explain_pkd",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: query,
+          args: { query, version, limit },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const lookup = lookupPkd(query, version, limit);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "explain_pkd",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: query,
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatPkdLookupAsText(lookup) +
+                  "\n\nNext steps: " +
+                  (lookup.kind === "keyword"
+                    ? "Call explain_pkd with one of the codes above for its full hierarchy and equivalent."
+                    : "Use the code when describing a company's activity, or call search_companies to find companies by name."),
+              },
+            ],
+            structuredContent: lookup as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "explain_pkd",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error explaining PKD "${query}": ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 7: Register list_changes Tool
+    // ========================================================================
+    this.server.registerTool(
+      "list_changes",
+      {
+        title: TOOL_METADATA.list_changes.title,
+        description: getToolDescription("list_changes"),
+        inputSchema: ListChangesInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true, // Calls external KRS API
+        },
+        outputSchema: ListChangesOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { from, to, krs, limit = 200 } = args as ListChangesParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "list_changes",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: to ? `${from}..${to}` : from,
+          args: { from, to, krs: krs?.length ?? 0, limit },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const feed = await krsClient.getChanges(from, to, krs);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "list_changes",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: to ? `${from}..${to}` : from,
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatChangeFeedAsText(feed, limit) +
+                  "\n\nNext steps: " +
+                  (feed.krs.length > 0
+                    ? "Call view_company (type='pelny') for a KRS number above to see what changed."
+                    : "Try a wider date range, or check that the KRS numbers are correct."),
+              },
+            ],
+            structuredContent: {
+              ...feed,
+              krs: feed.krs.slice(0, limit),
+              truncated: feed.krs.length > limit,
+            } as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "list_changes",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error listing registry changes: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 8: Register add_to_watchlist Tool
+    // ========================================================================
+    this.server.registerTool(
+      "add_to_watchlist",
+      {
+        title: TOOL_METADATA.add_to_watchlist.title,
+        description: getToolDescription("add_to_watchlist"),
+        inputSchema: AddToWatchlistInput,
+        annotations: {
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true, // Calls external KRS API
+        },
+        outputSchema: WatchlistUpdateOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { krs, label } = args as AddToWatchlistParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "add_to_watchlist",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: krs.join(","),
+          args: { krs, label },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const result = await addToWatchlist(
+            watchlist,
+            krsClient,
+            this.props.userId,
+            krs,
+            label
+          );
+
+          logger.info({
+            event: "tool_completed",
+            tool: "add_to_watchlist",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: krs.join(","),
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatWatchlistUpdateAsText(result, "add") +
+                  "\n\nNext steps: Changes are checked daily; call get_watchlist_changes to read them.",
+              },
+            ],
+            structuredContent: result as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "add_to_watchlist",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error adding to watchlist: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 9: Register remove_from_watchlist Tool
+    // ========================================================================
+    this.server.registerTool(
+      "remove_from_watchlist",
+      {
+        title: TOOL_METADATA.remove_from_watchlist.title,
+        description: getToolDescription("remove_from_watchlist"),
+        inputSchema: RemoveFromWatchlistInput,
+        annotations: {
+          readOnlyHint: false,
+          destructiveHint: true,
+          idempotentHint: true,
+          openWorldHint: false, // Local database only
+        },
+        outputSchema: WatchlistUpdateOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { krs } = args as RemoveFromWatchlistParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "remove_from_watchlist",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: krs.join(","),
+          args: { krs },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const result = await removeFromWatchlist(watchlist, this.props.userId, krs);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "remove_from_watchlist",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: krs.join(","),
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatWatchlistUpdateAsText(result, "remove") +
+                  "\n\nNext steps: Call list_watchlist to see the remaining companies.",
+              },
+            ],
+            structuredContent: result as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "remove_from_watchlist",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error removing from watchlist: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 10: Register list_watchlist Tool
+    // ========================================================================
+    this.server.registerTool(
+      "list_watchlist",
+      {
+        title: TOOL_METADATA.list_watchlist.title,
+        description: getToolDescription("list_watchlist"),
+        inputSchema: ListWatchlistInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: false, // Local database only
+        },
+        outputSchema: ListWatchlistOutputSchema,
+      },
+      async () => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        logger.info({
+          event: "tool_started",
+          tool: "list_watchlist",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: "watchlist",
+          args: {},
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const entries = await watchlist.list(this.props.userId);
+          const result = { entries, maxSize: MAX_WATCHLIST_SIZE };
+
+          logger.info({
+            event: "tool_completed",
+            tool: "list_watchlist",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: "watchlist",
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatWatchlistAsText(entries) +
+                  "\n\nNext steps: " +
+                  (entries.length > 0
+                    ? "Call get_watchlist_changes to see what changed, or view_company for details."
+                    : "Call add_to_watchlist with KRS numbers to start watching companies."),
+              },
+            ],
+            structuredContent: result as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "list_watchlist",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error listing watchlist: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 11: Register get_watchlist_changes Tool
+    // ========================================================================
+    this.server.registerTool(
+      "get_watchlist_changes",
+      {
+        title: TOOL_METADATA.get_watchlist_changes.title,
+        description: getToolDescription("get_watchlist_changes"),
+        inputSchema: GetWatchlistChangesInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: false, // Local database only
+        },
+        outputSchema: GetWatchlistChangesOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { since, krs, limit } = args as GetWatchlistChangesParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "get_watchlist_changes",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: krs ?? "watchlist",
+          args: { since, krs, limit },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const events = await watchlist.events(this.props.userId, { since, krs, limit });
+          const result = { events };
+
+          logger.info({
+            event: "tool_completed",
+            tool: "get_watchlist_changes",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: krs ?? "watchlist",
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatWatchlistEventsAsText(events) +
+                  "\n\nNext steps: Call view_company (type='pelny') for the full entry history of a changed company.",
+              },
+            ],
+            structuredContent: result as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "get_watchlist_changes",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error reading watchlist changes: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 12: Register diff_company Tool
+    // ========================================================================
+    this.server.registerTool(
+      "diff_company",
+      {
+        title: TOOL_METADATA.diff_company.title,
+        description: getToolDescription("diff_company"),
+        inputSchema: DiffCompanyInput,
+        annotations: {
+          readOnlyHint: false, // Records the current view as a snapshot
+          destructiveHint: false,
+          idempotentHint: false,
+          openWorldHint: true, // Calls external KRS API
+        },
+        outputSchema: DiffCompanyOutputSchema,
+        _meta: {
+          ui: {
+            resourceUri: RESOURCE_URI,
+          },
+        },
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { krs, since, snapshotId } = args as DiffCompanyParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "diff_company",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: krs,
+          args: { krs, since, snapshotId },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const result = await compareCompany(
+            krsClient,
+            snapshots,
+            this.props.userId,
+            krs,
+            { since, snapshotId }
+          );
+          const { diff } = result;
+
+          logger.info({
+            event: "tool_completed",
+            tool: "diff_company",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: krs,
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  `=== ${result.company.name} (KRS ${krs}) ===\n\n` +
+                  formatCompanyDiffAsText(diff) +
+                  (result.snapshots.length > 1
+                    ? "\n\n" + formatSnapshotsAsText(result.snapshots)
+                    : "") +
+                  "\n\nNext steps: " +
+                  (diff.changes.length > 0
+                    ? "Call view_company (type='pelny') for the registry entries behind these changes."
+                    : "Pass since (YYYY-MM-DD) to compare with an older registry state."),
+              },
+            ],
+            structuredContent: {
+              ...result.company,
+              snapshots: result.snapshots,
+            } as unknown as Record<string, unknown>,
+            _meta: {
+              viewUUID: crypto.randomUUID(),
+            },
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "diff_company",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error comparing KRS ${krs}: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 13: Register find_person_roles Tool
+    // ========================================================================
+    this.server.registerTool(
+      "find_person_roles",
+      {
+        title: TOOL_METADATA.find_person_roles.title,
+        description: getToolDescription("find_person_roles"),
+        inputSchema: FindPersonRolesInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: false, // Local database only
+        },
+        outputSchema: FindPersonRolesOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { name, birthDate, limit } = args as FindPersonRolesParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "find_person_roles",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: name,
+          args: { name, birthDate, limit },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const result = await personIndex.find(name, birthDate, limit);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "find_person_roles",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: name,
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatPersonLookupAsText(result) +
+                  "\n\nNext steps: " +
+                  (result.total > 0
+                    ? "Call view_company (type='pelny') for a company to confirm the person and get role dates."
+                    : "Look up the companies you expect with view_company first - only companies already fetched are indexed."),
+              },
+            ],
+            structuredContent: result as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "find_person_roles",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error finding roles of ${name}: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 14: Register ownership_graph Tool
+    // ========================================================================
+    this.server.registerTool(
+      "ownership_graph",
+      {
+        title: TOOL_METADATA.ownership_graph.title,
+        description: getToolDescription("ownership_graph"),
+        inputSchema: OwnershipGraphInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true, // Calls external KRS API
+        },
+        outputSchema: OwnershipGraphOutputSchema,
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { krs, maxDepth = 3 } = args as OwnershipGraphParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "ownership_graph",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: krs,
+          args: { krs, maxDepth },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const graph = await buildOwnershipGraph(krsClient, krs, maxDepth);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "ownership_graph",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: krs,
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatOwnershipGraphAsText(graph) +
+                  "\n\nNext steps: Call view_company with any KRS number above for full details" +
+                  (graph.truncated ? ", or repeat with a higher maxDepth." : "."),
+              },
+            ],
+            structuredContent: graph as unknown as Record<string, unknown>,
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "ownership_graph",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error tracing owners of KRS ${krs}: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 15: Register Resource (Company List Widget)
+    // ========================================================================
+    this.server.registerResource(
+      "company_list",
+      LIST_RESOURCE_URI,
+      {
+        description:
+          "Compact company list widget for batch KRS lookups",
+        mimeType: UI_MIME_TYPE,
+      },
+      async () => {
+        const templateHTML = await loadHtml(
+          this.env.ASSETS,
+          "/company-list.html"
+        );
+
+        return {
+          contents: [
+            {
+              uri: LIST_RESOURCE_URI,
+              mimeType: UI_MIME_TYPE,
+              text: templateHTML,
+              _meta: {
+                ui: {
+                  prefersBorder: true,
+                },
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    logger.info({
+      event: "ui_resource_registered",
+      uri: LIST_RESOURCE_URI,
+      name: "company_list",
+    });
+
+    // ========================================================================
+    // PART 16: Register view_companies_batch Tool
+    // ========================================================================
+    this.server.registerTool(
+      "view_companies_batch",
+      {
+        title: TOOL_METADATA.view_companies_batch.title,
+        description: getToolDescription("view_companies_batch"),
+        inputSchema: ViewCompaniesBatchInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true, // Calls external KRS API
+        },
+        outputSchema: ViewCompaniesBatchOutputSchema,
+        _meta: {
+          ui: {
+            resourceUri: LIST_RESOURCE_URI,
+          },
+        },
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { krs } = args as ViewCompaniesBatchParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "view_companies_batch",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: `batch:${krs.length}`,
+          args: { krs },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const batch = await viewCompaniesBatch(krsClient, krs, batchSizeLimit(this.env));
+
+          logger.info({
+            event: "tool_completed",
+            tool: "view_companies_batch",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: `batch:${krs.length}`,
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatCompanyBatchAsText(batch) +
+                  "\n\nNext steps: Call view_company for full details of a company" +
+                  (batch.failed > 0
+                    ? "; retry numbers that failed with timeout or unavailable."
+                    : "."),
+              },
+            ],
+            structuredContent: batch as unknown as Record<string, unknown>,
+            _meta: {
+              viewUUID: crypto.randomUUID(),
+            },
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "view_companies_batch",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error looking up companies: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 17: Register Resource (Comparison Widget)
+    // ========================================================================
+    this.server.registerResource(
+      "company_compare",
+      COMPARE_RESOURCE_URI,
+      {
+        description:
+          "Side-by-side company comparison table widget",
+        mimeType: UI_MIME_TYPE,
+      },
+      async () => {
+        const templateHTML = await loadHtml(
+          this.env.ASSETS,
+          "/compare.html"
+        );
+
+        return {
+          contents: [
+            {
+              uri: COMPARE_RESOURCE_URI,
+              mimeType: UI_MIME_TYPE,
+              text: templateHTML,
+              _meta: {
+                ui: {
+                  prefersBorder: true,
+                },
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    logger.info({
+      event: "ui_resource_registered",
+      uri: COMPARE_RESOURCE_URI,
+      name: "company_compare",
+    });
+
+    // ========================================================================
+    // PART 18: Register compare_companies Tool
+    // ========================================================================
+    this.server.registerTool(
+      "compare_companies",
+      {
+        title: TOOL_METADATA.compare_companies.title,
+        description: getToolDescription("compare_companies"),
+        inputSchema: CompareCompaniesInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true, // Calls external KRS API
+        },
+        outputSchema: CompareCompaniesOutputSchema,
+        _meta: {
+          ui: {
+            resourceUri: COMPARE_RESOURCE_URI,
+          },
+        },
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { krs } = args as CompareCompaniesParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "compare_companies",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: krs.join(","),
+          args: { krs },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          const comparison = await compareCompanies(krsClient, krs);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "compare_companies",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: krs.join(","),
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  formatComparisonAsText(comparison) +
+                  "\n\nNext steps: Call view_company for full details of a company, or ownership_graph to compare owners.",
+              },
+            ],
+            structuredContent: comparison as unknown as Record<string, unknown>,
+            _meta: {
+              viewUUID: crypto.randomUUID(),
+            },
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "compare_companies",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error comparing companies: ${errorMessage}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    // ========================================================================
+    // PART 19: Register assess_company Tool
+    // ========================================================================
+    this.server.registerTool(
+      "assess_company",
+      {
+        title: TOOL_METADATA.assess_company.title,
+        description: getToolDescription("assess_company"),
+        inputSchema: AssessCompanyInput,
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true, // Calls external KRS API
+        },
+        outputSchema: AssessCompanyOutputSchema,
+        _meta: {
+          ui: {
+            resourceUri: RESOURCE_URI,
+          },
+        },
+      },
+      async (args) => {
+        if (!this.props?.userId) {
+          throw new Error("User ID not found in authentication context");
+        }
+
+        const { krs } = args as AssessCompanyParams;
+
+        logger.info({
+          event: "tool_started",
+          tool: "assess_company",
+          user_id: this.props.userId ?? "",
+          user_email: this.props.email ?? "",
+          action_id: krs,
+          args: { krs },
+        });
+
+        const startTime = Date.now();
+
+        try {
+          // Full extract, so that the history-based rules run too
+          const companyData = await krsClient.getCompany(krs, "pelny");
+          const risk = assessCompany(companyData);
+
+          logger.info({
+            event: "tool_completed",
+            tool: "assess_company",
+            user_id: this.props.userId ?? "",
+            user_email: this.props.email ?? "",
+            action_id: krs,
+            duration_ms: Date.now() - startTime,
+          });
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  `=== ${companyData.name} (KRS ${krs}) ===\n\n` +
+                  formatRiskAssessmentAsText(risk) +
+                  "\n\nNext steps: " +
+                  (risk.indicators.length > 0
+                    ? "Call view_company (type='pelny') for the registry entries behind these indicators, or ownership_graph to check the owners."
+                    : "Call ownership_graph to check the owners, or add_to_watchlist to be told about future changes."),
+              },
+            ],
+            structuredContent: { ...companyData, risk } as unknown as Record<string, unknown>,
+            _meta: {
+              viewUUID: crypto.randomUUID(),
+            },
+          };
+        } catch (error) {
+          logger.error({
+            event: "tool_failed",
+            tool: "assess_company",
+            error: error instanceof Error ? error.message : String(error),
+          });
+
+          const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error assessing KRS ${krs}: ${errorMessage}`,
               },
             ],
             isError: true,
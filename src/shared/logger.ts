@@ -129,6 +129,13 @@ export type APIEvent =
       operation: 'hit' | 'miss' | 'set' | 'evict';
       key: string;
       ttl_seconds?: number;
+    }
+  | {
+      event: 'upstream_error';
+      service: string;
+      operation: string;
+      error: string;
+      key?: string;
     };
 
 /**
@@ -183,6 +190,20 @@ export type SystemEvent =
       error: string;
       context?: string;
       pathname?: string;
+    }
+  | {
+      event: 'storage_error';
+      operation: string;
+      error: string;
+      key?: string;
+    }
+  | {
+      event: 'scheduled_run';
+      job: string;
+      duration_ms: number;
+      success: boolean;
+      details?: Record<string, number | boolean>;
+      error?: string;
     };
 
 /**
@@ -0,0 +1,428 @@
+/**
+ * Signing Rules ("sposób reprezentacji")
+ *
+ * Turns the common Polish phrasing of the representation method into a
+ * structured rule and checks whether a set of signatories satisfies it.
+ *
+ * The parser is deliberately strict: any clause it does not fully
+ * understand (value thresholds, attorneys, consent of other bodies,
+ * unusual wording) makes the whole rule unparsed, so callers can say so
+ * instead of guessing.
+ */
+
+import type { BoardMember, CompanyData, Proxy, RepresentationOrgan } from "./types.js";
+import { foldText } from "./helpers/krs-fields.js";
+import { STATUS_LABELS } from "./krs-client.js";
+
+/**
+ * One way of signing: the listed signatories acting together
+ */
+export interface SigningAlternative {
+  /** Organ members required ("all" for every member) */
+  members: number | "all";
+  /** Proxy holders (prokurenci) required */
+  proxies: number;
+  /** One of the members must be the president (prezes) */
+  presidentRequired: boolean;
+}
+
+/**
+ * Alternatives applying to a board size (or to any board when no condition)
+ */
+export interface SigningClause {
+  condition: "single_member" | "multi_member" | null;
+  alternatives: SigningAlternative[];
+}
+
+/**
+ * Result of parsing a representation method
+ */
+export type SigningRule =
+  | { parsed: true; source: string; clauses: SigningClause[] }
+  | { parsed: false; source: string; unparsedFragments: string[] };
+
+/**
+ * Signatory matched against the registry
+ */
+export interface MatchedSignatory {
+  input: string;
+  role: "member" | "proxy" | null;
+  name: string | null;
+  function: string | null;
+}
+
+/**
+ * Answer of a signing authority check
+ */
+export interface SigningCheck {
+  krs: string;
+  companyName: string;
+  organName: string;
+  method: string;
+  rule: SigningRule;
+  signatories: MatchedSignatory[];
+  /** null when the rule could not be parsed and no independent prokura applies */
+  canSign: boolean | null;
+  /** Rule or prokura the answer is based on */
+  basis: string;
+  warnings: string[];
+}
+
+const NUMBER_WORDS: Record<string, number | "all"> = {
+  jeden: 1,
+  jednego: 1,
+  jedna: 1,
+  dwoch: 2,
+  dwaj: 2,
+  dwu: 2,
+  dwie: 2,
+  dwoje: 2,
+  obaj: 2,
+  obu: 2,
+  trzech: 3,
+  trzej: 3,
+  trzy: 3,
+  czterech: 4,
+  czterej: 4,
+  wszyscy: "all",
+  wszystkich: "all",
+};
+
+/**
+ * Words naming a member of the representation organ ("wspólnik", but not
+ * "wspólnie" as in "prezes wspólnie z prokurentem")
+ */
+const MEMBER = String.raw`(?:czlon\w*|wspolnik\w*|wspolnicy|likwidator\w*|komplementariusz\w*)`;
+const COUNT = String.raw`(\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+
+/** Clauses the parser refuses to interpret (value thresholds among them) */
+const UNSUPPORTED =
+  /wiceprezes|kwot|wartosc|\bzl\b|zlotych|\bpln\b|powyzej|ponizej|przekracz|pelnomocnik|rad\w* nadzorcz|zgod|zgromadzeni|uchwal/;
+
+/**
+ * Standard lead-in naming the act rather than the signatories ("Do
+ * składania oświadczeń woli i zaciągania zobowiązań w imieniu spółki
+ * upoważniony jest ...", "Spółkę reprezentuje ...")
+ */
+const PREAMBLE =
+  /^(?:(?:do (?:skladania oswiadczen|reprezentowania|reprezentacji)|oswiadczenia woli)\b.*?\b(?:(?:upowazni|uprawni|umocowan|wymagan)\w*(?: (?:jest|sa))?(?: (?:wspol)?dzialanie)?|sklada(?:ja)?)|(?:spolke|spoldzielnie) reprezentuj\w*)\b[\s,:-]*/;
+
+/** Board size condition ("w przypadku gdy zarząd jest jednoosobowy") */
+const CONDITION =
+  /^(?:w przypadku(?: gdy| kiedy)?|jezeli|gdy|kiedy) (?:powolania )?zarzad\w*(?: (?:jest|bedzie))? (\w+)[\s,:-]*/;
+
+/**
+ * Parse a representation method into signing rules
+ *
+ * Alternatives are separated by "lub" / "albo" / "bądź", semicolons and
+ * commas between complete clauses ("prezes zarządu samodzielnie, dwaj
+ * członkowie zarządu łącznie" is two alternatives, not one). The usual
+ * lead-in ("do składania oświadczeń woli i zaciągania zobowiązań ...
+ * upoważniony jest") is skipped, and clauses may be limited to a single- or
+ * multi-member board ("w przypadku gdy zarząd jest wieloosobowy").
+ */
+export function parseSigningRule(method: string): SigningRule {
+  const text = foldText(method).replace(/\s+/g, " ").trim();
+  const clauses: SigningClause[] = [];
+  const unparsedFragments: string[] = [];
+
+  const parts = text
+    .split(/(?<!w przypadku )(?=\b(?:w przypadku(?: gdy| kiedy)?|jezeli|gdy|kiedy) (?:powolania )?zarzad)/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  for (const part of parts) {
+    let body = part;
+    let condition: SigningClause["condition"] = null;
+    const conditional = CONDITION.exec(part);
+    if (conditional) {
+      if (conditional[1].startsWith("jednoosobow")) condition = "single_member";
+      else if (conditional[1].startsWith("wieloosobow")) condition = "multi_member";
+      else {
+        unparsedFragments.push(part);
+        continue;
+      }
+      body = part.slice(conditional[0].length);
+    }
+    body = body.replace(PREAMBLE, "");
+
+    const alternatives: SigningAlternative[] = [];
+    for (const fragment of body.split(/\s(?:lub|albo|badz)\s|;/)) {
+      // Commas separate alternatives only when every part is a complete
+      // clause ("prezes samodzielnie, dwaj członkowie łącznie")
+      const parts = fragment.split(",").map(cleanFragment).filter(Boolean);
+      const separate = parts.length > 1 ? parts.map(parseAlternative) : [];
+      if (separate.length > 0 && separate.every((a) => a !== null)) {
+        alternatives.push(...(separate as SigningAlternative[]));
+        continue;
+      }
+
+      const cleaned = cleanFragment(fragment);
+      if (!cleaned) continue;
+      const alternative = parseAlternative(cleaned);
+      if (alternative) alternatives.push(alternative);
+      else unparsedFragments.push(cleaned);
+    }
+
+    if (alternatives.length > 0) clauses.push({ condition, alternatives });
+  }
+
+  if (unparsedFragments.length > 0 || clauses.length === 0) {
+    return {
+      parsed: false,
+      source: method,
+      unparsedFragments: unparsedFragments.length > 0 ? unparsedFragments : [method],
+    };
+  }
+  return { parsed: true, source: method, clauses };
+}
+
+/**
+ * Describe a signing alternative in Polish ("dwóch członków łącznie")
+ */
+export function describeAlternative(alternative: SigningAlternative): string {
+  const { members, proxies, presidentRequired } = alternative;
+  const people: string[] = [];
+  if (members === "all") {
+    people.push("wszyscy członkowie organu");
+  } else if (members === 1) {
+    people.push(presidentRequired ? "prezes" : "jeden członek organu");
+  } else if (members > 1) {
+    people.push(`${members} członków organu${presidentRequired ? " (w tym prezes)" : ""}`);
+  }
+  if (proxies > 0) {
+    // "łącznie z prokurentem" after members, nominative on its own
+    const joint = people.length > 0;
+    if (proxies === 1) people.push(joint ? "prokurentem" : "prokurent");
+    else people.push(`${proxies} ${joint ? "prokurentami" : "prokurentów"}`);
+  }
+
+  const signatories = (members === "all" ? 2 : members) + proxies;
+  const suffix = signatories === 1 ? " samodzielnie" : people.length === 1 ? " łącznie" : "";
+  return people.join(" łącznie z ") + suffix;
+}
+
+/**
+ * Check whether the given people can sign for the company
+ *
+ * Names are matched against the representation organ and proxy holders
+ * ignoring case, diacritics and word order. An independent prokura
+ * (prokura samoistna) is sufficient on its own, even when the
+ * representation method cannot be parsed.
+ */
+export function checkSigningAuthority(company: CompanyData, names: string[]): SigningCheck {
+  const organ = representationOrganFor(company);
+  const rule = parseSigningRule(organ.method);
+  const warnings: string[] = [];
+
+  const signatories = names.map((input) => matchSignatory(input, organ.members, company.proxies));
+  // The same person listed twice counts once
+  const distinct = (role: MatchedSignatory["role"]) => [
+    ...new Map(
+      signatories.filter((s) => s.role === role).map((s) => [s.name, s])
+    ).values(),
+  ];
+  const members = distinct("member");
+  const proxies = distinct("proxy");
+
+  for (const s of signatories.filter((s) => s.role === null)) {
+    warnings.push(`"${s.input}" nie występuje w rejestrze jako członek organu ani prokurent`);
+  }
+  if (company.status.code === "bankrupt") {
+    warnings.push("Spółka w upadłości - majątkiem zarządza syndyk, zarząd może nie mieć umocowania");
+  } else if (company.status.code !== "active" && company.status.code !== "in_liquidation") {
+    warnings.push(
+      `Status podmiotu: ${STATUS_LABELS[company.status.code]} - reprezentacja może być ograniczona`
+    );
+  }
+
+  const base = {
+    krs: company.krs,
+    companyName: company.name,
+    organName: organ.organName,
+    method: organ.method,
+    rule,
+    signatories,
+    warnings,
+  };
+
+  // Independent prokura suffices regardless of the representation method
+  const independent = proxies.find((p) => /samoistn/.test(foldText(p.function ?? "")));
+  if (independent) {
+    return {
+      ...base,
+      canSign: true,
+      basis: `Prokura samoistna: ${independent.name} (${independent.function})`,
+    };
+  }
+
+  if (!rule.parsed) {
+    return {
+      ...base,
+      canSign: null,
+      basis:
+        "Nie udało się jednoznacznie zinterpretować sposobu reprezentacji - wymagana ręczna weryfikacja",
+    };
+  }
+
+  const boardSize = organ.members.length;
+  const applicable = rule.clauses.filter(
+    (c) =>
+      c.condition === null ||
+      (c.condition === "single_member" && boardSize === 1) ||
+      (c.condition === "multi_member" && boardSize > 1)
+  );
+  const alternatives = applicable.flatMap((c) => c.alternatives);
+  const hasPresident = members.some((m) => /\bprezes/.test(foldText(m.function ?? "")));
+
+  const satisfied = alternatives.find((alternative) => {
+    const required = alternative.members === "all" ? boardSize : alternative.members;
+    return (
+      required + alternative.proxies > 0 &&
+      members.length >= required &&
+      proxies.length >= alternative.proxies &&
+      (!alternative.presidentRequired || hasPresident)
+    );
+  });
+
+  if (satisfied) {
+    return {
+      ...base,
+      canSign: true,
+      basis: `Sposób reprezentacji: ${describeAlternative(satisfied)}`,
+    };
+  }
+
+  return {
+    ...base,
+    canSign: false,
+    basis:
+      alternatives.length > 0
+        ? `Niespełniony sposób reprezentacji (wymagane: ${alternatives.map(describeAlternative).join(" albo ")})`
+        : "Żadna reguła nie dotyczy obecnego składu organu",
+  };
+}
+
+/**
+ * Format a signing authority check as text for non-UI hosts
+ */
+export function formatSigningCheckAsText(check: SigningCheck): string {
+  const lines: string[] = [];
+  const verdict =
+    check.canSign === true
+      ? "✅ TAK - podpisujący mogą reprezentować podmiot"
+      : check.canSign === false
+        ? "❌ NIE - podpisujący nie spełniają sposobu reprezentacji"
+        : "❓ NIE WIADOMO - sposób reprezentacji wymaga ręcznej weryfikacji";
+
+  lines.push(`=== ${check.companyName} (KRS ${check.krs}) ===`);
+  lines.push("");
+  lines.push(verdict);
+  lines.push(`Podstawa: ${check.basis}`);
+  lines.push("");
+  lines.push(`${check.organName} - sposób reprezentacji (wg rejestru):`);
+  lines.push(`   ${check.method}`);
+  if (!check.rule.parsed) {
+    lines.push("   Niezrozumiałe fragmenty:");
+    for (const fragment of check.rule.unparsedFragments) {
+      lines.push(`   • ${fragment}`);
+    }
+  }
+  lines.push("");
+  lines.push("Podpisujący:");
+  for (const s of check.signatories) {
+    const match =
+      s.role === "member"
+        ? `członek organu: ${s.name} - ${s.function}`
+        : s.role === "proxy"
+          ? `prokurent: ${s.name} - ${s.function}`
+          : "nie znaleziono w rejestrze";
+    lines.push(`   • ${s.input} → ${match}`);
+  }
+  if (check.warnings.length > 0) {
+    lines.push("");
+    for (const warning of check.warnings) {
+      lines.push(`⚠️ ${warning}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Internal helpers
+// ============================================================================
+
+function parseAlternative(fragment: string): SigningAlternative | null {
+  if (UNSUPPORTED.test(fragment)) return null;
+
+  const proxyMatch = new RegExp(String.raw`(?:${COUNT}\s+)?prokurent`).exec(fragment);
+  const proxies = proxyMatch ? countWord(proxyMatch[1]) : 0;
+  if (proxies === "all") return null;
+
+  const president = /\bprezes/.test(fragment);
+  const counted = new RegExp(String.raw`${COUNT}\s+(?:z\s+)?${MEMBER}`).exec(fragment);
+  const mentioned = new RegExp(MEMBER).test(fragment);
+  const alone = /samodziel|jednoosobow|kazd/.test(fragment);
+
+  // Members other than the president ("każdy członek", "członek łącznie z ...")
+  const others: number | "all" = counted ? countWord(counted[1]) : mentioned ? 1 : 0;
+  if (president && others === "all") return null;
+  const members = president ? (others as number) + 1 : others;
+
+  if (members === 0 && proxies === 0) return null;
+  // A single signatory needs explicit wording that they act alone
+  if (members !== "all" && members + proxies === 1 && !alone) return null;
+  // "Alone" next to several signatories means clauses were run together
+  if (alone && (members === "all" || members + proxies > 1)) return null;
+
+  return { members, proxies, presidentRequired: president };
+}
+
+function cleanFragment(fragment: string): string {
+  return fragment.replace(/[.,:]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function countWord(word: string | undefined): number | "all" {
+  if (!word) return 1;
+  if (/^\d+$/.test(word)) return Number(word);
+  return NUMBER_WORDS[word] ?? 1;
+}
+
+/**
+ * Organ that represents the company (liquidators during liquidation)
+ */
+function representationOrganFor(company: CompanyData): RepresentationOrgan {
+  const organs = company.representationOrgans ?? [company.representation];
+  if (company.status.code === "in_liquidation") {
+    const liquidators = organs.find((o) => /likwidat/.test(foldText(o.organName)));
+    if (liquidators) return liquidators;
+  }
+  return organs[0] ?? company.representation;
+}
+
+function matchSignatory(
+  input: string,
+  members: BoardMember[],
+  proxies: Proxy[]
+): MatchedSignatory {
+  const tokens = nameTokens(input);
+  const matches = (name: string) => {
+    const candidate = new Set(nameTokens(name));
+    return tokens.length >= 2 && tokens.every((t) => candidate.has(t));
+  };
+
+  const member = members.find((m) => matches(m.name));
+  if (member) {
+    return { input, role: "member", name: member.name, function: member.function };
+  }
+  const proxy = proxies.find((p) => matches(p.name));
+  if (proxy) {
+    return { input, role: "proxy", name: proxy.name, function: proxy.type };
+  }
+  return { input, role: null, name: null, function: null };
+}
+
+function nameTokens(name: string): string[] {
+  return foldText(name).split(/[^a-z]+/).filter(Boolean);
+}
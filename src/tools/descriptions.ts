@@ -89,6 +89,421 @@ export const TOOL_METADATA = {
     ]
   } as const satisfies ToolMetadata,
 
+  /**
+   * Company name search over the local index
+   */
+  search_companies: {
+    title: "Search Polish Companies",
+
+    description: {
+      part1_purpose:
+        "Searches Polish companies by name (including previous names), NIP, REGON or city, with optional filters by voivodeship, legal form and PKD code.",
+
+      part2_returns:
+        "Returns a paged list of matches with KRS number, name, previous names, legal form, city, voivodeship, NIP and REGON.",
+
+      part3_useCase:
+        "Use when the user knows a company name but not its KRS number, e.g. 'what is the KRS of Acme Logistyka sp. z o.o.?', then call view_company with the KRS found.",
+
+      part4_constraints:
+        "Note: Only covers entities previously looked up through this server, so a missing result does not mean the company does not exist. Matching ignores Polish diacritics and legal-form words; when no company matches all words, results matching any word are returned, and failing that names within a typo or two of the query (e.g. 'Logisytka' finds 'Logistyka'); both are marked as approximate."
+    },
+
+    examples: [
+      {
+        scenario: "Find KRS by name",
+        description: "query='acme logistyka' returns the matching company and its KRS number"
+      },
+      {
+        scenario: "Filter by region and activity",
+        description: "voivodeship='mazowieckie', pkd='62.01' lists indexed software companies in Mazovia"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  /**
+   * Merger, division and conversion chain
+   */
+  trace_lineage: {
+    title: "Trace Company Lineage",
+
+    description: {
+      part1_purpose:
+        "Traces a Polish company through mergers, divisions and conversions, following predecessor and/or successor entities level by level.",
+
+      part2_returns:
+        "Returns the visited entities (KRS number, name, legal form, status, depth) and the predecessor-successor links between them with event type and date.",
+
+      part3_useCase:
+        "Use when the user asks where a company came from, what it was before a conversion, or which company took over a struck-off entity.",
+
+      part4_constraints:
+        "Note: Follows at most 5 levels (default 3); each entity is visited once, so circular references end the walk. Entities without a KRS number (e.g. converted sole proprietorships) are listed but not followed."
+    },
+
+    examples: [
+      {
+        scenario: "Origins of a company",
+        description: "krs='0000123456' lists the companies it was merged or converted from"
+      },
+      {
+        scenario: "Successor of a struck-off company",
+        description: "krs='0000654321', direction='successors' shows the company that absorbed it"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  /**
+   * Signing authority check against the representation method
+   */
+  check_signing_authority: {
+    title: "Check Signing Authority",
+
+    description: {
+      part1_purpose:
+        "Checks whether the given people can validly sign on behalf of a Polish company, based on its registered representation method and proxy holders.",
+
+      part2_returns:
+        "Returns a yes / no / cannot-tell answer with the rule it was based on, the parsed signing rule, how each name matched the registry (board member, proxy or not found) and warnings.",
+
+      part3_useCase:
+        "Use before signing a contract, e.g. 'can Jan Kowalski and Anna Nowak sign for KRS 0000123456?', optionally for the signing date.",
+
+      part4_constraints:
+        "Note: Common phrasings (N members jointly, member with proxy, each member alone, president alone, single/multi-member board) are understood; anything else, such as value thresholds or attorneys, is reported as not interpretable instead of guessed. Names are matched ignoring case, diacritics and word order."
+    },
+
+    examples: [
+      {
+        scenario: "Two board members",
+        description: "krs='0000123456', signatories=['Jan Kowalski', 'Piotr Wiśniewski']"
+      },
+      {
+        scenario: "Signing date in the past",
+        description: "krs='0000123456', signatories=['Jan Kowalski'], asOf='2021-03-15'"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  explain_pkd: {
+    title: "Explain PKD Code",
+
+    description: {
+      part1_purpose:
+        "Explains a Polish activity classification (PKD) code or finds codes by keyword, in PKD 2007 and PKD 2025.",
+
+      part2_returns:
+        "For a code: its section, division, group and class names in Polish and English, and the corresponding code in the other edition. For keywords: matching codes with their edition and section.",
+
+      part3_useCase:
+        "Use when a company's activity code needs explaining, to translate an old PKD 2007 code to PKD 2025, or to find the code for a line of business ('which PKD covers software development?').",
+
+      part4_constraints:
+        "Note: Works offline from a bundled dictionary. PKD 2025 is complete down to classes; PKD 2007 is bundled at division level only, plus about 60 frequently registered subclasses, so most PKD 2007 groups, classes and subclasses come back as unknown. Equivalents come only from those correspondence rows; other codes get none rather than a guess."
+    },
+
+    examples: [
+      {
+        scenario: "Explain a code in both editions",
+        description: "query='62.01.Z'"
+      },
+      {
+        scenario: "Find codes by keyword",
+        description: "query='oprogramowanie', version='2025'"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  list_changes: {
+    title: "List Registry Changes",
+
+    description: {
+      part1_purpose:
+        "Lists Polish companies and organizations that had new registry entries on a given day or in a date range, from the registry's daily bulletin.",
+
+      part2_returns:
+        "Returns the number of changed entities per day and their KRS numbers, optionally narrowed to a list of KRS numbers you care about.",
+
+      part3_useCase:
+        "Use to find which companies in a portfolio need re-checking ('did any of these companies change last week?'), then call view_company only for those.",
+
+      part4_constraints:
+        "Note: Up to 31 days per request, no future dates. Says only that an entry was made, not what changed - use view_company (type='pelny') for details. Today's list grows during the day."
+    },
+
+    examples: [
+      {
+        scenario: "Changes on one day",
+        description: "from='2026-10-16'"
+      },
+      {
+        scenario: "Portfolio check for a week",
+        description: "from='2026-10-12', to='2026-10-18', krs=['0000123456', '0000654321']"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  add_to_watchlist: {
+    title: "Add to Watchlist",
+
+    description: {
+      part1_purpose:
+        "Adds Polish companies to your personal watchlist so that changes in their registry data are detected automatically every day.",
+
+      part2_returns:
+        "Returns the companies added, those already watched, any KRS numbers that could not be found, and the watchlist size.",
+
+      part3_useCase:
+        "Use when the user wants to follow counterparties, suppliers or clients over time instead of re-checking them by hand.",
+
+      part4_constraints:
+        "Note: Up to 25 companies per call and 500 per user. Current data becomes the baseline; changes are detected from the next daily check and read with get_watchlist_changes."
+    },
+
+    examples: [
+      {
+        scenario: "Watch two suppliers",
+        description: "krs=['0000123456', '0000654321'], label='supplier'"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  remove_from_watchlist: {
+    title: "Remove from Watchlist",
+
+    description: {
+      part1_purpose: "Removes companies from your personal watchlist.",
+
+      part2_returns:
+        "Returns the companies removed, the KRS numbers that were not on the watchlist, and the watchlist size.",
+
+      part3_useCase: "Use when the user no longer wants to follow a company.",
+
+      part4_constraints:
+        "Note: Changes already detected for the company stay available in get_watchlist_changes."
+    },
+
+    examples: [
+      {
+        scenario: "Stop watching a company",
+        description: "krs=['0000123456']"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  list_watchlist: {
+    title: "List Watchlist",
+
+    description: {
+      part1_purpose: "Lists the companies on your personal watchlist.",
+
+      part2_returns:
+        "Returns each company's name, KRS number, label, when it was added and last checked, and the last registry entry number seen.",
+
+      part3_useCase: "Use when the user asks which companies they are following.",
+
+      part4_constraints: "Note: Shows only the calling user's watchlist."
+    },
+
+    examples: [
+      {
+        scenario: "Show the watchlist",
+        description: "(no arguments)"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  get_watchlist_changes: {
+    title: "Get Watchlist Changes",
+
+    description: {
+      part1_purpose:
+        "Shows changes detected in the companies on your watchlist by the daily registry check.",
+
+      part2_returns:
+        "Returns, newest first, each detected change with the company, the registry entry numbers it covers and a field-by-field diff (name, address, capital, shareholders, board, proxies, PKD codes, legal status and more).",
+
+      part3_useCase:
+        "Use when the user asks 'what changed in my companies?' or wants the recent history of one watched company.",
+
+      part4_constraints:
+        "Note: Companies are checked once a day, so changes appear the day after they are published. An entry that changed only untracked data is listed without field changes."
+    },
+
+    examples: [
+      {
+        scenario: "Changes this month",
+        description: "since='2026-10-01'"
+      },
+      {
+        scenario: "Changes of one company",
+        description: "krs='0000123456'"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  diff_company: {
+    title: "Compare Company with Earlier State",
+
+    description: {
+      part1_purpose:
+        "Shows what changed in a Polish company since the user last looked at it, since a chosen stored snapshot, or since a chosen date.",
+
+      part2_returns:
+        "Returns the company card with changed fields highlighted and a field-by-field diff: board members, shareholders and proxies added, removed or changed, and old vs new name, address, capital, legal status and PKD codes.",
+
+      part3_useCase:
+        "Use when the user asks 'what changed since I last checked this company?' or 'what is different compared to January 2024?'.",
+
+      part4_constraints:
+        "Note: Snapshots are stored per user each time a company is viewed, so the default comparison needs an earlier view; otherwise pass since (YYYY-MM-DD) to compare with the registry state on that day."
+    },
+
+    examples: [
+      {
+        scenario: "Since the last view",
+        description: "krs='0000123456'"
+      },
+      {
+        scenario: "Since a date",
+        description: "krs='0000123456', since='2024-01-01'"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  find_person_roles: {
+    title: "Find Person's Roles in Companies",
+
+    description: {
+      part1_purpose:
+        "Finds every company in which a person sits on the board or supervisory board, holds a prokura or is a shareholder.",
+
+      part2_returns:
+        "Returns the matching people, each with a list of companies (name, KRS) and roles: organ and function, prokura type or held shares, whether the role is current, and the role start and end dates when known.",
+
+      part3_useCase:
+        "Use when the user asks 'in which other companies is Jan Kowalski a board member?' or wants to check a person's links to other businesses.",
+
+      part4_constraints:
+        "Note: Only companies already fetched through this server are covered - the KRS API cannot search by person. Role dates come from full extracts (view_company type='pelny'). Public extracts usually mask PESEL, so people are matched by name and namesakes may be mixed up; a birth date narrows matches only where the registry shows it."
+    },
+
+    examples: [
+      {
+        scenario: "By name",
+        description: "name='Jan Kowalski'"
+      },
+      {
+        scenario: "With birth date",
+        description: "name='Jan Kowalski', birthDate='1970-05-12'"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  ownership_graph: {
+    title: "Trace Ownership Structure",
+
+    description: {
+      part1_purpose:
+        "Builds the ownership structure above a Polish company by following shareholders that are themselves KRS companies, level by level.",
+
+      part2_returns:
+        "Returns the companies, people and other entities found (nodes), who holds what percentage in whom (edges), and every natural person at the top of a chain with their effective direct plus indirect share, the chains behind it and whether it exceeds the 25% beneficial owner threshold.",
+
+      part3_useCase:
+        "Use when the user asks who ultimately owns a company, needs an ultimate beneficial owner (UBO) check, or wants to see a holding structure.",
+
+      part4_constraints:
+        "Note: Follows at most 5 levels (default 3) and 50 companies; each company is fetched once, so cross-holdings are reported but not followed around. Foreign and other entities without a KRS number end a chain and are listed as unresolved. Joint-stock companies only list a sole shareholder, so their other owners are unknown. This is registry data only, not a substitute for the CRBR beneficial owner register."
+    },
+
+    examples: [
+      {
+        scenario: "Ultimate owners",
+        description: "krs='0000123456'"
+      },
+      {
+        scenario: "Deep holding structure",
+        description: "krs='0000123456', maxDepth=5"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  view_companies_batch: {
+    title: "View Many Polish Companies",
+
+    description: {
+      part1_purpose:
+        "Looks up many Polish companies by KRS number in a single call, e.g. to check a whole vendor or client list.",
+
+      part2_returns:
+        "Returns one result per KRS number in the order given: a compact summary (name, legal form, legal status, city, NIP, REGON, registration date, capital, last entry number) or a typed error (invalid_krs, not_found, timeout, unavailable, api_error), plus a table-style summary and a compact list widget.",
+
+      part3_useCase:
+        "Use when the user gives a list of KRS numbers to verify, instead of calling view_company once per number.",
+
+      part4_constraints:
+        "Note: At most 50 numbers per call by default (configurable per deployment, never more than 100); longer lists must be split. Leading zeros may be omitted and duplicates are looked up once. Failed numbers do not fail the batch - retry those with a timeout or unavailable error."
+    },
+
+    examples: [
+      {
+        scenario: "Vendor list",
+        description: "krs=['0000821672', '0000123456', '19193']"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  compare_companies: {
+    title: "Compare Polish Companies",
+
+    description: {
+      part1_purpose:
+        "Compares two to five Polish companies side by side.",
+
+      part2_returns:
+        "Returns aligned rows (legal form, status, seat city and voivodeship, registration date and age, share capital, board, supervisory board, proxy and shareholder counts, main PKD, last financial statement) with one value per company and a flag where they differ, plus a PKD overlap table; shown as a comparison table with differences highlighted.",
+
+      part3_useCase:
+        "Use when the user wants to compare competitors, suppliers or acquisition targets, or asks which of several companies is older, larger or active in the same business.",
+
+      part4_constraints:
+        "Note: Accepts 2 to 5 distinct KRS numbers; the comparison fails if any of them cannot be fetched. Capital is compared as registered share capital, which says little about company size."
+    },
+
+    examples: [
+      {
+        scenario: "Two competitors",
+        description: "krs=['0000821672', '0000123456']"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
+  assess_company: {
+    title: "Assess Company Risk",
+
+    description: {
+      part1_purpose:
+        "Checks a Polish company for common due-diligence red flags using its full KRS extract.",
+
+      part2_returns:
+        "Returns the company data with named risk indicators (young company, recent board change, recent address change, minimal share capital, sole shareholder who is the sole board member, liquidation / bankruptcy / restructuring, missing financial statements, frequently changed seat), each with severity (low, medium, high) and the registry facts behind it; shown in the company card.",
+
+      part3_useCase:
+        "Use when the user vets a business partner, supplier or counterparty, or asks whether anything about a company looks suspicious.",
+
+      part4_constraints:
+        "Note: Indicators are heuristics drawn from the registry only (no financial data, court records outside KRS or sanctions lists); an empty list does not mean the company is safe. Time windows count back from today."
+    },
+
+    examples: [
+      {
+        scenario: "Vet a new supplier",
+        description: "krs='0000821672'"
+      }
+    ]
+  } as const satisfies ToolMetadata,
+
   // TODO: Add your tools here following this pattern:
   //
   // "your-tool-name": {
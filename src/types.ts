@@ -44,6 +44,18 @@ export interface Env {
    */
   CACHE_KV: KVNamespace;
 
+  /**
+   * D1 database for KRS Viewer data: company and people index, watchlists,
+   * snapshots (schema in ./migrations; not the shared mcp-oauth database)
+   */
+  KRS_DB: D1Database;
+
+  /**
+   * Maximum number of KRS numbers per view_companies_batch call
+   * (default 50, at most 100)
+   */
+  KRS_BATCH_MAX_SIZE?: string;
+
   /**
    * AI Gateway configuration
    */
@@ -54,6 +66,167 @@ export interface Env {
 // KRS API Response Types
 // ========================================================================
 
+/**
+ * KRS register: "P" (entrepreneurs) or "S" (associations, foundations and
+ * other non-profit organisations)
+ */
+export type KrsRegistry = "P" | "S";
+
+/**
+ * Register selection for lookups ("auto" tries P, then S)
+ */
+export type KrsRegistryOption = KrsRegistry | "auto";
+
+/**
+ * Natural person as listed in a current extract
+ */
+export interface KrsPerson {
+  nazwisko: { nazwisko: string };
+  imiona: { imie: string };
+  /** PESEL, usually masked in public extracts */
+  identyfikator?: { pesel?: string };
+}
+
+/**
+ * Shareholder or partner in a current extract - either a natural person
+ * (imiona/nazwisko) or a legal entity (nazwa, KRS, REGON)
+ */
+export interface KrsShareholder extends Partial<Omit<KrsPerson, "identyfikator">> {
+  nazwa?: string;
+  identyfikator?: { regon?: string; pesel?: string };
+  krs?: { krs?: string };
+  posiadaneUdzialy?: string;
+  /** Limited partner liability cap (sp.k.) */
+  sumaKomandytowa?: string;
+  czyPosiadaCaloscUdzialow?: boolean;
+}
+
+/**
+ * Representation organ (e.g. management board) in a current extract
+ */
+export interface KrsRepresentationOrgan {
+  nazwaOrganu: string;
+  sposobReprezentacji: string;
+  sklad: Array<KrsPerson & { funkcjaWOrganie: string }>;
+}
+
+/**
+ * Arrears, unsatisfied claims and similar entries (section 4)
+ */
+export interface KrsDebtItem {
+  opis?: string;
+  kwota?: string;
+  data?: string;
+  oznaczenieOrganu?: string;
+}
+
+/**
+ * Court proceeding or dissolution entry (section 6)
+ */
+export interface KrsProceedingItem {
+  dataRozpoczecia?: string;
+  dataZakonczenia?: string;
+  sygnaturaAkt?: string;
+  oznaczenieSadu?: string;
+  opis?: string;
+}
+
+/**
+ * Section 4: arrears and debt enforcement
+ */
+export interface KrsSection4<T> {
+  /** Tax and social security arrears */
+  zaleglosci?: T;
+  /** Claims left unsatisfied in enforcement proceedings */
+  wierzytelnosci?: T;
+  /** Bankruptcy petitions dismissed for lack of assets */
+  oddalenieWnioskuOUpadlosc?: T;
+}
+
+/**
+ * Section 6: liquidation, dissolution, bankruptcy, restructuring, receivership
+ */
+export interface KrsSection6<T> {
+  likwidacja?: T;
+  rozwiazanieUniewaznienie?: T;
+  postepowanieUpadlosciowe?: T;
+  postepowanieRestrukturyzacyjne?: T;
+  zarzadPrzymusowy?: T;
+}
+
+/**
+ * Share capital amount as written in the registry ("1.234.567,00")
+ */
+export interface KrsCapital {
+  wartosc: string;
+  waluta: string;
+}
+
+/**
+ * Seat (siedziba) of a company or branch
+ */
+export interface KrsSeat {
+  kraj: string;
+  wojewodztwo: string;
+  powiat?: string;
+  gmina?: string;
+  miejscowosc: string;
+}
+
+/**
+ * Street address of a company or branch
+ */
+export interface KrsStreetAddress {
+  ulica: string;
+  nrDomu: string;
+  nrLokalu?: string;
+  miejscowosc?: string;
+  kodPocztowy: string;
+  poczta?: string;
+  kraj?: string;
+}
+
+/**
+ * Entity taking part in a merger, division or conversion
+ */
+export interface KrsRelatedEntity {
+  nazwa?: string;
+  numerKRS?: string;
+  nazwaRejestru?: string;
+  kraj?: string;
+}
+
+/**
+ * Merger, division or conversion record (dzial1 origin or dzial6 event)
+ */
+export interface KrsLineageItem {
+  /** Circumstances, e.g. "POŁĄCZENIE SPÓŁEK", "PRZEKSZTAŁCENIE" */
+  okolicznosciPowstania?: string;
+  okreslenieOkolicznosci?: string;
+  opis?: string;
+  data?: string;
+  podmioty?: KrsRelatedEntity[];
+}
+
+/**
+ * Mention of a filed document (section 3)
+ */
+export interface KrsFilingItem {
+  dataZlozenia?: string;
+  /** Reporting period, e.g. "01.01.2023 - 31.12.2023" */
+  zaOkresOdDo?: string;
+}
+
+/**
+ * Section 3: mentions of filed annual documents
+ */
+export interface KrsFilingSections<T> {
+  wzmiankaOZlozeniuRocznegoSprawozdaniaFinansowego?: T;
+  wzmiankaOZlozeniuOpiniiBieglegoRewidentaSprawozdaniaZBadania?: T;
+  wzmiankaOZlozeniuUchwalyPostanowieniaOZatwierdzeniuRocznegoSprawozdaniaFinansowego?: T;
+  wzmiankaOZlozeniuSprawozdaniaZDzialalnosci?: T;
+}
+
 /**
  * Raw KRS API response structure
  */
@@ -65,6 +238,11 @@ export interface KrsApiResponse {
       dataRejestracjiWKRS: string;
       stanZDnia: string;
       dataCzasOdpisu?: string;
+      dataWykreslenia?: string;
+      numerOstatniegoWpisu?: number | string;
+      dataOstatniegoWpisu?: string;
+      sygnaturaAktSprawyDotyczacejOstatniegoWpisu?: string;
+      oznaczenieSaduDokonujacegoOstatniegoWpisu?: string;
     };
     dane: {
       dzial1: {
@@ -75,58 +253,205 @@ export interface KrsApiResponse {
             regon?: string;
           };
           nazwa: string;
+          czyPosiadaStatusOPP?: boolean;
+        };
+        /** How the entity came into being (predecessors of a merger, division, conversion) */
+        sposobPowstaniaPodmiotu?: KrsLineageItem;
+        organSprawujacyNadzor?: {
+          nazwa: string;
         };
         siedzibaIAdres: {
-          siedziba: {
-            kraj: string;
-            wojewodztwo: string;
-            miejscowosc: string;
-          };
-          adres: {
-            ulica: string;
-            nrDomu: string;
-            nrLokalu?: string;
-            kodPocztowy: string;
-          };
+          siedziba: KrsSeat;
+          adres: KrsStreetAddress;
+          adresPocztyElektronicznej?: string;
+          adresStronyInternetowej?: string;
         };
+        /** Branches (oddziały) */
+        jednostkiTerenoweOddzialy?: Array<{
+          nazwa: string;
+          siedziba?: KrsSeat;
+          adres?: KrsStreetAddress;
+        }>;
         kapital?: {
-          wysokoscKapitaluZakladowego: {
-            wartosc: string;
-            waluta: string;
-          };
+          wysokoscKapitaluZakladowego: KrsCapital;
         };
-        wspolnicySpzoo?: Array<{
-          nazwisko: { nazwisko: string };
-          imiona: { imie: string };
-          posiadaneUdzialy: string;
-        }>;
+        /** Shareholders of a sp. z o.o. */
+        wspolnicySpzoo?: KrsShareholder[];
+        /** Partners of a sp.j., sp.p. or sp.k. */
+        wspolnicy?: KrsShareholder[];
+        /** General partners of a S.K.A. */
+        komplementariusze?: KrsShareholder[];
+        /** Sole shareholder of a S.A. / P.S.A. */
+        jedynyAkcjonariusz?: KrsShareholder[];
       };
       dzial2: {
-        reprezentacja: {
-          nazwaOrganu: string;
-          sposobReprezentacji: string;
-          sklad: Array<{
-            nazwisko: { nazwisko: string };
-            imiona: { imie: string };
-            funkcjaWOrganie: string;
-          }>;
-        };
+        /** Usually a single organ; some entities register more than one */
+        reprezentacja: KrsRepresentationOrgan | KrsRepresentationOrgan[];
+        organNadzoru?: Array<{
+          nazwa: string;
+          sklad?: Array<KrsPerson & { funkcjaWOrganie?: string }>;
+        }>;
+        prokurenci?: Array<KrsPerson & { rodzajProkury?: string }>;
       };
       dzial3: {
         przedmiotDzialalnosci: {
-          przedmiotPrzewazajacejDzialalnosci: Array<{
-            opis: string;
-            kodDzial: string;
-            kodKlasa: string;
-            kodPodklasa: string;
-          }>;
-          przedmiotPozostalejDzialalnosci?: Array<{
-            opis: string;
-            kodDzial: string;
-            kodKlasa: string;
-            kodPodklasa: string;
+          przedmiotPrzewazajacejDzialalnosci: KrsPkdItem[];
+          przedmiotPozostalejDzialalnosci?: KrsPkdItem[];
+        };
+        celDzialaniaOrganizacji?: {
+          celDzialania: string;
+        };
+        wzmiankiOZlozonychDokumentach?: KrsFilingSections<KrsFilingItem[]>;
+      };
+      dzial4?: KrsSection4<KrsDebtItem[]>;
+      dzial6?: KrsSection6<KrsProceedingItem[]> & {
+        /** Mergers, divisions and conversions the entity took part in */
+        polaczeniePodzialPrzeksztalcenie?: KrsLineageItem[];
+      };
+    };
+  };
+}
+
+// ========================================================================
+// KRS API Response Types (Full Extract)
+// ========================================================================
+
+/**
+ * Entry references attached to every value in a full ("Pelny") extract.
+ * `nrWpisuWprow` is the entry that introduced the value, `nrWpisuWykr`
+ * the entry that removed it (absent while the value is still in force).
+ */
+export interface KrsEntryRef {
+  nrWpisuWprow: string;
+  nrWpisuWykr?: string;
+}
+
+/**
+ * List of successive values of a single field in a full extract
+ */
+export type KrsHistorical<T> = Array<T & KrsEntryRef>;
+
+/**
+ * Person (board member or shareholder) as listed in a full extract.
+ * Each personal field carries its own history.
+ */
+export interface KrsFullPerson extends KrsEntryRef {
+  nazwisko: KrsHistorical<{ nazwisko: { nazwisko: string } }>;
+  imiona: KrsHistorical<{ imiona: { imie: string } }>;
+  identyfikator?: KrsHistorical<{ identyfikator: { pesel?: string } }>;
+}
+
+/**
+ * Shareholder or partner in a full extract (person or legal entity)
+ */
+export interface KrsFullShareholder extends KrsEntryRef {
+  nazwisko?: KrsFullPerson["nazwisko"];
+  imiona?: KrsFullPerson["imiona"];
+  nazwa?: KrsHistorical<{ nazwa: string }>;
+  identyfikator?: KrsHistorical<{ identyfikator: { regon?: string; pesel?: string } }>;
+  krs?: KrsHistorical<{ krs: { krs?: string } }>;
+  posiadaneUdzialy?: KrsHistorical<{ posiadaneUdzialy: string }>;
+  sumaKomandytowa?: KrsHistorical<{ sumaKomandytowa: string }>;
+  czyPosiadaCaloscUdzialow?: KrsHistorical<{ czyPosiadaCaloscUdzialow: boolean }>;
+}
+
+/**
+ * Member of a representation or supervisory organ in a full extract
+ */
+export interface KrsFullOrganMember extends KrsFullPerson {
+  funkcjaWOrganie?: KrsHistorical<{ funkcjaWOrganie: string }>;
+}
+
+/**
+ * PKD activity entry (shared by current and full extracts)
+ */
+export interface KrsPkdItem {
+  opis: string;
+  kodDzial: string;
+  kodKlasa: string;
+  kodPodklasa: string;
+}
+
+/**
+ * Raw KRS API full extract ("OdpisPelny") response structure
+ */
+export interface KrsFullApiResponse {
+  odpis: {
+    rodzaj: "Pelny";
+    naglowekP: {
+      numerKRS: string;
+      dataRejestracjiWKRS: string;
+      stanZDnia: string;
+      dataCzasOdpisu?: string;
+      dataWykreslenia?: string;
+      wpis: Array<{
+        numerWpisu: string;
+        dataWpisu: string;
+        opis?: string;
+        sygnaturaAktSprawyDotyczacejWpisu?: string;
+        oznaczenieSaduDokonujacegoWpisu?: string;
+      }>;
+    };
+    dane: {
+      dzial1: {
+        danePodmiotu: {
+          formaPrawna: KrsHistorical<{ formaPrawna: string }>;
+          identyfikatory?: KrsHistorical<{
+            identyfikatory: { nip?: string; regon?: string };
           }>;
+          nazwa: KrsHistorical<{ nazwa: string }>;
+          czyPosiadaStatusOPP?: KrsHistorical<{ czyPosiadaStatusOPP: boolean }>;
         };
+        sposobPowstaniaPodmiotu?: KrsHistorical<KrsLineageItem>;
+        organSprawujacyNadzor?: KrsHistorical<{ nazwa: string }>;
+        siedzibaIAdres: {
+          siedziba: KrsHistorical<KrsSeat>;
+          adres: KrsHistorical<KrsStreetAddress>;
+          adresPocztyElektronicznej?: KrsHistorical<{ adresPocztyElektronicznej: string }>;
+          adresStronyInternetowej?: KrsHistorical<{ adresStronyInternetowej: string }>;
+        };
+        jednostkiTerenoweOddzialy?: Array<
+          KrsEntryRef & {
+            nazwa?: KrsHistorical<{ nazwa: string }>;
+            siedziba?: KrsHistorical<KrsSeat>;
+            adres?: KrsHistorical<KrsStreetAddress>;
+          }
+        >;
+        kapital?: {
+          wysokoscKapitaluZakladowego: KrsHistorical<KrsCapital>;
+        };
+        wspolnicySpzoo?: KrsFullShareholder[];
+        wspolnicy?: KrsFullShareholder[];
+        komplementariusze?: KrsFullShareholder[];
+        jedynyAkcjonariusz?: KrsFullShareholder[];
+      };
+      dzial2?: {
+        reprezentacja?: {
+          nazwaOrganu: KrsHistorical<{ nazwaOrganu: string }>;
+          sposobReprezentacji?: KrsHistorical<{ sposobReprezentacji: string }>;
+          sklad?: KrsFullOrganMember[];
+        };
+        organNadzoru?: Array<{
+          nazwa: KrsHistorical<{ nazwa: string }>;
+          sklad?: KrsFullOrganMember[];
+        }>;
+        prokurenci?: Array<
+          KrsFullPerson & {
+            rodzajProkury?: KrsHistorical<{ rodzajProkury: string }>;
+          }
+        >;
+      };
+      dzial3?: {
+        przedmiotDzialalnosci?: {
+          przedmiotPrzewazajacejDzialalnosci?: KrsHistorical<KrsPkdItem>;
+          przedmiotPozostalejDzialalnosci?: KrsHistorical<KrsPkdItem>;
+        };
+        celDzialaniaOrganizacji?: KrsHistorical<{ celDzialania: string }>;
+        wzmiankiOZlozonychDokumentach?: KrsFilingSections<KrsHistorical<KrsFilingItem>>;
+      };
+      dzial4?: KrsSection4<KrsHistorical<KrsDebtItem>>;
+      dzial6?: KrsSection6<KrsHistorical<KrsProceedingItem>> & {
+        polaczeniePodzialPrzeksztalcenie?: KrsHistorical<KrsLineageItem>;
       };
     };
   };
@@ -136,6 +461,338 @@ export interface KrsApiResponse {
 // Transformed Company Data (Widget-Ready)
 // ========================================================================
 
+/**
+ * Registered seat and address
+ */
+export interface CompanyAddress {
+  city: string;
+  voivodeship: string;
+  /** Powiat */
+  county: string | null;
+  /** Gmina */
+  municipality: string | null;
+  street: string;
+  building: string;
+  unit: string | null;
+  postalCode: string;
+  /** Poczta (post office town, when different from the city) */
+  postOffice: string | null;
+  country: string;
+}
+
+/**
+ * Electronic contact details
+ */
+export interface CompanyContact {
+  email: string | null;
+  website: string | null;
+}
+
+/**
+ * Branch (oddział)
+ */
+export interface Branch {
+  name: string;
+  address: CompanyAddress;
+}
+
+/**
+ * Legal form of an entity
+ */
+export type LegalFormCode =
+  | "limited_liability_company" // sp. z o.o.
+  | "joint_stock_company" // S.A.
+  | "simple_joint_stock_company" // P.S.A.
+  | "european_company" // SE
+  | "limited_joint_stock_partnership" // S.K.A.
+  | "general_partnership" // sp.j.
+  | "professional_partnership" // sp.p.
+  | "limited_partnership" // sp.k.
+  | "cooperative" // spółdzielnia
+  | "mutual_insurance_society" // TUW
+  | "state_enterprise" // przedsiębiorstwo państwowe
+  | "foreign_branch" // oddział zagranicznego przedsiębiorcy
+  | "association" // stowarzyszenie
+  | "foundation" // fundacja
+  | "other";
+
+/**
+ * Legal form classification with the metadata that drives presentation
+ */
+export interface LegalFormInfo {
+  code: LegalFormCode;
+  /** Customary abbreviation ("sp. z o.o."), null if there is none */
+  abbreviation: string | null;
+  /** Share capital is recorded in the registry */
+  hasShareCapital: boolean;
+  /** Statutory minimum capital (null if none) */
+  minimumCapital: { amount: number; currency: string } | null;
+  /** At least one partner is personally liable for the company's debts */
+  personalLiability: boolean;
+  /** Must file annual financial statements with KRS regardless of size */
+  filesFinancialStatements: boolean;
+}
+
+/**
+ * Share capital
+ */
+export interface CompanyCapital {
+  /** Exact decimal with a dot separator ("1234567.00") */
+  value: string;
+  /** Amount in minor units (grosze), null if the registry value is unparseable */
+  minorUnits: number | null;
+  currency: string;
+  /** Formatted for display ("1 234 567,00 PLN") */
+  display: string;
+  /** Value as written in the registry ("1.234.567,00") */
+  raw: string;
+}
+
+/**
+ * Role of a shareholder or partner, depending on the legal form
+ */
+export type ShareholderRole =
+  | "shareholder" // wspólnik sp. z o.o.
+  | "sole_shareholder" // jedyny akcjonariusz S.A. / P.S.A.
+  | "partner" // wspólnik sp.j. / sp.p.
+  | "general_partner" // komplementariusz
+  | "limited_partner"; // komandytariusz
+
+/**
+ * Share count and nominal value parsed from the raw shares description
+ */
+export interface ShareHolding {
+  count: number | null;
+  /** Total nominal value as a decimal string ("5000.00") */
+  nominalValue: string | null;
+  /** ISO currency code ("PLN") */
+  currency: string | null;
+}
+
+interface ShareholderBase {
+  name: string;
+  role: ShareholderRole;
+  /** Raw description of held shares (or limited partner's liability cap) */
+  shares: string;
+  /** Holds all shares (jedyny wspólnik / jedyny akcjonariusz) */
+  soleShareholder: boolean;
+  /** Parsed shares (null if the description could not be parsed) */
+  holding: ShareHolding | null;
+  /** Share of capital in percent (null if it cannot be computed) */
+  percentage: number | null;
+  /** Shares are pledged, seized or otherwise encumbered */
+  encumbered: boolean;
+}
+
+/**
+ * Shareholder who is a natural person
+ */
+export interface PersonShareholder extends ShareholderBase {
+  kind: "person";
+  /** Decoded from PESEL when the extract shows it (ISO 8601) */
+  birthDate: string | null;
+}
+
+/**
+ * Shareholder who is a legal entity (company, foundation, municipality, ...)
+ */
+export interface EntityShareholder extends ShareholderBase {
+  kind: "entity";
+  krs: string | null;
+  regon: string | null;
+}
+
+/**
+ * Shareholder or partner
+ */
+export type Shareholder = PersonShareholder | EntityShareholder;
+
+/**
+ * Member of a representation body (e.g. management board)
+ */
+export interface BoardMember {
+  name: string;
+  function: string;
+  /** Decoded from PESEL when the extract shows it (ISO 8601) */
+  birthDate: string | null;
+}
+
+/**
+ * Representation organ with its members and method of representation
+ */
+export interface RepresentationOrgan {
+  organName: string;
+  method: string;
+  members: BoardMember[];
+}
+
+/**
+ * Supervisory body (e.g. rada nadzorcza, komisja rewizyjna)
+ */
+export interface SupervisoryBoard {
+  organName: string;
+  members: BoardMember[];
+}
+
+/**
+ * Proxy holder (prokurent)
+ */
+export interface Proxy {
+  name: string;
+  /** Kind of prokura, e.g. "PROKURA SAMOISTNA", "PROKURA ŁĄCZNA" */
+  type: string;
+  /** Decoded from PESEL when the extract shows it (ISO 8601) */
+  birthDate: string | null;
+}
+
+/**
+ * Overall legal status of the company
+ */
+export type CompanyStatusCode =
+  | "active"
+  | "in_liquidation"
+  | "bankrupt"
+  | "in_restructuring"
+  | "deregistered";
+
+/**
+ * Court proceeding or dissolution recorded in section 6
+ */
+export interface Proceeding {
+  kind: "liquidation" | "dissolution" | "bankruptcy" | "restructuring" | "receivership";
+  startDate: string | null;
+  startDateRaw: string | null;
+  endDate: string | null;
+  endDateRaw: string | null;
+  court: string | null;
+  caseSignature: string | null;
+  description: string | null;
+}
+
+/**
+ * Arrears or enforcement entry recorded in section 4
+ */
+export interface DebtEntry {
+  kind: "arrears" | "unsatisfied_claim" | "bankruptcy_petition_dismissed";
+  description: string | null;
+  amount: string | null;
+  date: string | null;
+  dateRaw: string | null;
+  authority: string | null;
+}
+
+/**
+ * Legal status derived from sections 4 and 6
+ */
+export interface CompanyStatus {
+  code: CompanyStatusCode;
+  /** Start date of the proceeding (or deregistration) that determines the status */
+  since: string | null;
+  sinceRaw: string | null;
+  /** Ongoing and concluded proceedings */
+  proceedings: Proceeding[];
+  debts: DebtEntry[];
+}
+
+/**
+ * Kind of annual document filed with the registry
+ */
+export type FilingKind =
+  | "financial_statement"
+  | "audit_report"
+  | "approval_resolution"
+  | "management_report";
+
+/**
+ * Annual document filed with the registry (section 3)
+ */
+export interface Filing {
+  kind: FilingKind;
+  periodFrom: string | null;
+  periodFromRaw: string | null;
+  periodTo: string | null;
+  periodToRaw: string | null;
+  /** Financial year the document covers (year of the period end) */
+  year: number | null;
+  filedOn: string | null;
+  filedOnRaw: string | null;
+}
+
+/**
+ * Derived financial statement filing flags
+ */
+export interface FilingStatus {
+  /** Latest financial year with a filed financial statement */
+  lastStatementYear: number | null;
+  lastStatementFiledOn: string | null;
+  /** Latest financial year whose filing deadline has passed */
+  expectedYear: number;
+  /** No financial statement filed for the expected year (null when the
+   *  legal form need not file with KRS) */
+  missingPreviousYear: boolean | null;
+}
+
+/**
+ * Kind of corporate event linking two entities
+ */
+export type LineageEvent = "merger" | "division" | "transformation" | "other";
+
+/**
+ * Link to a predecessor or successor entity
+ */
+export interface LineageLink {
+  /** predecessor: entity this one was created from or absorbed;
+   *  successor: entity this one merged into or was converted into */
+  direction: "predecessor" | "successor";
+  event: LineageEvent;
+  /** KRS number of the related entity (null if not registered in KRS) */
+  krs: string | null;
+  name: string | null;
+  date: string | null;
+  dateRaw: string | null;
+  description: string | null;
+}
+
+/**
+ * PKD classification edition
+ */
+export type PkdVersion = "2007" | "2025";
+
+/**
+ * Corresponding code in the other PKD edition
+ */
+export interface PkdEquivalent {
+  version: PkdVersion;
+  code: string;
+  name: string;
+}
+
+/**
+ * PKD activity
+ */
+export interface Activity {
+  code: string;
+  description: string;
+  /** Edition the code belongs to */
+  version: PkdVersion;
+  /** Section letter ("J"), null if the division is unknown */
+  section: string | null;
+  /** Codes in the other edition (empty if not in the correspondence table) */
+  equivalents: PkdEquivalent[];
+}
+
+/**
+ * Details specific to the associations/foundations register (S)
+ */
+export interface NonProfitInfo {
+  /** Public-benefit organisation (OPP) status */
+  publicBenefit: boolean;
+  /** Authority supervising the organisation */
+  supervisoryAuthority: string | null;
+  /** Statutory objectives */
+  objectives: string | null;
+}
+
 /**
  * Company data structure for widget rendering
  */
@@ -143,55 +800,283 @@ export interface CompanyData {
   // Header
   name: string;
   krs: string;
+  registry: KrsRegistry;
   nip: string | null;
   regon: string | null;
   legalForm: string;
+  legalFormInfo: LegalFormInfo;
 
-  // Address
-  address: {
-    city: string;
-    voivodeship: string;
-    street: string;
-    building: string;
-    unit: string | null;
-    postalCode: string;
-    country: string;
-  };
+  // Address, contact details and branches
+  address: CompanyAddress;
+  contact: CompanyContact;
+  branches: Branch[];
 
   // Capital
-  capital: {
-    value: string;
-    currency: string;
-  } | null;
-  shareholders: Array<{
-    name: string;
-    shares: string;
-  }>;
-
-  // Board
-  representation: {
-    organName: string;
-    method: string;
-    members: Array<{
-      name: string;
-      function: string;
-    }>;
-  };
+  capital: CompanyCapital | null;
+  shareholders: Shareholder[];
+
+  // Board (first representation organ; all organs in representationOrgans)
+  representation: RepresentationOrgan;
+  representationOrgans: RepresentationOrgan[];
+  supervisoryBoard: SupervisoryBoard | null;
+  proxies: Proxy[];
 
   // Activities
-  mainActivity: Array<{
-    code: string;
-    description: string;
-  }>;
-  otherActivities: Array<{
-    code: string;
-    description: string;
-  }>;
-
-  // Meta
+  mainActivity: Activity[];
+  otherActivities: Activity[];
+
+  // Legal status (liquidation, bankruptcy, restructuring, arrears)
+  status: CompanyStatus;
+
+  // Mergers, divisions and conversions
+  lineage: LineageLink[];
+
+  // Annual financial statements and related filings
+  filings: Filing[];
+  filingStatus: FilingStatus;
+
+  // Register S details (null for entrepreneurs)
+  nonProfit: NonProfitInfo | null;
+
+  // Meta (ISO 8601 dates, raw registry values alongside)
   registrationDate: string;
+  registrationDateRaw: string;
   lastUpdate: string;
+  lastUpdateRaw: string;
   dataTimestamp: string;
+  dataTimestampRaw: string | null;
+
+  // Registry court and the entries the data is based on
+  registryCourt: string | null;
+  lastEntryNumber: number | null;
+  /** Most recent entries, oldest first (current extracts carry only the last one) */
+  lastEntries: RegistryEntry[];
+
+  /** Version of this structure (COMPANY_DATA_SCHEMA_VERSION) */
+  schemaVersion: number;
+
+  // Change history (only for "pelny" extracts)
+  history?: CompanyHistory;
+
+  // Point-in-time reconstruction (only for "as of date" queries)
+  asOf?: AsOfInfo;
+
+  // Changes against an earlier state (only when compared, see CompanyDiff)
+  diff?: CompanyDiff;
+
+  // Due-diligence red flags (only when assessed, see RiskAssessment)
+  risk?: RiskAssessment;
+}
+
+/**
+ * Describes which registry entries a point-in-time snapshot is based on
+ */
+export interface AsOfInfo {
+  /** Requested date (ISO 8601) */
+  date: string;
+  /** Last entry made on or before the requested date */
+  entryNumber: number;
+  entryDate: string;
+  /** Entries that introduced the values shown in the snapshot */
+  basedOnEntries: number[];
+}
+
+// ========================================================================
+// Company History (Full Extract)
+// ========================================================================
+
+/**
+ * Single entry (wpis) made in the registry
+ */
+export interface RegistryEntry {
+  number: number;
+  date: string;
+  dateRaw: string;
+  description: string | null;
+  caseSignature: string | null;
+  court: string | null;
+}
+
+/**
+ * Value of a field together with the entries that introduced and removed it
+ */
+export interface HistoryEntry<T> {
+  value: T;
+  introducedIn: number;
+  introducedOn: string | null;
+  removedIn: number | null;
+  removedOn: string | null;
+}
+
+/**
+ * Seat part of the address (kept separately because the registry
+ * records seat and street address changes as independent entries)
+ */
+export type CompanySeat = Pick<
+  CompanyAddress,
+  "city" | "voivodeship" | "county" | "municipality" | "country"
+>;
+
+/**
+ * Street part of the address
+ */
+export type CompanyStreetAddress = Pick<
+  CompanyAddress,
+  "street" | "building" | "unit" | "postalCode" | "postOffice"
+>;
+
+/**
+ * Change history of a company rebuilt from the full extract
+ */
+export interface CompanyHistory {
+  entries: RegistryEntry[];
+  names: HistoryEntry<string>[];
+  legalForms: HistoryEntry<string>[];
+  identifiers: HistoryEntry<{ nip: string | null; regon: string | null }>[];
+  seats: HistoryEntry<CompanySeat>[];
+  addresses: HistoryEntry<CompanyStreetAddress>[];
+  emails: HistoryEntry<string>[];
+  websites: HistoryEntry<string>[];
+  branches: HistoryEntry<Branch>[];
+  capital: HistoryEntry<CompanyCapital>[];
+  shareholders: HistoryEntry<Shareholder>[];
+  representation: {
+    organNames: HistoryEntry<string>[];
+    methods: HistoryEntry<string>[];
+    members: HistoryEntry<BoardMember>[];
+  };
+  supervisoryBoard: {
+    organNames: HistoryEntry<string>[];
+    members: HistoryEntry<BoardMember>[];
+  };
+  proxies: HistoryEntry<Proxy>[];
+  proceedings: HistoryEntry<Proceeding>[];
+  debts: HistoryEntry<DebtEntry>[];
+  filings: HistoryEntry<Filing>[];
+  mainActivities: HistoryEntry<Activity>[];
+  otherActivities: HistoryEntry<Activity>[];
+}
+
+// ========================================================================
+// Company Diff
+// ========================================================================
+
+/**
+ * Difference in a single field
+ */
+export type FieldChange =
+  | {
+      field: string;
+      label: string;
+      kind: "value";
+      before: string | null;
+      after: string | null;
+    }
+  | {
+      field: string;
+      label: string;
+      kind: "list";
+      added: string[];
+      removed: string[];
+      /** Same person or entity with different details (e.g. new function or shares) */
+      changed: { before: string; after: string }[];
+    };
+
+/**
+ * One side of a comparison
+ */
+export interface DiffSide {
+  /** snapshot: stored earlier view; registry: state on a date; current: fresh extract */
+  source: "snapshot" | "registry" | "current";
+  /** ISO 8601 date or timestamp of the state */
+  date: string;
+  entryNumber: number | null;
+  snapshotId: number | null;
+}
+
+/**
+ * Changes between two states of the same company
+ */
+export interface CompanyDiff {
+  from: DiffSide;
+  to: DiffSide;
+  changes: FieldChange[];
+}
+
+// ========================================================================
+// Risk Indicators
+// ========================================================================
+
+/**
+ * Weight of a due-diligence red flag
+ */
+export type RiskSeverity = "low" | "medium" | "high";
+
+/**
+ * Red flags checked by the risk rules
+ */
+export type RiskIndicatorCode =
+  | "young_company"
+  | "recent_board_change"
+  | "recent_address_change"
+  | "minimal_capital"
+  | "sole_shareholder_director"
+  | "liquidation_or_bankruptcy"
+  | "missing_financial_statements"
+  | "frequent_seat_changes";
+
+/**
+ * Red flag raised for a company
+ */
+export interface RiskIndicator {
+  code: RiskIndicatorCode;
+  label: string;
+  severity: RiskSeverity;
+  /** Facts from the extract that raised the flag */
+  evidence: string[];
+}
+
+/**
+ * Result of checking a company against the risk rules
+ */
+export interface RiskAssessment {
+  /** Reference date of time-based rules (ISO 8601) */
+  assessedOn: string;
+  /** full: change history was available; current: current extract only */
+  basis: "current" | "full";
+  /** Most severe first */
+  indicators: RiskIndicator[];
+  highestSeverity: RiskSeverity | null;
+  /** Rules skipped because they need the change history (full extract) */
+  notAssessed: RiskIndicatorCode[];
+}
+
+// ========================================================================
+// Change Feed (Biuletyn)
+// ========================================================================
+
+/**
+ * Number of companies with registry entries on one day
+ */
+export interface ChangeFeedDay {
+  date: string;
+  count: number;
+}
+
+/**
+ * Companies with registry entries in a date range
+ */
+export interface ChangeFeed {
+  /** ISO 8601 date range (inclusive) */
+  from: string;
+  to: string;
+  days: ChangeFeedDay[];
+  /** Distinct KRS numbers changed in the range (only the filtered ones when filter is set) */
+  krs: string[];
+  /** Distinct KRS numbers changed in the range before filtering */
+  total: number;
+  /** Caller-supplied KRS list the feed was intersected with */
+  filter: { requested: number; matched: number } | null;
 }
 
 // ========================================================================
@@ -199,6 +1084,10 @@ export interface CompanyData {
 // ========================================================================
 
 export interface ViewCompanyParams {
-  krs: string;
+  krs?: string;
+  nip?: string;
+  regon?: string;
   type?: "aktualny" | "pelny";
+  asOf?: string;
+  registry?: KrsRegistryOption;
 }
@@ -0,0 +1,556 @@
+/**
+ * Company Watchlists (D1)
+ *
+ * Per-user lists of companies to follow. Each entry keeps a baseline: the
+ * last registry entry number seen and the comparable fields of the company.
+ * The daily scheduled check (checkWatchlists) re-fetches watched companies
+ * that appear in the registry's change feed, plus the companies checked
+ * least recently, and records a change event with a field-level diff
+ * whenever a new entry or a changed field is found.
+ *
+ * Schema: migrations/0003_watchlists.sql
+ */
+
+import type { CompanyData, Env, FieldChange } from "./types.js";
+import {
+  companyFields,
+  diffFields,
+  formatFieldChanges,
+  type CompanyFields,
+} from "./helpers/company-diff.js";
+import { KrsClient } from "./krs-client.js";
+import { logger } from "./shared/logger.js";
+
+/** Maximum number of companies on one user's watchlist */
+export const MAX_WATCHLIST_SIZE = 500;
+
+/** Maximum number of change events returned at once */
+export const MAX_WATCHLIST_EVENTS = 100;
+
+/** Days of change feed covered by each run, ending yesterday (overlap absorbs publication delays) */
+const FEED_DAYS = 2;
+
+/** Companies re-checked each run regardless of the change feed, least recently checked first */
+const SWEEP_PER_RUN = 25;
+
+/** Maximum number of companies fetched in one run */
+const MAX_CHECKS_PER_RUN = 200;
+
+/**
+ * Company on a watchlist
+ */
+export interface WatchlistEntry {
+  krs: string;
+  name: string;
+  label: string | null;
+  /** ISO 8601 timestamps */
+  addedAt: string;
+  checkedAt: string | null;
+  lastEntryNumber: number | null;
+}
+
+/**
+ * Change detected in a watched company
+ */
+export interface WatchlistEvent {
+  id: number;
+  krs: string;
+  name: string;
+  detectedAt: string;
+  entryNumberBefore: number | null;
+  entryNumberAfter: number | null;
+  /** Changed fields (empty when the new entries touched untracked data only) */
+  changes: FieldChange[];
+}
+
+/**
+ * Result of a scheduled watchlist check
+ */
+export interface WatchlistCheckSummary {
+  watched: number;
+  /** The change feed could be read (otherwise only the sweep ran) */
+  feedAvailable: boolean;
+  checked: number;
+  events: number;
+  failed: number;
+}
+
+/**
+ * Result of adding or removing companies
+ */
+export interface WatchlistUpdate {
+  /** Companies added (add) or removed (remove) */
+  changed: { krs: string; name: string }[];
+  /** Already watched (add) or not on the watchlist (remove) */
+  unchanged: string[];
+  failed: { krs: string; error: string }[];
+  /** Watchlist size after the update */
+  size: number;
+}
+
+interface EntryRow {
+  user_id: string;
+  krs: string;
+  name: string;
+  label: string | null;
+  added_at: number;
+  last_entry_number: number | null;
+  fields: string;
+  checked_at: number | null;
+}
+
+interface EventRow {
+  id: number;
+  krs: string;
+  name: string;
+  detected_at: number;
+  entry_number_before: number | null;
+  entry_number_after: number | null;
+  changes: string;
+}
+
+export class Watchlist {
+  constructor(private db: D1Database) {}
+
+  /**
+   * Start watching a company, using the fetched data as the baseline
+   *
+   * Adding a company that is already watched only updates its label.
+   *
+   * @returns false if the company was already on the watchlist
+   * @throws Error if the watchlist is full
+   */
+  async add(userId: string, data: CompanyData, label?: string): Promise<boolean> {
+    const existing = await this.db
+      .prepare(`SELECT krs FROM watchlist_entries WHERE user_id = ? AND krs = ?`)
+      .bind(userId, data.krs)
+      .first<{ krs: string }>();
+
+    if (existing) {
+      if (label !== undefined) {
+        await this.db
+          .prepare(`UPDATE watchlist_entries SET label = ? WHERE user_id = ? AND krs = ?`)
+          .bind(label, userId, data.krs)
+          .run();
+      }
+      return false;
+    }
+
+    if ((await this.size(userId)) >= MAX_WATCHLIST_SIZE) {
+      throw new Error(`Watchlist is full (at most ${MAX_WATCHLIST_SIZE} companies)`);
+    }
+
+    const now = Date.now();
+    await this.db
+      .prepare(
+        `INSERT INTO watchlist_entries
+           (user_id, krs, name, label, added_at, last_entry_number, fields, checked_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        userId,
+        data.krs,
+        data.name,
+        label ?? null,
+        now,
+        data.lastEntryNumber,
+        JSON.stringify(companyFields(data)),
+        now
+      )
+      .run();
+
+    return true;
+  }
+
+  /**
+   * Stop watching a company (its recorded events are kept)
+   *
+   * @returns false if the company was not on the watchlist
+   */
+  async remove(userId: string, krs: string): Promise<boolean> {
+    const result = await this.db
+      .prepare(`DELETE FROM watchlist_entries WHERE user_id = ? AND krs = ?`)
+      .bind(userId, krs)
+      .run();
+    return (result.meta.changes ?? 0) > 0;
+  }
+
+  /**
+   * Companies on a user's watchlist, by name
+   */
+  async list(userId: string): Promise<WatchlistEntry[]> {
+    const rows = await this.db
+      .prepare(
+        `SELECT * FROM watchlist_entries WHERE user_id = ? ORDER BY name COLLATE NOCASE`
+      )
+      .bind(userId)
+      .all<EntryRow>();
+
+    return rows.results.map((row) => ({
+      krs: row.krs,
+      name: row.name,
+      label: row.label,
+      addedAt: new Date(row.added_at).toISOString(),
+      checkedAt: row.checked_at === null ? null : new Date(row.checked_at).toISOString(),
+      lastEntryNumber: row.last_entry_number,
+    }));
+  }
+
+  /**
+   * Number of companies on a user's watchlist
+   */
+  async size(userId: string): Promise<number> {
+    const row = await this.db
+      .prepare(`SELECT COUNT(*) AS total FROM watchlist_entries WHERE user_id = ?`)
+      .bind(userId)
+      .first<{ total: number }>();
+    return row?.total ?? 0;
+  }
+
+  /**
+   * Change events recorded for a user, newest first
+   *
+   * @param since - Only events detected on or after this ISO 8601 date
+   * @param krs - Only events for this company
+   */
+  async events(
+    userId: string,
+    options: { since?: string; krs?: string; limit?: number } = {}
+  ): Promise<WatchlistEvent[]> {
+    const conditions = ["user_id = ?"];
+    const params: (string | number)[] = [userId];
+    if (options.since) {
+      conditions.push("detected_at >= ?");
+      params.push(Date.parse(`${options.since}T00:00:00Z`));
+    }
+    if (options.krs) {
+      conditions.push("krs = ?");
+      params.push(options.krs);
+    }
+    const limit = Math.min(MAX_WATCHLIST_EVENTS, Math.max(1, options.limit ?? 20));
+
+    const rows = await this.db
+      .prepare(
+        `SELECT id, krs, name, detected_at, entry_number_before, entry_number_after, changes
+         FROM watchlist_events
+         WHERE ${conditions.join(" AND ")}
+         ORDER BY detected_at DESC, id DESC
+         LIMIT ?`
+      )
+      .bind(...params, limit)
+      .all<EventRow>();
+
+    return rows.results.map((row) => ({
+      id: row.id,
+      krs: row.krs,
+      name: row.name,
+      detectedAt: new Date(row.detected_at).toISOString(),
+      entryNumberBefore: row.entry_number_before,
+      entryNumberAfter: row.entry_number_after,
+      changes: JSON.parse(row.changes) as FieldChange[],
+    }));
+  }
+
+  /**
+   * Distinct KRS numbers watched by anyone
+   */
+  async watchedKrs(): Promise<string[]> {
+    const rows = await this.db
+      .prepare(`SELECT DISTINCT krs FROM watchlist_entries`)
+      .all<{ krs: string }>();
+    return rows.results.map((row) => row.krs);
+  }
+
+  /**
+   * Watched companies checked least recently
+   */
+  async stalest(limit: number): Promise<string[]> {
+    const rows = await this.db
+      .prepare(
+        `SELECT krs FROM watchlist_entries
+         GROUP BY krs
+         ORDER BY MIN(COALESCE(checked_at, 0))
+         LIMIT ?`
+      )
+      .bind(limit)
+      .all<{ krs: string }>();
+    return rows.results.map((row) => row.krs);
+  }
+
+  /**
+   * Compare fresh data with every user's baseline for the company
+   *
+   * Records an event for each user whose baseline differs and moves the
+   * baseline forward. Data older than the baseline (a lower entry number,
+   * e.g. from a stale cache) is ignored.
+   *
+   * @returns Number of events recorded
+   */
+  async compare(data: CompanyData): Promise<number> {
+    const rows = await this.db
+      .prepare(`SELECT * FROM watchlist_entries WHERE krs = ?`)
+      .bind(data.krs)
+      .all<EntryRow>();
+
+    const fields = companyFields(data);
+    const now = Date.now();
+    const statements: D1PreparedStatement[] = [];
+    let recorded = 0;
+
+    for (const row of rows.results) {
+      const before = row.last_entry_number;
+      const after = data.lastEntryNumber;
+      if (before !== null && after !== null && after < before) continue;
+
+      const changes = diffFields(JSON.parse(row.fields) as CompanyFields, fields);
+      const newEntries = before !== null && after !== null && after > before;
+
+      if (changes.length > 0 || newEntries) {
+        statements.push(
+          this.db
+            .prepare(
+              `INSERT INTO watchlist_events
+                 (user_id, krs, name, detected_at, entry_number_before, entry_number_after, changes)
+               VALUES (?, ?, ?, ?, ?, ?, ?)`
+            )
+            .bind(row.user_id, data.krs, data.name, now, before, after, JSON.stringify(changes))
+        );
+        recorded++;
+      }
+
+      statements.push(
+        this.db
+          .prepare(
+            `UPDATE watchlist_entries
+             SET name = ?, last_entry_number = ?, fields = ?, checked_at = ?
+             WHERE user_id = ? AND krs = ?`
+          )
+          .bind(data.name, after ?? before, JSON.stringify(fields), now, row.user_id, data.krs)
+      );
+    }
+
+    if (statements.length > 0) {
+      await this.db.batch(statements);
+    }
+    return recorded;
+  }
+}
+
+/**
+ * Daily check of all watched companies (run from the scheduled handler)
+ *
+ * Companies listed in the change feed for the last FEED_DAYS days are
+ * re-fetched, together with the SWEEP_PER_RUN least recently checked ones,
+ * so that changes are still found when the feed is unavailable or a
+ * publication was missed. Comparing entry numbers and fields makes repeated
+ * checks of an unchanged company harmless.
+ */
+export async function checkWatchlists(env: Env): Promise<WatchlistCheckSummary> {
+  const watchlist = new Watchlist(env.KRS_DB);
+  const client = new KrsClient(env);
+
+  const watched = await watchlist.watchedKrs();
+  const summary: WatchlistCheckSummary = {
+    watched: watched.length,
+    feedAvailable: true,
+    checked: 0,
+    events: 0,
+    failed: 0,
+  };
+  if (watched.length === 0) return summary;
+
+  const candidates = new Set<string>();
+  const day = 24 * 3600 * 1000;
+  const from = new Date(Date.now() - FEED_DAYS * day).toISOString().slice(0, 10);
+  const to = new Date(Date.now() - day).toISOString().slice(0, 10);
+  try {
+    const feed = await client.getChanges(from, to, watched);
+    feed.krs.forEach((krs) => candidates.add(krs));
+  } catch (error) {
+    summary.feedAvailable = false;
+    logger.warn({
+      event: "upstream_error",
+      service: "krs",
+      operation: "watchlist_change_feed",
+      key: `${from}..${to}`,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  for (const krs of await watchlist.stalest(SWEEP_PER_RUN)) {
+    candidates.add(krs);
+  }
+
+  // Companies over the cap are picked up by later sweeps
+  for (const krs of [...candidates].slice(0, MAX_CHECKS_PER_RUN)) {
+    let data: CompanyData;
+    try {
+      data = await client.getCompany(krs);
+    } catch (error) {
+      summary.failed++;
+      logger.warn({
+        event: "upstream_error",
+        service: "krs",
+        operation: "watchlist_check",
+        key: krs,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    try {
+      summary.events += await watchlist.compare(data);
+      summary.checked++;
+    } catch (error) {
+      summary.failed++;
+      logger.warn({
+        event: "storage_error",
+        operation: "watchlist_compare",
+        key: krs,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Add companies to a user's watchlist
+ *
+ * Each company is fetched to confirm it exists and to set its baseline.
+ * A company that cannot be fetched is reported and the rest are still added.
+ */
+export async function addToWatchlist(
+  watchlist: Watchlist,
+  client: KrsClient,
+  userId: string,
+  krsList: string[],
+  label?: string
+): Promise<WatchlistUpdate> {
+  const update: WatchlistUpdate = { changed: [], unchanged: [], failed: [], size: 0 };
+
+  for (const krs of new Set(krsList)) {
+    try {
+      const data = await client.getCompany(krs);
+      if (await watchlist.add(userId, data, label)) {
+        update.changed.push({ krs, name: data.name });
+      } else {
+        update.unchanged.push(krs);
+      }
+    } catch (error) {
+      update.failed.push({
+        krs,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  update.size = await watchlist.size(userId);
+  return update;
+}
+
+/**
+ * Remove companies from a user's watchlist
+ */
+export async function removeFromWatchlist(
+  watchlist: Watchlist,
+  userId: string,
+  krsList: string[]
+): Promise<WatchlistUpdate> {
+  const entries = new Map((await watchlist.list(userId)).map((e) => [e.krs, e.name]));
+  const update: WatchlistUpdate = { changed: [], unchanged: [], failed: [], size: 0 };
+
+  for (const krs of new Set(krsList)) {
+    if (await watchlist.remove(userId, krs)) {
+      update.changed.push({ krs, name: entries.get(krs) ?? "" });
+    } else {
+      update.unchanged.push(krs);
+    }
+  }
+
+  update.size = await watchlist.size(userId);
+  return update;
+}
+
+/**
+ * Format an add / remove result as text for non-UI hosts
+ */
+export function formatWatchlistUpdateAsText(
+  update: WatchlistUpdate,
+  action: "add" | "remove"
+): string {
+  const lines: string[] = [];
+  const adding = action === "add";
+
+  lines.push(
+    `${adding ? "➕ Dodano" : "➖ Usunięto"}: ${update.changed.length} ` +
+      `(na liście: ${update.size}/${MAX_WATCHLIST_SIZE})`
+  );
+  for (const { krs, name } of update.changed) {
+    lines.push(`   • ${name || "?"} - KRS ${krs}`);
+  }
+  if (update.unchanged.length > 0) {
+    lines.push(
+      `${adding ? "Już obserwowane" : "Nie było na liście"}: ${update.unchanged.join(", ")}`
+    );
+  }
+  if (update.failed.length > 0) {
+    lines.push("⚠️ Nie udało się dodać:");
+    for (const { krs, error } of update.failed) {
+      lines.push(`   • KRS ${krs}: ${error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a watchlist as text for non-UI hosts
+ */
+export function formatWatchlistAsText(entries: WatchlistEntry[]): string {
+  const lines: string[] = [];
+  lines.push(`👁️ Obserwowane podmioty (${entries.length}/${MAX_WATCHLIST_SIZE})`);
+  lines.push("");
+
+  if (entries.length === 0) {
+    lines.push("Lista jest pusta.");
+  }
+  for (const entry of entries) {
+    lines.push(`• ${entry.name} - KRS ${entry.krs}${entry.label ? ` [${entry.label}]` : ""}`);
+    const checked = entry.checkedAt ? entry.checkedAt.slice(0, 10) : "jeszcze nie";
+    const lastEntry = entry.lastEntryNumber !== null ? `, ostatni wpis ${entry.lastEntryNumber}` : "";
+    lines.push(`   Sprawdzono: ${checked}${lastEntry}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format watchlist change events as text for non-UI hosts
+ */
+export function formatWatchlistEventsAsText(events: WatchlistEvent[]): string {
+  const lines: string[] = [];
+  lines.push(`🔔 Wykryte zmiany (${events.length})`);
+
+  if (events.length === 0) {
+    lines.push("");
+    lines.push("Brak zmian w obserwowanych podmiotach.");
+  }
+  for (const event of events) {
+    lines.push("");
+    const { entryNumberBefore: before, entryNumberAfter: after } = event;
+    const entries =
+      before === null || after === null || after === before
+        ? ""
+        : after === before + 1
+          ? ` (wpis ${after})`
+          : ` (wpisy ${before + 1}-${after})`;
+    lines.push(`• ${event.detectedAt.slice(0, 10)} ${event.name} - KRS ${event.krs}${entries}`);
+    if (event.changes.length === 0) {
+      lines.push("   Nowe wpisy bez zmian w obserwowanych polach");
+    } else {
+      lines.push(...formatFieldChanges(event.changes));
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -16,51 +16,286 @@ import {
 import { Badge } from "../components/ui/badge";
 import "../styles/globals.css";
 
+interface Address {
+  city: string;
+  voivodeship: string;
+  county?: string | null;
+  municipality?: string | null;
+  street: string;
+  building: string;
+  unit: string | null;
+  postalCode: string;
+  postOffice?: string | null;
+  country: string;
+}
+
+interface RepresentationOrgan {
+  organName: string;
+  method: string;
+  members: Array<{
+    name: string;
+    function: string;
+    birthDate?: string | null;
+  }>;
+}
+
+interface Proceeding {
+  kind: "liquidation" | "dissolution" | "bankruptcy" | "restructuring" | "receivership";
+  startDate: string | null;
+  endDate: string | null;
+  court: string | null;
+  caseSignature: string | null;
+  description: string | null;
+}
+
+interface CompanyStatus {
+  code: "active" | "in_liquidation" | "bankrupt" | "in_restructuring" | "deregistered";
+  since: string | null;
+  proceedings: Proceeding[];
+  debts: Array<{
+    kind: "arrears" | "unsatisfied_claim" | "bankruptcy_petition_dismissed";
+    description: string | null;
+    amount: string | null;
+    date: string | null;
+    authority: string | null;
+  }>;
+}
+
+interface Filing {
+  kind:
+    | "financial_statement"
+    | "audit_report"
+    | "approval_resolution"
+    | "management_report";
+  periodFrom: string | null;
+  periodTo: string | null;
+  year: number | null;
+  filedOn: string | null;
+}
+
+type FieldChange =
+  | {
+      field: string;
+      label: string;
+      kind: "value";
+      before: string | null;
+      after: string | null;
+    }
+  | {
+      field: string;
+      label: string;
+      kind: "list";
+      added: string[];
+      removed: string[];
+      changed: Array<{ before: string; after: string }>;
+    };
+
+interface CompanyDiff {
+  from: { source: "snapshot" | "registry" | "current"; date: string; entryNumber: number | null };
+  to: { source: "snapshot" | "registry" | "current"; date: string; entryNumber: number | null };
+  changes: FieldChange[];
+}
+
+interface RiskAssessment {
+  assessedOn: string;
+  basis: "current" | "full";
+  indicators: Array<{
+    code: string;
+    label: string;
+    severity: "low" | "medium" | "high";
+    evidence: string[];
+  }>;
+  highestSeverity: "low" | "medium" | "high" | null;
+  notAssessed: string[];
+}
+
+interface Activity {
+  code: string;
+  description: string;
+  version?: "2007" | "2025";
+  section?: string | null;
+  equivalents?: Array<{ version: string; code: string; name: string }>;
+}
+
+// find_person_roles result (matches server output)
+interface PersonLookup {
+  query: { name: string; birthDate: string | null };
+  persons: Array<{
+    name: string;
+    birthDate: string | null;
+    roles: Array<{
+      krs: string;
+      companyName: string;
+      role: "board" | "supervisory_board" | "proxy" | "shareholder";
+      function: string | null;
+      organ: string | null;
+      since: string | null;
+      until: string | null;
+      current: boolean;
+    }>;
+  }>;
+  total: number;
+  truncated: boolean;
+  possibleNamesakes: boolean;
+}
+
 // Company data type (matches server output)
 interface CompanyData {
   name: string;
   krs: string;
+  registry: "P" | "S";
   nip: string | null;
   regon: string | null;
   legalForm: string;
-  address: {
-    city: string;
-    voivodeship: string;
-    street: string;
-    building: string;
-    unit: string | null;
-    postalCode: string;
-    country: string;
+  legalFormInfo?: {
+    code: string;
+    abbreviation: string | null;
+    hasShareCapital: boolean;
+    minimumCapital: { amount: number; currency: string } | null;
+    personalLiability: boolean;
+  };
+  address: Address;
+  contact?: {
+    email: string | null;
+    website: string | null;
   };
+  branches?: Array<{
+    name: string;
+    address: Address;
+  }>;
   capital: {
     value: string;
     currency: string;
+    minorUnits?: number | null;
+    display?: string;
   } | null;
   shareholders: Array<{
+    kind: "person" | "entity";
     name: string;
+    role:
+      | "shareholder"
+      | "sole_shareholder"
+      | "partner"
+      | "general_partner"
+      | "limited_partner";
     shares: string;
+    soleShareholder: boolean;
+    krs?: string | null;
+    regon?: string | null;
+    holding?: {
+      count: number | null;
+      nominalValue: string | null;
+      currency: string | null;
+    } | null;
+    percentage?: number | null;
+    encumbered?: boolean;
+    birthDate?: string | null;
   }>;
-  representation: {
+  representation: RepresentationOrgan;
+  representationOrgans?: RepresentationOrgan[];
+  supervisoryBoard: {
     organName: string;
-    method: string;
     members: Array<{
       name: string;
       function: string;
+      birthDate?: string | null;
     }>;
-  };
-  mainActivity: Array<{
-    code: string;
-    description: string;
-  }>;
-  otherActivities: Array<{
-    code: string;
-    description: string;
+  } | null;
+  proxies: Array<{
+    name: string;
+    type: string;
+    birthDate?: string | null;
   }>;
+  mainActivity: Activity[];
+  otherActivities: Activity[];
+  nonProfit: {
+    publicBenefit: boolean;
+    supervisoryAuthority: string | null;
+    objectives: string | null;
+  } | null;
+  status?: CompanyStatus;
+  filings?: Filing[];
+  filingStatus?: {
+    lastStatementYear: number | null;
+    lastStatementFiledOn: string | null;
+    expectedYear: number;
+    missingPreviousYear: boolean | null;
+  };
   registrationDate: string;
   lastUpdate: string;
   dataTimestamp: string;
+  registryCourt?: string | null;
+  lastEntryNumber?: number | null;
+  lastEntries?: Array<{
+    number: number;
+    date: string;
+    description: string | null;
+    caseSignature: string | null;
+    court: string | null;
+  }>;
+  diff?: CompanyDiff;
+  risk?: RiskAssessment;
 }
 
+// Register labels
+const REGISTRY_LABELS: Record<CompanyData["registry"], string> = {
+  P: "Rejestr przedsiębiorców",
+  S: "Rejestr stowarzyszeń i fundacji",
+};
+
+// Shareholder role labels
+const SHAREHOLDER_ROLE_LABELS: Record<CompanyData["shareholders"][number]["role"], string> = {
+  shareholder: "Wspólnik",
+  sole_shareholder: "Jedyny akcjonariusz",
+  partner: "Wspólnik",
+  general_partner: "Komplementariusz",
+  limited_partner: "Komandytariusz",
+};
+
+// Legal status labels
+const STATUS_LABELS: Record<CompanyStatus["code"], string> = {
+  active: "Aktywny",
+  in_liquidation: "W likwidacji",
+  bankrupt: "W upadłości",
+  in_restructuring: "W restrukturyzacji",
+  deregistered: "Wykreślony z rejestru",
+};
+
+// Proceeding kind labels
+const PROCEEDING_LABELS: Record<Proceeding["kind"], string> = {
+  liquidation: "Likwidacja",
+  dissolution: "Rozwiązanie / unieważnienie",
+  bankruptcy: "Postępowanie upadłościowe",
+  restructuring: "Postępowanie restrukturyzacyjne",
+  receivership: "Zarząd przymusowy",
+};
+
+// Filed document labels
+const FILING_LABELS: Record<Filing["kind"], string> = {
+  financial_statement: "Sprawozdanie finansowe",
+  audit_report: "Sprawozdanie z badania",
+  approval_resolution: "Uchwała zatwierdzająca",
+  management_report: "Sprawozdanie z działalności",
+};
+
+// Person role labels (organ name is shown instead when known)
+const PERSON_ROLE_LABELS: Record<PersonLookup["persons"][number]["roles"][number]["role"], string> = {
+  board: "Organ reprezentacji",
+  supervisory_board: "Organ nadzoru",
+  proxy: "Prokurent",
+  shareholder: "Wspólnik",
+};
+
+// Ownership chart segment colors
+const OWNERSHIP_COLORS = [
+  "bg-blue-500",
+  "bg-emerald-500",
+  "bg-amber-500",
+  "bg-violet-500",
+  "bg-rose-500",
+  "bg-cyan-500",
+];
+
 // Prefixed logging
 const log = {
   info: console.log.bind(console, "[CompanyCard]"),
@@ -68,6 +303,71 @@ const log = {
   error: console.error.bind(console, "[CompanyCard]"),
 };
 
+// Registry websites are often stored without a scheme ("www.example.pl")
+function toWebsiteUrl(website: string): string {
+  return /^https?:\/\//i.test(website) ? website : `https://${website}`;
+}
+
+// Dates arrive as ISO 8601; show them the way the registry writes them
+function formatDate(value: string): string {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return iso ? `${iso[3]}.${iso[2]}.${iso[1]}` : value;
+}
+
+// Risk indicator badges by severity
+const SEVERITY_STYLES: Record<RiskAssessment["indicators"][number]["severity"], string> = {
+  high: "border-red-300 bg-red-100 text-red-800 dark:border-red-800 dark:bg-red-900 dark:text-red-100",
+  medium: "border-orange-300 bg-orange-100 text-orange-800 dark:border-orange-800 dark:bg-orange-900 dark:text-orange-100",
+  low: "border-yellow-300 bg-yellow-100 text-yellow-800 dark:border-yellow-800 dark:bg-yellow-900 dark:text-yellow-100",
+};
+
+const SEVERITY_LABELS: Record<RiskAssessment["indicators"][number]["severity"], string> = {
+  high: "wysokie",
+  medium: "średnie",
+  low: "niskie",
+};
+
+// Changed sections get a ring when the payload carries a diff
+const CHANGED_RING = "ring-2 ring-amber-400";
+
+// Diff list items read "name - details"; find the state of one person or entity
+function itemChange(change: FieldChange | undefined, name: string): "added" | "changed" | null {
+  if (!change || change.kind !== "list") return null;
+  const prefix = `${name} - `;
+  if (change.added.some((item) => item.startsWith(prefix))) return "added";
+  if (change.changed.some((item) => item.after.startsWith(prefix))) return "changed";
+  return null;
+}
+
+function ItemChangeBadge({ state }: { state: "added" | "changed" | null }) {
+  if (!state) return null;
+  return (
+    <Badge className="ml-2 bg-amber-400 text-xs text-amber-950 hover:bg-amber-400">
+      {state === "added" ? "nowy" : "zmiana"}
+    </Badge>
+  );
+}
+
+// Person names open the list of their roles in other companies
+function PersonName({
+  name,
+  onSelect,
+}: {
+  name: string;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      title="Pokaż role tej osoby w innych spółkach"
+      className="font-medium text-left hover:underline focus:underline focus:outline-none"
+    >
+      {name}
+    </button>
+  );
+}
+
 // Safe area padding helper
 function getSafeAreaPaddingStyle(
   hostContext?: McpUiHostContext
@@ -88,6 +388,11 @@ function CompanyCardWidget() {
   const [data, setData] = useState<CompanyData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [person, setPerson] = useState<{
+    name: string;
+    lookup: PersonLookup | null;
+    error: string | null;
+  } | null>(null);
 
   useEffect(() => {
     // Manual App instantiation with autoResize: false
@@ -170,6 +475,42 @@ function CompanyCardWidget() {
     return () => appInstance.close();
   }, []);
 
+  // Open external links through the host (sandboxed iframes cannot navigate)
+  const openLink = (url: string) => {
+    if (!app) return;
+    app
+      .openLink({ url })
+      .then(({ isError }) => {
+        if (isError) log.warn("Host denied opening link:", url);
+      })
+      .catch((err) => log.error("Failed to open link:", err));
+  };
+
+  // Look up a person's roles in other indexed companies
+  const showPersonRoles = (name: string, birthDate?: string | null) => {
+    if (!app) return;
+    setPerson({ name, lookup: null, error: null });
+    app
+      .callServerTool({
+        name: "find_person_roles",
+        arguments: birthDate ? { name, birthDate } : { name },
+      })
+      .then((result) => {
+        const text = result.content?.[0];
+        setPerson({
+          name,
+          lookup: result.isError ? null : (result.structuredContent as unknown as PersonLookup),
+          error: result.isError
+            ? text?.type === "text" ? text.text : "Nie udało się pobrać ról"
+            : null,
+        });
+      })
+      .catch((err) => {
+        log.error("Failed to look up person:", err);
+        setPerson({ name, lookup: null, error: String(err) });
+      });
+  };
+
   // Error state
   if (appError) {
     return (
@@ -246,15 +587,95 @@ function CompanyCardWidget() {
     );
   }
 
+  // Sections depend on the legal form (older payloads have no legalFormInfo)
+  const form = data.legalFormInfo;
+  const showCapital =
+    !!data.capital && (!form || form.hasShareCapital || form.code === "other");
+  const belowMinimumCapital =
+    !!form?.minimumCapital &&
+    data.capital?.minorUnits != null &&
+    data.capital.currency === form.minimumCapital.currency &&
+    data.capital.minorUnits < form.minimumCapital.amount * 100;
+  const holdersLabel =
+    form?.code === "joint_stock_company" ||
+    form?.code === "simple_joint_stock_company" ||
+    form?.code === "european_company"
+      ? "Akcjonariusze"
+      : "Wspólnicy";
+
+  // Fields changed since the compared state (diff_company, or since the last view)
+  const changes = new Map((data.diff?.changes ?? []).map((c) => [c.field, c]));
+  const ring = (...fields: string[]) =>
+    fields.some((field) => changes.has(field)) ? CHANGED_RING : "";
+
   // Success - render company card
   return (
     <div
-      className="h-[600px] w-full flex flex-col bg-white dark:bg-slate-900 overflow-hidden"
+      className="relative h-[600px] w-full flex flex-col bg-white dark:bg-slate-900 overflow-hidden"
       style={getSafeAreaPaddingStyle(hostContext)}
     >
       <div className="flex-1 overflow-auto p-4 space-y-4">
+        {/* Status Warning Banner */}
+        {data.status &&
+          (data.status.code !== "active" || data.status.debts.length > 0) && (
+            <div
+              role="alert"
+              className="rounded-lg border border-red-300 bg-red-50 p-3 text-red-900 dark:border-red-800 dark:bg-red-950 dark:text-red-100"
+            >
+              <p className="text-sm font-semibold">
+                ⚠️ {STATUS_LABELS[data.status.code]}
+                {data.status.code !== "active" &&
+                  data.status.since &&
+                  ` od ${formatDate(data.status.since)}`}
+              </p>
+              {data.status.proceedings.map((proceeding, idx) => (
+                <p key={idx} className="text-xs mt-1">
+                  {PROCEEDING_LABELS[proceeding.kind]}
+                  {proceeding.startDate && ` od ${formatDate(proceeding.startDate)}`}
+                  {proceeding.endDate
+                    ? `, zakończone ${formatDate(proceeding.endDate)}`
+                    : ", w toku"}
+                  {proceeding.caseSignature &&
+                    ` (sygn. ${proceeding.caseSignature})`}
+                </p>
+              ))}
+              {data.status.debts.length > 0 && (
+                <p className="text-xs mt-1">
+                  Wpisy o zaległościach lub egzekucji: {data.status.debts.length}
+                </p>
+              )}
+            </div>
+          )}
+
+        {/* Changes Banner */}
+        {data.diff && data.diff.changes.length > 0 && (
+          <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-amber-950 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-100">
+            <p className="text-sm font-semibold">
+              🔀 Zmiany od {formatDate(data.diff.from.date.slice(0, 10))}
+              {data.diff.from.entryNumber != null &&
+                data.diff.to.entryNumber != null &&
+                data.diff.from.entryNumber !== data.diff.to.entryNumber &&
+                ` (wpisy ${data.diff.from.entryNumber} → ${data.diff.to.entryNumber})`}
+            </p>
+            <ul className="mt-1 space-y-1 text-xs">
+              {data.diff.changes.map((change) => (
+                <li key={change.field}>
+                  <span className="font-medium">{change.label}: </span>
+                  {change.kind === "value"
+                    ? `${change.before ?? "—"} → ${change.after ?? "—"}`
+                    : [
+                        ...change.added.map((item) => `+ ${item}`),
+                        ...change.removed.map((item) => `− ${item}`),
+                        ...change.changed.map((item) => `${item.before} → ${item.after}`),
+                      ].join("; ")}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Header Section */}
-        <Card>
+        <Card className={ring("name", "legalForm", "status")}>
           <CardHeader className="pb-3">
             <div className="flex items-start justify-between">
               <div className="flex-1">
@@ -272,12 +693,105 @@ function CompanyCardWidget() {
                 </CardDescription>
               </div>
             </div>
-            <Badge className="mt-2 w-fit">{data.legalForm}</Badge>
+            <div className="mt-2 flex flex-wrap gap-2">
+              <Badge className="w-fit">
+                {data.legalForm}
+                {form?.abbreviation && ` (${form.abbreviation})`}
+              </Badge>
+              {form?.personalLiability && (
+                <Badge variant="outline" className="w-fit">
+                  Odpowiedzialność osobista wspólników
+                </Badge>
+              )}
+              <Badge variant="outline" className="w-fit">
+                {REGISTRY_LABELS[data.registry] ?? data.registry}
+              </Badge>
+              {data.nonProfit?.publicBenefit && (
+                <Badge variant="secondary" className="w-fit">
+                  OPP
+                </Badge>
+              )}
+            </div>
           </CardHeader>
         </Card>
 
+        {/* Risk Indicators */}
+        {data.risk && (data.risk.indicators.length > 0 || data.risk.basis === "full") && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <span>🚩</span> Wskaźniki ryzyka
+              </CardTitle>
+              <CardDescription className="text-xs">
+                Stan na {formatDate(data.risk.assessedOn)}
+                {data.risk.notAssessed.length > 0 &&
+                  ` · bez historii zmian nie sprawdzono ${data.risk.notAssessed.length} wskaźników`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-0">
+              {data.risk.indicators.length === 0 ? (
+                <p className="text-sm text-muted-foreground">✅ Nie wykryto wskaźników ryzyka</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {data.risk.indicators.map((indicator) => (
+                    <li key={indicator.code}>
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant="outline"
+                          className={`text-xs shrink-0 ${SEVERITY_STYLES[indicator.severity]}`}
+                        >
+                          {SEVERITY_LABELS[indicator.severity]}
+                        </Badge>
+                        <span className="font-medium">{indicator.label}</span>
+                      </div>
+                      <ul className="mt-1 ml-4 list-disc text-xs text-muted-foreground">
+                        {indicator.evidence.map((item, idx) => (
+                          <li key={idx}>{item}</li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Non-profit Section (register S) */}
+        {data.nonProfit &&
+          (data.nonProfit.objectives || data.nonProfit.supervisoryAuthority) && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <span>🎯</span> Organizacja
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-2">
+                <p className="text-sm">
+                  Status OPP:{" "}
+                  {data.nonProfit.publicBenefit
+                    ? "organizacja pożytku publicznego"
+                    : "nie"}
+                </p>
+                {data.nonProfit.supervisoryAuthority && (
+                  <p className="text-sm">
+                    <span className="text-muted-foreground text-xs">
+                      Organ nadzoru:{" "}
+                    </span>
+                    {data.nonProfit.supervisoryAuthority}
+                  </p>
+                )}
+                {data.nonProfit.objectives && (
+                  <p className="text-xs text-muted-foreground">
+                    {data.nonProfit.objectives}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
         {/* Address Section */}
-        <Card>
+        <Card className={ring("address", "email", "website")}>
           <CardHeader className="pb-2">
             <CardTitle className="text-base flex items-center gap-2">
               <span>📍</span> Adres siedziby
@@ -289,81 +803,285 @@ function CompanyCardWidget() {
               {data.address.unit && ` lok. ${data.address.unit}`}
             </p>
             <p className="text-sm">
-              {data.address.postalCode} {data.address.city}
+              {data.address.postalCode}{" "}
+              {data.address.postOffice ?? data.address.city}
             </p>
             <p className="text-sm text-muted-foreground">
-              {data.address.voivodeship}, {data.address.country}
+              {[
+                data.address.municipality && `gm. ${data.address.municipality}`,
+                data.address.county && `pow. ${data.address.county}`,
+                data.address.voivodeship,
+                data.address.country,
+              ]
+                .filter(Boolean)
+                .join(", ")}
             </p>
+            {(data.contact?.email || data.contact?.website) && (
+              <div className="mt-2 space-y-1 text-sm">
+                {data.contact.email && (
+                  <p>
+                    <span>✉️ </span>
+                    <button
+                      type="button"
+                      className="text-blue-600 hover:underline dark:text-blue-400"
+                      onClick={() => openLink(`mailto:${data.contact?.email}`)}
+                    >
+                      {data.contact.email}
+                    </button>
+                  </p>
+                )}
+                {data.contact.website && (
+                  <p>
+                    <span>🌐 </span>
+                    <button
+                      type="button"
+                      className="text-blue-600 hover:underline dark:text-blue-400"
+                      onClick={() =>
+                        openLink(toWebsiteUrl(data.contact?.website ?? ""))
+                      }
+                    >
+                      {data.contact.website}
+                    </button>
+                  </p>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {/* Branches Section */}
+        {data.branches && data.branches.length > 0 && (
+          <Card className={ring("branches")}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <span>🏢</span> Oddziały
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <ul className="text-sm space-y-2">
+                {data.branches.map((b, i) => (
+                  <li key={i}>
+                    <p className="font-medium">{b.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[
+                        [b.address.street, b.address.building].filter(Boolean).join(" "),
+                        `${b.address.postalCode} ${b.address.city}`.trim(),
+                      ]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Capital Section */}
-        {data.capital && (
-          <Card>
+        {showCapital && data.capital && (
+          <Card className={ring("capital")}>
             <CardHeader className="pb-2">
               <CardTitle className="text-base flex items-center gap-2">
-                <span>💰</span> Kapitał zakładowy
+                <span>💰</span>{" "}
+                {form?.code === "simple_joint_stock_company"
+                  ? "Kapitał akcyjny"
+                  : "Kapitał zakładowy"}
               </CardTitle>
             </CardHeader>
             <CardContent className="pt-0">
               <p className="text-lg font-semibold">
-                {parseFloat(data.capital.value).toLocaleString("pl-PL", {
-                  minimumFractionDigits: 2,
-                })}{" "}
-                {data.capital.currency}
+                {data.capital.display ??
+                  `${parseFloat(data.capital.value).toLocaleString("pl-PL", {
+                    minimumFractionDigits: 2,
+                  })} ${data.capital.currency}`}
               </p>
-              {data.shareholders.length > 0 && (
-                <div className="mt-3">
-                  <p className="text-sm font-medium text-muted-foreground mb-2">
-                    Wspólnicy:
-                  </p>
-                  <ul className="text-sm space-y-1">
-                    {data.shareholders.map((s, i) => (
-                      <li key={i} className="flex justify-between">
-                        <span>{s.name}</span>
-                        <span className="text-muted-foreground text-xs">
-                          {s.shares}
-                        </span>
-                      </li>
-                    ))}
-                  </ul>
+              {belowMinimumCapital && form?.minimumCapital && (
+                <p className="text-xs text-red-600 mt-1">
+                  ⚠️ Poniżej ustawowego minimum ({form.minimumCapital.amount}{" "}
+                  {form.minimumCapital.currency})
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Shareholders Section */}
+        {data.shareholders.length > 0 && (
+          <Card className={ring("shareholders")}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <span>🏦</span> {holdersLabel}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              {/* Ownership breakdown chart */}
+              {data.shareholders.some((s) => s.percentage != null) && (
+                <div className="mb-3">
+                  <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+                    {data.shareholders.map((s, i) =>
+                      s.percentage ? (
+                        <div
+                          key={i}
+                          className={OWNERSHIP_COLORS[i % OWNERSHIP_COLORS.length]}
+                          style={{ width: `${s.percentage}%` }}
+                          title={`${s.name}: ${s.percentage.toFixed(2)}%`}
+                        />
+                      ) : null
+                    )}
+                  </div>
                 </div>
               )}
+              <ul className="text-sm space-y-2">
+                {data.shareholders.map((s, i) => (
+                  <li key={i} className="flex justify-between gap-2">
+                    <div>
+                      {s.percentage != null && (
+                        <span
+                          className={`mr-2 inline-block h-2 w-2 rounded-full ${OWNERSHIP_COLORS[i % OWNERSHIP_COLORS.length]}`}
+                        />
+                      )}
+                      {s.kind === "person" ? (
+                        <PersonName
+                          name={s.name}
+                          onSelect={() => showPersonRoles(s.name, s.birthDate)}
+                        />
+                      ) : (
+                        <span className="font-medium">{s.name}</span>
+                      )}
+                      <ItemChangeBadge state={itemChange(changes.get("shareholders"), s.name)} />
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        <Badge variant="outline" className="text-xs">
+                          {SHAREHOLDER_ROLE_LABELS[s.role] ?? s.role}
+                        </Badge>
+                        {s.kind === "entity" && (
+                          <Badge variant="secondary" className="text-xs">
+                            {s.krs ? `Osoba prawna · KRS ${s.krs}` : "Osoba prawna"}
+                          </Badge>
+                        )}
+                        {s.soleShareholder && (
+                          <Badge className="text-xs">Jedyny wspólnik</Badge>
+                        )}
+                        {s.encumbered && (
+                          <Badge variant="destructive" className="text-xs">
+                            Udziały obciążone
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <span className="text-muted-foreground text-xs text-right">
+                      {s.percentage != null && (
+                        <span className="block font-medium text-foreground">
+                          {s.percentage.toFixed(2)}%
+                        </span>
+                      )}
+                      {s.shares}
+                    </span>
+                  </li>
+                ))}
+              </ul>
             </CardContent>
           </Card>
         )}
 
-        {/* Board Section */}
-        {data.representation.members.length > 0 && (
-          <Card>
+        {/* Board Section (all representation organs) */}
+        {(data.representationOrgans ?? [data.representation])
+          .filter((organ) => organ.members.length > 0)
+          .map((organ, organIndex) => (
+            <Card key={organIndex} className={ring("board", "representationMethod")}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <span>👥</span> {organ.organName}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <ul className="text-sm space-y-2">
+                  {organ.members.map((m, i) => (
+                    <li key={i} className="flex justify-between items-center">
+                      <span>
+                        <PersonName
+                          name={m.name}
+                          onSelect={() => showPersonRoles(m.name, m.birthDate)}
+                        />
+                        <ItemChangeBadge state={itemChange(changes.get("board"), m.name)} />
+                      </span>
+                      <Badge variant="outline" className="text-xs">
+                        {m.function}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+                {organ.method && (
+                  <p className="mt-3 text-xs text-muted-foreground">
+                    {organ.method}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+
+        {/* Supervisory Board Section */}
+        {data.supervisoryBoard && data.supervisoryBoard.members.length > 0 && (
+          <Card className={ring("supervisoryBoard")}>
             <CardHeader className="pb-2">
               <CardTitle className="text-base flex items-center gap-2">
-                <span>👥</span> {data.representation.organName}
+                <span>🔍</span> {data.supervisoryBoard.organName}
               </CardTitle>
             </CardHeader>
             <CardContent className="pt-0">
               <ul className="text-sm space-y-2">
-                {data.representation.members.map((m, i) => (
+                {data.supervisoryBoard.members.map((m, i) => (
                   <li key={i} className="flex justify-between items-center">
-                    <span className="font-medium">{m.name}</span>
+                    <span>
+                      <PersonName
+                        name={m.name}
+                        onSelect={() => showPersonRoles(m.name, m.birthDate)}
+                      />
+                      <ItemChangeBadge
+                        state={itemChange(changes.get("supervisoryBoard"), m.name)}
+                      />
+                    </span>
                     <Badge variant="outline" className="text-xs">
                       {m.function}
                     </Badge>
                   </li>
                 ))}
               </ul>
-              {data.representation.method && (
-                <p className="mt-3 text-xs text-muted-foreground">
-                  {data.representation.method}
-                </p>
-              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Proxies Section */}
+        {data.proxies?.length > 0 && (
+          <Card className={ring("proxies")}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <span>✍️</span> Prokurenci
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              <ul className="text-sm space-y-2">
+                {data.proxies.map((p, i) => (
+                  <li key={i} className="flex justify-between items-center">
+                    <span>
+                      <PersonName
+                        name={p.name}
+                        onSelect={() => showPersonRoles(p.name, p.birthDate)}
+                      />
+                      <ItemChangeBadge state={itemChange(changes.get("proxies"), p.name)} />
+                    </span>
+                    <Badge variant="outline" className="text-xs">
+                      {p.type}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
             </CardContent>
           </Card>
         )}
 
         {/* Activities Section */}
         {data.mainActivity.length > 0 && (
-          <Card>
+          <Card className={ring("mainActivity", "otherActivities")}>
             <CardHeader className="pb-2">
               <CardTitle className="text-base flex items-center gap-2">
                 <span>🏭</span> Działalność
@@ -376,12 +1094,30 @@ function CompanyCardWidget() {
                     PRZEWAŻAJĄCA:
                   </p>
                   {data.mainActivity.map((a, i) => (
-                    <p key={i} className="text-sm">
-                      <Badge variant="secondary" className="mr-2">
-                        {a.code}
-                      </Badge>
-                      {a.description}
-                    </p>
+                    <div key={i} className="text-sm">
+                      <p>
+                        {a.section && (
+                          <Badge variant="outline" className="mr-1 text-xs">
+                            {a.section}
+                          </Badge>
+                        )}
+                        <Badge variant="secondary" className="mr-2">
+                          {a.code}
+                        </Badge>
+                        {a.description}
+                        {a.version && (
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            (PKD {a.version})
+                          </span>
+                        )}
+                      </p>
+                      {a.equivalents?.map((eq, j) => (
+                        <p key={j} className="ml-4 text-xs text-muted-foreground">
+                          → PKD {eq.version}: <span className="font-mono">{eq.code}</span>{" "}
+                          {eq.name}
+                        </p>
+                      ))}
+                    </div>
                   ))}
                 </div>
                 {data.otherActivities.length > 0 && (
@@ -401,6 +1137,11 @@ function CompanyCardWidget() {
                           <span className="text-muted-foreground">
                             {a.description}
                           </span>
+                          {a.equivalents && a.equivalents.length > 0 && (
+                            <span className="ml-1 text-xs text-muted-foreground">
+                              (→ {a.equivalents.map((eq) => eq.code).join(", ")})
+                            </span>
+                          )}
                         </li>
                       ))}
                       {data.otherActivities.length > 10 && (
@@ -416,6 +1157,54 @@ function CompanyCardWidget() {
           </Card>
         )}
 
+        {/* Filings Section */}
+        {data.filingStatus && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <span>📑</span> Sprawozdania finansowe
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0 space-y-2">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">
+                  {data.filingStatus.lastStatementYear !== null
+                    ? `Ostatnie: za ${data.filingStatus.lastStatementYear}`
+                    : "Brak złożonych sprawozdań"}
+                </Badge>
+                {data.filingStatus.missingPreviousYear && (
+                  <Badge variant="destructive">
+                    Brak za {data.filingStatus.expectedYear}
+                  </Badge>
+                )}
+              </div>
+              {data.filings && data.filings.length > 0 && (
+                <details>
+                  <summary className="text-xs font-medium text-muted-foreground cursor-pointer">
+                    ZŁOŻONE DOKUMENTY ({data.filings.length})
+                  </summary>
+                  <ul className="mt-2 space-y-1">
+                    {[...data.filings]
+                      .sort((a, b) => (b.year ?? 0) - (a.year ?? 0))
+                      .map((f, i) => (
+                        <li key={i} className="text-sm flex justify-between gap-2">
+                          <span>
+                            {f.year ?? "?"} - {FILING_LABELS[f.kind]}
+                          </span>
+                          {f.filedOn && (
+                            <span className="text-xs text-muted-foreground">
+                              {formatDate(f.filedOn)}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                  </ul>
+                </details>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Meta Section */}
         <Card>
           <CardHeader className="pb-2">
@@ -429,19 +1218,131 @@ function CompanyCardWidget() {
                 <p className="text-muted-foreground text-xs">
                   Data rejestracji:
                 </p>
-                <p>{data.registrationDate}</p>
+                <p>{formatDate(data.registrationDate)}</p>
               </div>
               <div>
                 <p className="text-muted-foreground text-xs">Stan na dzień:</p>
-                <p>{data.lastUpdate}</p>
+                <p>{formatDate(data.lastUpdate)}</p>
               </div>
+              {data.registryCourt && (
+                <div className="col-span-2">
+                  <p className="text-muted-foreground text-xs">
+                    Sąd rejestrowy:
+                  </p>
+                  <p>{data.registryCourt}</p>
+                </div>
+              )}
+              {data.lastEntryNumber != null && (
+                <div>
+                  <p className="text-muted-foreground text-xs">
+                    Ostatni wpis:
+                  </p>
+                  <p>nr {data.lastEntryNumber}</p>
+                </div>
+              )}
             </div>
+            {data.lastEntries && data.lastEntries.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {[...data.lastEntries].reverse().map((entry) => (
+                  <li key={entry.number} className="text-xs">
+                    <Badge variant="outline" className="mr-2 font-mono">
+                      {entry.number}
+                    </Badge>
+                    {formatDate(entry.date)}
+                    {entry.caseSignature && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · sygn. {entry.caseSignature}
+                      </span>
+                    )}
+                    {entry.description && (
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · {entry.description}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
             <p className="mt-2 text-xs text-muted-foreground">
               Źródło: Krajowy Rejestr Sądowy (api-krs.ms.gov.pl)
             </p>
           </CardContent>
         </Card>
       </div>
+
+      {/* Person Roles Panel (find_person_roles) */}
+      {person && (
+        <Card className="absolute inset-x-2 bottom-2 max-h-[50%] overflow-auto shadow-lg">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center justify-between gap-2">
+              <span>👤 {person.name}</span>
+              <button
+                type="button"
+                onClick={() => setPerson(null)}
+                aria-label="Zamknij"
+                className="text-muted-foreground hover:text-foreground"
+              >
+                ✕
+              </button>
+            </CardTitle>
+            {person.lookup && (
+              <CardDescription className="text-xs">
+                {person.lookup.possibleNamesakes &&
+                  "Dopasowanie po imieniu i nazwisku - mogą to być różne osoby. "}
+                Lista obejmuje tylko spółki pobrane wcześniej przez serwer.
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="pt-0">
+            {!person.lookup && !person.error && (
+              <p className="text-sm text-muted-foreground">Wyszukiwanie...</p>
+            )}
+            {person.error && <p className="text-sm text-red-500">{person.error}</p>}
+            {person.lookup?.persons.length === 0 && (
+              <p className="text-sm text-muted-foreground">Brak innych ról.</p>
+            )}
+            {person.lookup?.persons.map((match, i) => (
+              <div key={i} className="mb-2">
+                {person.lookup!.persons.length > 1 && (
+                  <p className="text-xs font-medium text-muted-foreground mb-1">
+                    {match.name}
+                    {match.birthDate && ` (ur. ${formatDate(match.birthDate)})`}
+                  </p>
+                )}
+                <ul className="text-sm space-y-1">
+                  {match.roles.map((r, j) => (
+                    <li key={j} className="flex justify-between gap-2">
+                      <span>
+                        <span className={r.current ? "font-medium" : "text-muted-foreground"}>
+                          {r.companyName}
+                        </span>
+                        <span className="block text-xs text-muted-foreground">
+                          KRS {r.krs} · {r.organ ?? PERSON_ROLE_LABELS[r.role]}
+                          {r.function && ` · ${r.function}`}
+                        </span>
+                      </span>
+                      <span className="text-xs text-muted-foreground text-right whitespace-nowrap">
+                        {r.since || r.until
+                          ? `${r.since ? formatDate(r.since) : "?"} – ${
+                              r.current ? "obecnie" : r.until ? formatDate(r.until) : "?"
+                            }`
+                          : r.current
+                            ? "obecnie"
+                            : "dawniej"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            {person.lookup?.truncated && (
+              <p className="text-xs text-muted-foreground">Lista skrócona.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,281 @@
+import { StrictMode, useState, useEffect } from "react";
+import { createRoot } from "react-dom/client";
+import {
+  App,
+  PostMessageTransport,
+  applyDocumentTheme,
+} from "@modelcontextprotocol/ext-apps";
+import type { McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import "../styles/globals.css";
+
+type StatusCode =
+  | "active"
+  | "in_liquidation"
+  | "bankrupt"
+  | "in_restructuring"
+  | "deregistered";
+
+type ErrorCode = "invalid_krs" | "not_found" | "timeout" | "unavailable" | "api_error";
+
+// Batch lookup result (matches view_companies_batch output)
+interface CompanyBatch {
+  requested: number;
+  succeeded: number;
+  failed: number;
+  results: Array<
+    | {
+        krs: string;
+        ok: true;
+        company: {
+          name: string;
+          legalForm: string;
+          status: StatusCode;
+          city: string;
+          nip: string | null;
+          regon: string | null;
+          registrationDate: string;
+          capital: string | null;
+          lastEntryNumber: number | null;
+        };
+      }
+    | { krs: string; ok: false; error: { code: ErrorCode; message: string } }
+  >;
+}
+
+// Legal status labels
+const STATUS_LABELS: Record<StatusCode, string> = {
+  active: "Aktywny",
+  in_liquidation: "W likwidacji",
+  bankrupt: "W upadłości",
+  in_restructuring: "W restrukturyzacji",
+  deregistered: "Wykreślony",
+};
+
+// Error labels
+const ERROR_LABELS: Record<ErrorCode, string> = {
+  invalid_krs: "Nieprawidłowy numer",
+  not_found: "Nie znaleziono",
+  timeout: "Przekroczony czas",
+  unavailable: "API niedostępne",
+  api_error: "Błąd API",
+};
+
+// Prefixed logging
+const log = {
+  info: console.log.bind(console, "[CompanyList]"),
+  warn: console.warn.bind(console, "[CompanyList]"),
+  error: console.error.bind(console, "[CompanyList]"),
+};
+
+// Safe area padding helper
+function getSafeAreaPaddingStyle(
+  hostContext?: McpUiHostContext
+): React.CSSProperties {
+  if (!hostContext?.safeAreaInsets) return {};
+  return {
+    paddingTop: hostContext.safeAreaInsets.top,
+    paddingRight: hostContext.safeAreaInsets.right,
+    paddingBottom: hostContext.safeAreaInsets.bottom,
+    paddingLeft: hostContext.safeAreaInsets.left,
+  };
+}
+
+function CompanyListWidget() {
+  const [app, setApp] = useState<App | null>(null);
+  const [appError, setAppError] = useState<Error | null>(null);
+  const [hostContext, setHostContext] = useState<McpUiHostContext>();
+  const [data, setData] = useState<CompanyBatch | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const appInstance = new App(
+      { name: "krs-viewer", version: "1.0.0" },
+      {}, // capabilities
+      { autoResize: false } // CRITICAL: Prevents width narrowing
+    );
+
+    appInstance.ontoolinput = () => {
+      log.info("Tool input received");
+      setLoading(true);
+      setError(null);
+    };
+
+    appInstance.ontoolresult = (result) => {
+      log.info("Tool result received:", result);
+      setLoading(false);
+      if (result.structuredContent) {
+        setData(result.structuredContent as unknown as CompanyBatch);
+        setError(null);
+        return;
+      }
+      const firstContent = result.content?.[0];
+      setError(
+        firstContent?.type === "text" && "text" in firstContent
+          ? firstContent.text
+          : "Failed to parse company list"
+      );
+    };
+
+    appInstance.onerror = (err) => {
+      log.error("Error:", err);
+      setAppError(err);
+      setError(String(err));
+      setLoading(false);
+    };
+
+    appInstance.onhostcontextchanged = (ctx) => {
+      setHostContext((prev) => ({ ...prev, ...ctx }));
+      if (ctx.theme) {
+        applyDocumentTheme(ctx.theme);
+        document.documentElement.classList.toggle("dark", ctx.theme === "dark");
+      }
+    };
+
+    appInstance.onteardown = async () => {
+      log.info("Teardown requested");
+      return {};
+    };
+
+    const transport = new PostMessageTransport(window.parent, window.parent);
+    appInstance
+      .connect(transport)
+      .then(() => {
+        setApp(appInstance);
+        setHostContext(appInstance.getHostContext());
+        log.info("Connected to host");
+      })
+      .catch((err) => {
+        log.error("Connection failed:", err);
+        setAppError(err);
+      });
+
+    return () => {
+      appInstance.close();
+    };
+  }, []);
+
+  // Ask the model to open the full company card
+  const showCompany = (krs: string, name: string) => {
+    if (!app) return;
+    app
+      .sendMessage({
+        role: "user",
+        content: [{ type: "text", text: `Pokaż szczegóły firmy ${name} (KRS ${krs})` }],
+      })
+      .then(({ isError }) => {
+        if (isError) log.warn("Host rejected message for KRS", krs);
+      })
+      .catch((err) => log.error("Failed to send message:", err));
+  };
+
+  if (appError || error) {
+    return (
+      <div
+        className="w-full flex items-center justify-center bg-white dark:bg-slate-900 p-4"
+        style={getSafeAreaPaddingStyle(hostContext)}
+      >
+        <Card className="w-full max-w-md border-red-200">
+          <CardHeader>
+            <CardTitle className="text-red-500">Błąd</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-500">{appError?.message ?? error}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading || !app || !data) {
+    return (
+      <div
+        className="w-full flex items-center justify-center bg-white dark:bg-slate-900 p-4"
+        style={getSafeAreaPaddingStyle(hostContext)}
+      >
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        <span className="ml-3 text-sm">Pobieranie danych z KRS...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="h-[600px] w-full flex flex-col bg-white dark:bg-slate-900 overflow-hidden"
+      style={getSafeAreaPaddingStyle(hostContext)}
+    >
+      <div className="flex-1 overflow-auto p-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <span>📋</span> Sprawdzone firmy
+            </CardTitle>
+            <CardDescription>
+              {data.succeeded} z {data.requested} znaleziono
+              {data.failed > 0 && ` · ${data.failed} z błędem`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <ul className="divide-y text-sm">
+              {data.results.map((item) =>
+                item.ok ? (
+                  <li key={item.krs}>
+                    <button
+                      type="button"
+                      onClick={() => showCompany(item.krs, item.company.name)}
+                      className="w-full py-2 flex justify-between items-center gap-2 text-left hover:bg-muted/50"
+                    >
+                      <span className="min-w-0">
+                        <span className="block font-medium truncate">{item.company.name}</span>
+                        <span className="block text-xs text-muted-foreground truncate">
+                          KRS {item.krs} · {item.company.legalForm} · {item.company.city}
+                          {item.company.nip && ` · NIP ${item.company.nip}`}
+                        </span>
+                      </span>
+                      <Badge
+                        variant={item.company.status === "active" ? "secondary" : "destructive"}
+                        className="text-xs shrink-0"
+                      >
+                        {STATUS_LABELS[item.company.status]}
+                      </Badge>
+                    </button>
+                  </li>
+                ) : (
+                  <li key={item.krs} className="py-2 flex justify-between items-center gap-2">
+                    <span className="min-w-0">
+                      <span className="block font-mono text-xs">{item.krs}</span>
+                      <span className="block text-xs text-red-500 truncate">
+                        {item.error.message}
+                      </span>
+                    </span>
+                    <Badge variant="outline" className="text-xs shrink-0 border-red-300 text-red-600">
+                      {ERROR_LABELS[item.error.code]}
+                    </Badge>
+                  </li>
+                )
+              )}
+            </ul>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+// Mount the app
+const container = document.getElementById("root");
+if (container) {
+  createRoot(container).render(
+    <StrictMode>
+      <CompanyListWidget />
+    </StrictMode>
+  );
+}
@@ -0,0 +1,286 @@
+import { StrictMode, useState, useEffect } from "react";
+import { createRoot } from "react-dom/client";
+import {
+  App,
+  PostMessageTransport,
+  applyDocumentTheme,
+} from "@modelcontextprotocol/ext-apps";
+import type { McpUiHostContext } from "@modelcontextprotocol/ext-apps";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+} from "../components/ui/card";
+import "../styles/globals.css";
+
+// Comparison result (matches compare_companies output)
+interface CompanyComparison {
+  companies: Array<{ krs: string; name: string }>;
+  rows: Array<{
+    field: string;
+    label: string;
+    values: Array<string | null>;
+    numbers: Array<number | null> | null;
+    differs: boolean;
+  }>;
+  pkd: Array<{
+    code: string;
+    description: string;
+    present: boolean[];
+    main: boolean[];
+  }>;
+  pkdSharedByAll: number;
+}
+
+// Rows whose values differ between companies
+const DIFFERS_ROW = "bg-amber-50 dark:bg-amber-950";
+
+// Prefixed logging
+const log = {
+  info: console.log.bind(console, "[Compare]"),
+  warn: console.warn.bind(console, "[Compare]"),
+  error: console.error.bind(console, "[Compare]"),
+};
+
+// Index of the highest value in a numeric row (null when tied or unknown)
+function highestIndex(numbers: Array<number | null> | null): number | null {
+  if (!numbers) return null;
+  const known = numbers.filter((n): n is number => n !== null);
+  if (known.length < 2) return null;
+  const max = Math.max(...known);
+  return known.filter((n) => n === max).length === 1 ? numbers.indexOf(max) : null;
+}
+
+// Safe area padding helper
+function getSafeAreaPaddingStyle(
+  hostContext?: McpUiHostContext
+): React.CSSProperties {
+  if (!hostContext?.safeAreaInsets) return {};
+  return {
+    paddingTop: hostContext.safeAreaInsets.top,
+    paddingRight: hostContext.safeAreaInsets.right,
+    paddingBottom: hostContext.safeAreaInsets.bottom,
+    paddingLeft: hostContext.safeAreaInsets.left,
+  };
+}
+
+function CompareWidget() {
+  const [app, setApp] = useState<App | null>(null);
+  const [appError, setAppError] = useState<Error | null>(null);
+  const [hostContext, setHostContext] = useState<McpUiHostContext>();
+  const [data, setData] = useState<CompanyComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const appInstance = new App(
+      { name: "krs-viewer", version: "1.0.0" },
+      {}, // capabilities
+      { autoResize: false } // CRITICAL: Prevents width narrowing
+    );
+
+    appInstance.ontoolinput = () => {
+      log.info("Tool input received");
+      setLoading(true);
+      setError(null);
+    };
+
+    appInstance.ontoolresult = (result) => {
+      log.info("Tool result received:", result);
+      setLoading(false);
+      if (result.structuredContent) {
+        setData(result.structuredContent as unknown as CompanyComparison);
+        setError(null);
+        return;
+      }
+      const firstContent = result.content?.[0];
+      setError(
+        firstContent?.type === "text" && "text" in firstContent
+          ? firstContent.text
+          : "Failed to parse comparison"
+      );
+    };
+
+    appInstance.onerror = (err) => {
+      log.error("Error:", err);
+      setAppError(err);
+      setError(String(err));
+      setLoading(false);
+    };
+
+    appInstance.onhostcontextchanged = (ctx) => {
+      setHostContext((prev) => ({ ...prev, ...ctx }));
+      if (ctx.theme) {
+        applyDocumentTheme(ctx.theme);
+        document.documentElement.classList.toggle("dark", ctx.theme === "dark");
+      }
+    };
+
+    appInstance.onteardown = async () => {
+      log.info("Teardown requested");
+      return {};
+    };
+
+    const transport = new PostMessageTransport(window.parent, window.parent);
+    appInstance
+      .connect(transport)
+      .then(() => {
+        setApp(appInstance);
+        setHostContext(appInstance.getHostContext());
+        log.info("Connected to host");
+      })
+      .catch((err) => {
+        log.error("Connection failed:", err);
+        setAppError(err);
+      });
+
+    return () => {
+      appInstance.close();
+    };
+  }, []);
+
+  if (appError || error) {
+    return (
+      <div
+        className="w-full flex items-center justify-center bg-white dark:bg-slate-900 p-4"
+        style={getSafeAreaPaddingStyle(hostContext)}
+      >
+        <Card className="w-full max-w-md border-red-200">
+          <CardHeader>
+            <CardTitle className="text-red-500">Błąd</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-red-500">{appError?.message ?? error}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading || !app || !data) {
+    return (
+      <div
+        className="w-full flex items-center justify-center bg-white dark:bg-slate-900 p-4"
+        style={getSafeAreaPaddingStyle(hostContext)}
+      >
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        <span className="ml-3 text-sm">Pobieranie danych z KRS...</span>
+      </div>
+    );
+  }
+
+  const sharedPkd = data.pkd.filter((r) => r.present.filter(Boolean).length > 1);
+
+  return (
+    <div
+      className="h-[600px] w-full flex flex-col bg-white dark:bg-slate-900 overflow-hidden"
+      style={getSafeAreaPaddingStyle(hostContext)}
+    >
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <span>⚖️</span> Porównanie firm
+            </CardTitle>
+            <CardDescription className="text-xs">
+              Wiersze z różnicami są wyróżnione; pogrubiono najwyższą wartość.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0 overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-2 pr-2 text-left text-xs font-medium text-muted-foreground" />
+                  {data.companies.map((c) => (
+                    <th key={c.krs} className="py-2 px-2 text-left align-bottom">
+                      <span className="block font-semibold">{c.name}</span>
+                      <span className="block text-xs font-normal text-muted-foreground">
+                        KRS {c.krs}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {data.rows.map((row) => {
+                  const highest = row.differs ? highestIndex(row.numbers) : null;
+                  return (
+                    <tr key={row.field} className={`border-b ${row.differs ? DIFFERS_ROW : ""}`}>
+                      <th className="py-1.5 pr-2 text-left text-xs font-medium text-muted-foreground whitespace-nowrap">
+                        {row.label}
+                      </th>
+                      {row.values.map((value, i) => (
+                        <td
+                          key={i}
+                          className={`py-1.5 px-2 ${i === highest ? "font-semibold" : ""}`}
+                        >
+                          {value ?? "—"}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+
+        {data.pkd.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <span>🏭</span> Wspólne PKD
+              </CardTitle>
+              <CardDescription className="text-xs">
+                {data.pkdSharedByAll} wspólnych dla wszystkich · {sharedPkd.length} dla
+                co najmniej dwóch · {data.pkd.length} łącznie (★ przeważające)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-0 overflow-x-auto">
+              <table className="w-full text-sm border-collapse">
+                <tbody>
+                  {data.pkd.map((row) => (
+                    <tr
+                      key={row.code}
+                      className={`border-b ${
+                        row.present.every(Boolean)
+                          ? "bg-emerald-50 dark:bg-emerald-950"
+                          : row.present.filter(Boolean).length === 1
+                            ? "text-muted-foreground"
+                            : ""
+                      }`}
+                    >
+                      <th className="py-1 pr-2 text-left font-normal">
+                        <span className="font-mono text-xs">{row.code}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {row.description}
+                        </span>
+                      </th>
+                      {row.present.map((present, i) => (
+                        <td key={i} className="py-1 px-2 text-center">
+                          {present ? (row.main[i] ? "★" : "✓") : ""}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Mount the app
+const container = document.getElementById("root");
+if (container) {
+  createRoot(container).render(
+    <StrictMode>
+      <CompareWidget />
+    </StrictMode>
+  );
+}